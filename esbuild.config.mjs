@@ -28,4 +28,10 @@ execSync(`npx esbuild src/handlers/receiver.ts --outfile=dist/handlers/receiver.
 console.log('Building processor...');
 execSync(`npx esbuild src/handlers/processor.ts --outfile=dist/handlers/processor.js ${shared}`, { stdio: 'inherit' });
 
+console.log('Building watcher...');
+execSync(`npx esbuild src/handlers/watcher.ts --outfile=dist/handlers/watcher.js ${shared}`, { stdio: 'inherit' });
+
+console.log('Building sniper...');
+execSync(`npx esbuild src/handlers/sniper.ts --outfile=dist/handlers/sniper.js ${shared}`, { stdio: 'inherit' });
+
 console.log('✓ Lambda handlers bundled');
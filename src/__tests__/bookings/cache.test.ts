@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// In-memory store mock for DynamoDB
+const store = new Map<string, unknown>();
+const mockGetItem = vi.fn(async (pk: string, sk: string) => store.get(`${pk}||${sk}`) ?? null);
+vi.mock('../../db/dynamodb.js', () => ({
+  getItem: (pk: string, sk: string) => mockGetItem(pk, sk),
+  putItem: vi.fn(async (pk: string, sk: string, data: Record<string, unknown>) => {
+    store.set(`${pk}||${sk}`, { ...data });
+  }),
+}));
+
+import { cached, clearResyCache, CACHE_TTL_S } from '../../bookings/cache.js';
+
+beforeEach(() => {
+  store.clear();
+  clearResyCache();
+  mockGetItem.mockClear();
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  delete process.env.RESY_CACHE_DYNAMODB;
+});
+
+describe('cached', () => {
+  it('serves repeat lookups from memory until the TTL passes', async () => {
+    const load = vi.fn().mockResolvedValueOnce(['a']).mockResolvedValueOnce(['b']);
+
+    expect(await cached('slots', 'k', load)).toEqual(['a']);
+    expect(await cached('slots', 'k', load)).toEqual(['a']);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + CACHE_TTL_S.slots * 1000 + 1);
+    expect(await cached('slots', 'k', load)).toEqual(['b']);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('hands out copies so callers cannot corrupt the cache', async () => {
+    const first = await cached('venue', '1', async () => ({ seating: ['Bar'] }));
+    first.seating.push('Patio');
+
+    expect(await cached('venue', '1', async () => ({ seating: [] }))).toEqual({ seating: ['Bar'] });
+  });
+
+  it('does not cache failures', async () => {
+    const load = vi.fn().mockRejectedValueOnce(new Error('down')).mockResolvedValueOnce('ok');
+
+    await expect(cached('search', 'q', load)).rejects.toThrow('down');
+    expect(await cached('search', 'q', load)).toBe('ok');
+  });
+
+  it('shares long-lived entries through DynamoDB when enabled', async () => {
+    process.env.RESY_CACHE_DYNAMODB = 'true';
+    await cached('venue', '9', async () => ({ name: 'Lilia' }));
+
+    // A fresh container: empty memory, same table
+    clearResyCache();
+    const load = vi.fn();
+    expect(await cached('venue', '9', load)).toEqual({ name: 'Lilia' });
+    expect(load).not.toHaveBeenCalled();
+
+    // Availability is too short-lived to be worth a round trip
+    await cached('slots', 's', async () => []);
+    expect(mockGetItem).not.toHaveBeenCalledWith('RESYCACHE#slots', 's');
+  });
+});
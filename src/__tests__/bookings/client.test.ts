@@ -0,0 +1,639 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ── Fetch stub ───────────────────────────────────────────────────────────────
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+function findResponse(times: Array<[string, string]>) {
+  return jsonResponse({
+    results: {
+      venues: [{
+        slots: times.map(([start, type]) => ({
+          config: { token: `cfg_${start}`, type },
+          date: { start, end: start },
+        })),
+      }],
+    },
+  });
+}
+
+import { ResyUpstreamError, ResySlotTakenError, ResyVenueClosedError, ResyNotFoundError, ResyCircuitOpenError, describeResyError } from '../../bookings/errors.js';
+import { cached, clearResyCache } from '../../bookings/cache.js';
+import { searchRestaurants, getVenue, findSlots, findSlotsInRange, compareAvailability, modifyReservation, bookSlot, getPaymentMethods, getReservationHistory, getFavorites, setFavorite, pickClosestSlot, ResyFeeConsentError, SeatingUnavailableError } from '../../bookings/client.js';
+
+beforeEach(() => {
+  mockFetch.mockReset();
+  clearResyCache();
+});
+
+describe('findSlotsInRange', () => {
+  it('groups matching slots by day and seating type', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      const day = new URL(url).searchParams.get('day');
+      if (day === '2030-06-07') return findResponse([['2030-06-07 18:00:00', 'Dining Room'], ['2030-06-07 19:30:00', 'Dining Room'], ['2030-06-07 20:00:00', 'Bar']]);
+      if (day === '2030-06-08') return findResponse([['2030-06-08 22:00:00', 'Dining Room']]);
+      return findResponse([]);
+    });
+
+    const range = await findSlotsInRange('tok', 1, '2030-06-07', '2030-06-09', 4, { timeWindow: { start: '19:00', end: '21:00' } });
+
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(range.days).toEqual([
+      { date: '2030-06-07', weekday: 'Fri', times: { 'Dining Room': ['19:30'], Bar: ['20:00'] } },
+    ]);
+    expect(range.days_checked).toBe(3);
+    expect(range.days_failed).toEqual([]);
+  });
+
+  it('isolates failed days and caps long ranges', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      const day = new URL(url).searchParams.get('day');
+      if (day === '2030-06-02') return new Response('boom', { status: 502 });
+      return findResponse([]);
+    });
+
+    const range = await findSlotsInRange('tok', 1, '2030-06-01', '2030-07-31', 2);
+
+    // 14 days, plus two retries of the day that keeps returning 502
+    expect(mockFetch).toHaveBeenCalledTimes(16);
+    expect(range.days_failed).toEqual(['2030-06-02']);
+    expect(range.days_checked).toBe(13);
+    expect(range.truncated_to).toBe('2030-06-14');
+  });
+});
+
+describe('compareAvailability', () => {
+  it('ranks venues by closest slot and isolates failures', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      const venue = new URL(url).searchParams.get('venue_id');
+      if (venue === '1') return findResponse([['2030-06-08 17:30:00', 'Dining Room'], ['2030-06-08 21:00:00', 'Dining Room']]);
+      if (venue === '2') return findResponse([['2030-06-08 20:15:00', 'Bar']]);
+      if (venue === '3') return findResponse([]);
+      return new Response('upstream down', { status: 503 });
+    });
+
+    const result = await compareAvailability('tok', [
+      { venueId: 1, name: 'Lilia' },
+      { venueId: 2, name: 'Via Carota' },
+      { venueId: 3, name: 'I Sodi' },
+      { venueId: 4, name: 'Misi' },
+    ], '2030-06-08', 2, '20:00', { concurrency: 2 });
+
+    expect(result.ranked.map(v => [v.venue_name, v.closest_time, v.minutes_off])).toEqual([
+      ['Via Carota', '20:15', 15],
+      ['Lilia', '21:00', 60],
+    ]);
+    expect(result.ranked[1].other_times).toEqual(['17:30']);
+    expect(result.fully_booked.map(v => v.venue_name)).toEqual(['I Sodi']);
+    expect(result.errors.map(v => v.venue_name)).toEqual(['Misi']);
+    expect(result.truncated).toBeUndefined();
+  });
+
+  it('says how many venues past the limit were left out', async () => {
+    mockFetch.mockImplementation(async () => findResponse([]));
+    const venues = Array.from({ length: 13 }, (_, i) => ({ venueId: i + 1 }));
+
+    const result = await compareAvailability('tok', venues, '2030-06-08', 2, '20:00');
+
+    expect(result.fully_booked).toHaveLength(10);
+    expect(result.truncated).toBe(3);
+  });
+});
+
+describe('modifyReservation', () => {
+  const original = {
+    resy_token: 'rr://old', reservation_id: 1, venue: { id: { resy: 9 }, name: 'Lilia' },
+    day: '2030-06-08', time_slot: '19:00', num_seats: 2, config: { type: 'Dining Room' },
+    occasion: 'Anniversary', special_request: 'quiet table please',
+  };
+
+  // Route Resy endpoints; `cancel` decides per resy_token whether cancellation succeeds
+  function routeResy(opts: { slots: Array<[string, string]>; book?: 'ok' | 'fail'; cancel: (token: string) => boolean }) {
+    const calls: string[] = [];
+    const booked: URLSearchParams[] = [];
+    mockFetch.mockImplementation(async (url: string, init?: RequestInit) => {
+      const path = new URL(url).pathname;
+      calls.push(path);
+      if (path === '/3/user/reservations') return jsonResponse({ reservations: [original] });
+      if (path === '/4/find') return findResponse(opts.slots);
+      if (path === '/3/details') return jsonResponse({ book_token: { value: 'bt', date_expires: '' }, venue: { name: 'Lilia' }, config: { type: 'Dining Room' } });
+      if (path === '/2/user') return jsonResponse({ payment_methods: [{ id: 5, is_default: true }] });
+      if (path === '/3/book') {
+        booked.push(new URLSearchParams(String(init?.body)));
+        return opts.book === 'fail'
+          ? new Response('slot taken', { status: 412 })
+          : jsonResponse({ resy_token: 'rr://new', reservation_id: 2, time_slot: '20:00', num_seats: 4 });
+      }
+      if (path === '/3/cancel') {
+        const token = new URLSearchParams(String(init?.body)).get('resy_token')!;
+        return opts.cancel(token) ? jsonResponse({}) : new Response('cannot cancel', { status: 400 });
+      }
+      return new Response('not found', { status: 404 });
+    });
+    return Object.assign(calls, { booked });
+  }
+
+  it('books the new slot before cancelling the original', async () => {
+    const calls = routeResy({ slots: [['2030-06-08 20:00:00', 'Dining Room']], cancel: () => true });
+
+    const result = await modifyReservation('tok', 'rr://old', { time: '20:00', partySize: 4 });
+
+    expect(result.status).toBe('modified');
+    expect(result.new_booking?.resy_token).toBe('rr://new');
+    expect(calls.indexOf('/3/book')).toBeLessThan(calls.indexOf('/3/cancel'));
+    // Notes carry over to the new booking and show on the reservation
+    expect(result.original).toMatchObject({ occasion: 'Anniversary', special_request: 'quiet table please' });
+    expect(calls.booked[0].get('special_request')).toBe('quiet table please');
+  });
+
+  it('leaves the original untouched when the new slot is unavailable', async () => {
+    const calls = routeResy({ slots: [['2030-06-08 21:30:00', 'Dining Room']], cancel: () => true });
+
+    const result = await modifyReservation('tok', 'rr://old', { time: '20:00' });
+
+    expect(result.status).toBe('unchanged');
+    expect(result.error).toContain('21:30');
+    expect(calls).not.toContain('/3/cancel');
+  });
+
+  it('rolls back the new booking when the original cannot be cancelled', async () => {
+    routeResy({ slots: [['2030-06-08 20:00:00', 'Dining Room']], cancel: token => token === 'rr://new' });
+
+    const result = await modifyReservation('tok', 'rr://old', { time: '20:00' });
+
+    expect(result.status).toBe('rolled_back');
+  });
+
+  it('flags when both the cancel and the rollback fail', async () => {
+    routeResy({ slots: [['2030-06-08 20:00:00', 'Dining Room']], cancel: () => false });
+
+    const result = await modifyReservation('tok', 'rr://old', { time: '20:00' });
+
+    expect(result.status).toBe('needs_attention');
+    expect(result.new_booking?.resy_token).toBe('rr://new');
+  });
+});
+
+describe('getVenue', () => {
+  it('maps the venue payload into the extended model', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({
+      id: { resy: 418 },
+      name: 'Lilia',
+      url_slug: 'lilia',
+      type: 'Italian',
+      price_range_id: 3,
+      rating: { average: 4.8 },
+      contact: { phone_number: '(718) 576-3095' },
+      location: {
+        address_1: '567 Union Ave', locality: 'Brooklyn', region: 'NY', postal_code: '11211',
+        neighborhood: 'Williamsburg', latitude: 40.7175, longitude: -73.9523,
+        time_zone: 'America/New_York', url_slug: 'new-york-ny',
+      },
+      content: [
+        { name: 'about', body: 'Pasta from Missy Robbins.' },
+        { name: 'need_to_know', body: 'Bar seats are walk-in.' },
+      ],
+      cancellation_policy: 'Cancel 24 hours ahead to avoid a $25 per person fee.',
+      templates: { '1': { name: 'Dining Room' }, '2': { display_config: { name: 'Bar' } } },
+    }));
+
+    const venue = await getVenue('tok', 418);
+
+    expect(new URL(mockFetch.mock.calls[0][0]).pathname).toBe('/3/venue');
+    expect(venue).toMatchObject({
+      venue_id: 418,
+      cuisine: ['Italian'],
+      price_range: 3,
+      rating: 4.8,
+      url: 'https://resy.com/cities/new-york-ny/lilia',
+      address: { full: '567 Union Ave, Brooklyn, NY 11211' },
+      coordinates: { lat: 40.7175, lng: -73.9523 },
+      timezone: 'America/New_York',
+      description: 'Pasta from Missy Robbins.',
+      need_to_know: 'Bar seats are walk-in.',
+      policies: { cancellation: 'Cancel 24 hours ahead to avoid a $25 per person fee.' },
+      seating_types: ['Dining Room', 'Bar'],
+    });
+  });
+
+  it('copes with a venue that has no location', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({
+      id: { resy: 419 }, name: 'Pop-up', url_slug: 'pop-up', templates: { '1': { name: 'Dining Room' } },
+    }));
+
+    const venue = await getVenue('tok', 419);
+
+    expect(venue).toMatchObject({
+      location: { city: '', state: '' },
+      url: 'https://resy.com/cities/new-york/pop-up',
+      address: { line1: '', full: '' },
+      seating_types: ['Dining Room'],
+    });
+    expect(venue.coordinates).toBeUndefined();
+  });
+});
+
+describe('bookSlot', () => {
+  const slot = { config_token: 'cfg', date: '2030-06-08', time: '20:00', party_size: 2, type: 'Dining Room' };
+  const feeDetails = {
+    cancellation: {
+      fee: { amount: 25, date_cut_off: '2030-06-07T20:00:00Z' },
+      display: { policy: ['Cancel 24 hours ahead to avoid a $25 fee.'] },
+    },
+    payment: { deposit_fee: 50, config: { type: 'deposit' } },
+  };
+  const paymentMethods = [
+    { id: 5, is_default: true, card_type: 'Visa', display: '4242', exp_month: 3, exp_year: 2031 },
+    { id: 6, is_default: false, card_type: 'Amex', display: '1005' },
+  ];
+
+  function routeBooking(details: Record<string, unknown>) {
+    const booked: URLSearchParams[] = [];
+    mockFetch.mockImplementation(async (url: string, init?: RequestInit) => {
+      const path = new URL(url).pathname;
+      if (path === '/3/details') {
+        return jsonResponse({ book_token: { value: 'bt', date_expires: '' }, venue: { name: 'Lilia' }, config: { type: 'Dining Room' }, ...details });
+      }
+      if (path === '/2/user') return jsonResponse({ payment_methods: paymentMethods });
+      if (path === '/3/book') {
+        booked.push(new URLSearchParams(String(init?.body)));
+        return jsonResponse({ resy_token: 'rr://new', reservation_id: 2, time_slot: '20:00', num_seats: 2 });
+      }
+      return new Response('not found', { status: 404 });
+    });
+    return booked;
+  }
+
+  it('refuses slots with fees until the user accepts them', async () => {
+    const booked = routeBooking(feeDetails);
+
+    const error = await bookSlot('tok', slot).catch(e => e);
+
+    expect(error).toBeInstanceOf(ResyFeeConsentError);
+    expect(error.terms).toMatchObject({ deposit: 50, cancellation_fee: 25, cancellation_cutoff: '2030-06-07T20:00:00Z' });
+    expect(booked).toHaveLength(0);
+  });
+
+  it('books within a fee ceiling and refuses anything over it', async () => {
+    const booked = routeBooking(feeDetails);
+
+    await expect(bookSlot('tok', slot, { maxFees: { deposit: 50, cancellation_fee: 20 } })).rejects.toBeInstanceOf(ResyFeeConsentError);
+    expect(booked).toHaveLength(0);
+
+    await bookSlot('tok', slot, { maxFees: { deposit: 50, cancellation_fee: 25 } });
+    expect(booked).toHaveLength(1);
+  });
+
+  it('records the agreed terms and chosen card on the confirmation', async () => {
+    const booked = routeBooking(feeDetails);
+
+    const confirmation = await bookSlot('tok', slot, { acceptFees: true, paymentMethodId: 6 });
+
+    expect(JSON.parse(booked[0].get('struct_payment_method')!)).toEqual({ id: 6 });
+    expect(confirmation.agreed_terms.policy_text).toEqual(['Cancel 24 hours ahead to avoid a $25 fee.']);
+    expect(confirmation.payment_method).toEqual({ id: 6, brand: 'Amex', last4: '1005', expires: undefined, is_default: false });
+  });
+
+  it('books free slots on the default card without consent', async () => {
+    routeBooking({});
+
+    const confirmation = await bookSlot('tok', slot);
+
+    expect(confirmation.agreed_terms.requires_payment_method).toBe(false);
+    expect(confirmation.payment_method?.id).toBe(5);
+  });
+
+  it('sends the occasion and special request with the booking', async () => {
+    const booked = routeBooking({});
+
+    const confirmation = await bookSlot('tok', slot, { notes: { occasion: 'Birthday', special_request: '  shellfish allergy ' } });
+
+    expect(booked[0].get('occasion')).toBe('Birthday');
+    expect(booked[0].get('special_request')).toBe('shellfish allergy');
+    expect(confirmation).toMatchObject({ occasion: 'Birthday', special_request: 'shellfish allergy' });
+  });
+
+  it('rejects a card that is not on the account', async () => {
+    routeBooking({});
+
+    await expect(bookSlot('tok', slot, { paymentMethodId: 99 })).rejects.toThrow('Payment method 99');
+  });
+});
+
+describe('getPaymentMethods', () => {
+  it('masks cards down to brand and last 4', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({
+      payment_methods: [{ id: 5, is_default: true, card_type: 'Visa', display: '•••• 4242', exp_month: 3, exp_year: 2031 }],
+    }));
+
+    expect(await getPaymentMethods('tok')).toEqual([
+      { id: 5, brand: 'Visa', last4: '4242', expires: '03/31', is_default: true },
+    ]);
+  });
+});
+
+describe('seating preferences', () => {
+  const slot = (time: string, type: string) => ({ config_token: `cfg_${time}`, date: '2030-06-07', time, party_size: 2, type });
+  const slots = [slot('19:00', 'Bar'), slot('19:00', 'Outdoor Patio'), slot('21:30', 'Dining Room')];
+
+  it('prefers the best-ranked seating over a closer time', () => {
+    expect(pickClosestSlot(slots, '19:00', { preferred: ['dining room', 'patio'] })).toEqual(slot('21:30', 'Dining Room'));
+    expect(pickClosestSlot(slots.slice(0, 2), '19:00', { preferred: ['dining room', 'patio'] })).toEqual(slot('19:00', 'Outdoor Patio'));
+  });
+
+  it('refuses to fall back to avoided seating', () => {
+    const error = (() => {
+      try { return pickClosestSlot([slot('19:00', 'Bar')], '19:00', { preferred: ['dining room'], avoid: ['bar'] }); } catch (e) { return e; }
+    })();
+
+    expect(error).toBeInstanceOf(SeatingUnavailableError);
+    expect((error as SeatingUnavailableError).availableTypes).toEqual(['Bar']);
+    expect((error as Error).message).toContain('dining room; never bar');
+  });
+
+  it('filters and ranks findSlots results', async () => {
+    mockFetch.mockResolvedValue(findResponse([['2030-06-07 19:00:00', 'Bar'], ['2030-06-07 19:30:00', 'Patio'], ['2030-06-07 20:00:00', 'Dining Room']]));
+
+    const found = await findSlots('tok', 1, '2030-06-07', 2, undefined, { preferred: ['dining room', 'patio'], avoid: ['bar'] });
+
+    expect(found.map(s => s.type)).toEqual(['Dining Room', 'Patio']);
+  });
+});
+
+describe('findSlots timezones', () => {
+  const originalTz = process.env.TZ;
+  afterEach(() => {
+    process.env.TZ = originalTz;
+  });
+
+  function findWithZone(starts: string[], timeZone?: string) {
+    return jsonResponse({
+      results: {
+        venues: [{
+          venue: timeZone ? { location: { time_zone: timeZone } } : undefined,
+          slots: starts.map(start => ({ config: { token: `cfg_${start}`, type: 'Dining Room' }, date: { start, end: start } })),
+        }],
+      },
+    });
+  }
+
+  for (const tz of ['UTC', 'America/Los_Angeles', 'America/New_York', 'Asia/Tokyo']) {
+    it(`keeps venue-local times when the server runs in ${tz}`, async () => {
+      process.env.TZ = tz;
+      mockFetch.mockResolvedValueOnce(findWithZone(['2030-06-07 19:00:00'], 'America/Los_Angeles'));
+      mockFetch.mockResolvedValueOnce(findWithZone(['2030-06-07 19:00:00', '2030-03-10 02:30:00'], 'America/New_York'));
+
+      const la = await findSlots('tok', 1, '2030-06-07', 2);
+      const nyc = await findSlots('tok', 2, '2030-06-07', 2);
+
+      expect(la[0]).toMatchObject({ time: '19:00', timezone: 'America/Los_Angeles', utc_offset: '-07:00' });
+      expect(nyc[0]).toMatchObject({ time: '19:00', utc_offset: '-04:00' });
+      // Doesn't exist in New York (spring forward) — still reported as sent
+      expect(nyc[1].time).toBe('02:30');
+    });
+  }
+
+  it('converts UTC instants into the venue zone', async () => {
+    process.env.TZ = 'Asia/Tokyo';
+    mockFetch.mockResolvedValue(findWithZone(['2030-06-08T02:00:00Z', '2030-06-07T19:00:00-07:00'], 'America/Los_Angeles'));
+
+    const slots = await findSlots('tok', 1, '2030-06-07', 2);
+
+    expect(slots.map(s => [s.time, s.utc_offset])).toEqual([['19:00', '-07:00'], ['19:00', '-07:00']]);
+  });
+
+  it('skips slots with a time it cannot read instead of failing the search', async () => {
+    mockFetch.mockResolvedValue(findWithZone(['7pm', '2030-06-07 19:30:00'], 'America/New_York'));
+
+    const slots = await findSlots('tok', 1, '2030-06-07', 2);
+
+    expect(slots.map(s => s.time)).toEqual(['19:30']);
+  });
+});
+
+describe('getReservationHistory', () => {
+  it('pages through past reservations with typed outcomes', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({
+      reservations: [
+        { resy_token: 'rr://a', reservation_id: 1, venue: { id: { resy: 9 } }, day: '2030-09-20', time_slot: '19:00:00', num_seats: 2, status: { finished: 1 } },
+        { resy_token: 'rr://b', reservation_id: 2, venue: { id: { resy: 9 } }, day: '2030-09-01', time_slot: '20:00:00', num_seats: 4, cancellation: { date_cancelled: '2030-08-30' } },
+      ],
+      venues: { 9: { name: 'Lilia' } },
+      metadata: { total: 5 },
+    }));
+
+    const page = await getReservationHistory('tok', { limit: 2, offset: 2 });
+
+    const url = new URL(mockFetch.mock.calls[0][0]);
+    expect(Object.fromEntries(url.searchParams)).toEqual({ type: 'past', limit: '2', offset: '2' });
+    expect(page.reservations.map(r => [r.venue_name, r.outcome])).toEqual([['Lilia', 'completed'], ['Lilia', 'cancelled']]);
+    expect(page.next_offset).toBe(4);
+  });
+});
+
+describe('favorites', () => {
+  it('lists favorites as venues', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({
+      results: {
+        venues: [{ id: { resy: 9 }, name: 'Lilia', url_slug: 'lilia', location: { locality: 'New York', region: 'NY', neighborhood: 'Williamsburg' }, cuisine: ['Italian'], price_range_id: 3 }],
+      },
+    }));
+
+    const favorites = await getFavorites('tok');
+
+    expect(favorites).toEqual([expect.objectContaining({ venue_id: 9, name: 'Lilia', price_range: 3, url: 'https://resy.com/cities/new-york/lilia' })]);
+  });
+
+  it('adds and removes favorites', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse({}));
+
+    await setFavorite('tok', 9, true);
+    await setFavorite('tok', 9, false);
+
+    const bodies = mockFetch.mock.calls.map(([, init]) => Object.fromEntries(new URLSearchParams(String(init.body))));
+    expect(bodies).toEqual([{ venue_id: '9', favorite: '1' }, { venue_id: '9', favorite: '0' }]);
+    expect(mockFetch.mock.calls[0][1].method).toBe('POST');
+  });
+});
+
+describe('searchRestaurants filters', () => {
+  function hit(id: number, name: string, cuisine: string, price: number, neighborhood: string, rating?: number) {
+    return { id: { resy: id }, name, url_slug: name.toLowerCase(), location: { locality: 'New York', region: 'NY', neighborhood }, cuisine: [cuisine], price_range: price, rating };
+  }
+
+  const hits = [
+    hit(1, 'Soothr', 'Thai', 2, 'East Village', 4.7),
+    hit(2, 'Fancy Thai', 'Thai', 4, 'East Village', 4.8),
+    hit(3, 'Uncle Boons', 'Thai', 2, 'Nolita', 4.6),
+    hit(4, 'Taqueria', 'Mexican', 1, 'East Village', 4.2),
+    hit(5, 'Wayla', 'Thai', 2, 'Lower East Side'),
+  ];
+
+  it('returns unfiltered results as-is', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ search: { hits } }));
+
+    const venues = await searchRestaurants('tok', 'thai');
+
+    expect(venues).toHaveLength(5);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).not.toHaveProperty('per_page');
+  });
+
+  it('keeps only venues matching cuisine, price, neighborhood and rating', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ search: { hits } }));
+
+    const venues = await searchRestaurants('tok', '', undefined, { cuisine: 'thai', priceMax: 2, neighborhood: 'east village', minRating: 4 });
+
+    expect(venues.map(v => v.name)).toEqual(['Soothr']);
+  });
+
+  it('drops venues without an open slot in the window and annotates times', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      if (url.includes('/venuesearch/')) return jsonResponse({ search: { hits } });
+      const venueId = new URL(url).searchParams.get('venue_id');
+      if (venueId === '1') return findResponse([['2030-06-07 17:00:00', 'Dining Room'], ['2030-06-07 19:30:00', 'Dining Room'], ['2030-06-07 19:30:00', 'Bar']]);
+      if (venueId === '3') return findResponse([['2030-06-07 17:00:00', 'Dining Room']]);
+      return new Response('boom', { status: 502 });
+    });
+
+    const venues = await searchRestaurants('tok', '', undefined, {
+      cuisine: 'thai', priceMax: 2,
+      availability: { date: '2030-06-07', partySize: 2, timeWindow: { start: '19:00', end: '21:00' } },
+    });
+
+    expect(venues).toEqual([expect.objectContaining({ venue_id: 1, available_times: ['19:30'] })]);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toMatchObject({
+      per_page: 50,
+      slot_filter: { day: '2030-06-07', party_size: 2 },
+    });
+  });
+});
+
+describe('resyFetch resilience', () => {
+  const favoritesResponse = () => jsonResponse({ results: { venues: [] } });
+
+  beforeEach(() => {
+    // No backoff waits
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('retries 429s, honoring Retry-After', async () => {
+    mockFetch
+      .mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'retry-after': '0' } }))
+      .mockResolvedValueOnce(favoritesResponse());
+
+    expect(await getFavorites('tok')).toEqual([]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up on reads after bounded retries with a typed upstream error', async () => {
+    mockFetch.mockImplementation(async () => new Response('<html>bad gateway</html>', { status: 502 }));
+
+    const error = await getFavorites('tok').catch(e => e);
+
+    expect(error).toBeInstanceOf(ResyUpstreamError);
+    expect(describeResyError(error)).not.toContain('<html>');
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    mockFetch.mockResolvedValue(favoritesResponse());
+    await getFavorites('tok'); // reset the breaker's failure streak
+  });
+
+  it('does not retry a failed booking write', async () => {
+    mockFetch.mockImplementation(async (url: string) => {
+      const path = new URL(url).pathname;
+      if (path === '/3/details') return jsonResponse({ book_token: { value: 'bt', date_expires: '' }, venue: { name: 'Lilia' }, config: { type: 'Dining Room' } });
+      if (path === '/2/user') return jsonResponse({ payment_methods: [{ id: 5, is_default: true }] });
+      return new Response('try again', { status: 503 });
+    });
+
+    await expect(bookSlot('tok', { config_token: 'cfg', date: '2030-06-07', time: '19:00', party_size: 2, type: 'Dining Room' }))
+      .rejects.toBeInstanceOf(ResyUpstreamError);
+    expect(mockFetch.mock.calls.filter(([url]) => String(url).includes('/3/book'))).toHaveLength(1);
+  });
+
+  it('types taken slots and closed venues', async () => {
+    mockFetch.mockResolvedValueOnce(new Response('slot taken', { status: 412 }));
+    await expect(getFavorites('tok')).rejects.toBeInstanceOf(ResySlotTakenError);
+
+    mockFetch.mockResolvedValueOnce(new Response('Venue is temporarily closed', { status: 400 }));
+    await expect(getFavorites('tok')).rejects.toBeInstanceOf(ResyVenueClosedError);
+    expect(new ResyVenueClosedError(400, 'closed').userMessage).toBe("That restaurant isn't taking reservations on Resy right now.");
+
+    mockFetch.mockResolvedValueOnce(new Response('nope', { status: 404 }));
+    await expect(getFavorites('tok')).rejects.toBeInstanceOf(ResyNotFoundError);
+    expect(new ResyNotFoundError('nope').userMessage).toMatch(/^Resy couldn't find that venue or reservation\./);
+  });
+
+  it('opens the circuit after repeated failed requests to an endpoint and closes after the cooldown', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    mockFetch.mockImplementation(async () => new Response('down', { status: 503 }));
+
+    // Each request's retries count as one failure
+    for (let i = 0; i < 3; i++) {
+      await expect(getFavorites('tok')).rejects.toBeInstanceOf(ResyUpstreamError);
+    }
+    expect(mockFetch).toHaveBeenCalledTimes(9);
+
+    // Open: fails fast without calling Resy
+    await expect(getFavorites('tok')).rejects.toBeInstanceOf(ResyCircuitOpenError);
+    expect(mockFetch).toHaveBeenCalledTimes(9);
+
+    // Other endpoints are unaffected
+    mockFetch.mockResolvedValue(jsonResponse({ payment_methods: [] }));
+    expect(await getPaymentMethods('tok')).toEqual([]);
+
+    vi.setSystemTime(Date.now() + 31_000);
+    mockFetch.mockResolvedValue(favoritesResponse());
+    expect(await getFavorites('tok')).toEqual([]);
+  });
+});
+
+describe('caching', () => {
+  it('serves repeat venue lookups from cache', async () => {
+    mockFetch.mockImplementation(async () => jsonResponse({
+      id: { resy: 7 }, name: 'Lilia', url_slug: 'lilia',
+      location: { locality: 'New York', region: 'NY' },
+      templates: { t1: { name: 'Dining Room' } },
+    }));
+
+    await getVenue('tok', 7);
+    await getVenue('tok', 7);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('only uses cached slots when asked, so booking paths always see live inventory', async () => {
+    mockFetch.mockImplementation(async () => findResponse([['2030-06-07 19:00:00', 'Dining Room']]));
+
+    await findSlots('tok', 1, '2030-06-07', 2, undefined, undefined, { cached: true });
+    await findSlots('tok', 1, '2030-06-07', 2, undefined, undefined, { cached: true });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    await findSlots('tok', 1, '2030-06-07', 2);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts the least recently used entry when full', async () => {
+    clearResyCache();
+    const load = vi.fn(async () => 'fresh');
+    await cached('venue', 'first', load);
+    for (let i = 0; i < 499; i++) await cached('venue', `filler-${i}`, load);
+    await cached('venue', 'first', load); // a hit moves it to the back
+    await cached('venue', 'overflow', load);
+    load.mockClear();
+
+    await cached('venue', 'first', load);
+    expect(load).not.toHaveBeenCalled();
+    await cached('venue', 'filler-0', load);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ResyPastReservation } from '../../bookings/types.js';
+
+const mockGetReservationHistory = vi.fn();
+vi.mock('../../bookings/client.js', () => ({
+  getReservationHistory: (...args: unknown[]) => mockGetReservationHistory(...args),
+}));
+
+import { searchDiningHistory, rankVenuesByHistory } from '../../bookings/history.js';
+
+function visit(date: string, venueId: number, venueName: string, outcome: ResyPastReservation['outcome'] = 'completed'): ResyPastReservation {
+  return { resy_token: `rr://${date}-${venueId}`, reservation_id: 1, venue_id: venueId, venue_name: venueName, date, time: '19:00:00', party_size: 2, type: 'Dining Room', outcome };
+}
+
+function venue(id: number, name: string) {
+  return { venue_id: id, name, location: { city: 'New York', state: 'NY' }, cuisine: [], price_range: 3, url_slug: name.toLowerCase(), url: '' };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('searchDiningHistory', () => {
+  it('finds the last visit to a venue across pages', async () => {
+    mockGetReservationHistory
+      .mockResolvedValueOnce({ reservations: [visit('2030-10-02', 1, 'Via Carota'), visit('2030-09-20', 2, 'Lilia', 'cancelled')], offset: 0, limit: 2, next_offset: 2 })
+      .mockResolvedValueOnce({ reservations: [visit('2030-09-05', 2, 'Lilia'), visit('2030-08-01', 2, 'Lilia')], offset: 2, limit: 2 });
+
+    const summary = await searchDiningHistory('tok', { venueName: 'lilia' });
+
+    expect(summary.count).toBe(2);
+    expect(summary.last_visit?.date).toBe('2030-09-05');
+    expect(summary.complete).toBe(true);
+  });
+
+  it('counts a month and stops paging once past the start date', async () => {
+    mockGetReservationHistory.mockResolvedValueOnce({
+      reservations: [visit('2030-10-02', 1, 'Via Carota'), visit('2030-09-20', 2, 'Lilia'), visit('2030-09-05', 2, 'Lilia'), visit('2030-08-30', 1, 'Via Carota')],
+      offset: 0, limit: 4, next_offset: 4,
+    });
+
+    const summary = await searchDiningHistory('tok', { startDate: '2030-09-01', endDate: '2030-09-30' });
+
+    expect(mockGetReservationHistory).toHaveBeenCalledTimes(1);
+    expect(summary.count).toBe(2);
+    expect(summary.by_venue).toEqual([{ venue_id: 2, venue_name: 'Lilia', visits: 2, last_visit: '2030-09-20' }]);
+  });
+});
+
+describe('rankVenuesByHistory', () => {
+  it('floats regulars to the top and keeps Resy order otherwise', () => {
+    const history = [visit('2030-09-20', 3, 'Lilia'), visit('2030-08-01', 3, 'Lilia'), visit('2030-07-01', 2, 'I Sodi', 'no_show')];
+
+    const ranked = rankVenuesByHistory([venue(1, 'Carbone'), venue(2, 'I Sodi'), venue(3, 'Lilia')], history);
+
+    expect(ranked.map(v => v.name)).toEqual(['Lilia', 'Carbone', 'I Sodi']);
+    expect(ranked[0]).toMatchObject({ past_visits: 2, last_visited: '2030-09-20' });
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { suggestBookingNotes } from '../../bookings/notes.js';
+
+describe('suggestBookingNotes', () => {
+  it('turns dietary, accessibility and kid needs into a special request', () => {
+    const facts = ['vegetarian', 'lives in brooklyn', 'has a toddler', 'uses a wheelchair', 'likes natural wine'];
+    expect(suggestBookingNotes(facts, '2030-06-07').special_request).toBe('vegetarian; has a toddler; uses a wheelchair');
+  });
+
+  it('only shares allergies and pregnancy once the user opts in', () => {
+    const facts = ['allergic to shellfish', 'pregnant, due in august', 'vegan but allergic to nuts', 'has a toddler'];
+    expect(suggestBookingNotes(facts, '2030-06-07').special_request).toBe('has a toddler');
+    expect(suggestBookingNotes(facts, '2030-06-07', ['allergies', 'dietary']).special_request).toBe('allergic to shellfish; vegan but allergic to nuts');
+  });
+
+  it('leaves out the occasion unless it is shared', () => {
+    expect(suggestBookingNotes(['birthday is June 7th'], '2030-06-07', ['dietary']).occasion).toBeUndefined();
+  });
+
+  it('tags a remembered birthday or anniversary on the booking date', () => {
+    expect(suggestBookingNotes(['birthday is June 7th'], '2030-06-07').occasion).toBe('Birthday');
+    expect(suggestBookingNotes(['anniversary on 6/7'], '2030-06-07').occasion).toBe('Anniversary');
+    expect(suggestBookingNotes(['birthday is June 17'], '2030-06-07').occasion).toBeUndefined();
+  });
+
+  it('suggests nothing when no facts apply', () => {
+    expect(suggestBookingNotes(['likes sushi'], '2030-06-07')).toEqual({ occasion: undefined, special_request: undefined });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createToolRegistry, runTool, summarizeToolCall, validateToolInput, ok, BUILTIN_TOOLS } from '../../claude/tools/index.js';
+import { resySearchTool, resyFindSlotsTool } from '../../claude/tools/search.js';
+import { resyCancelTool } from '../../claude/tools/booking.js';
+import type { ToolContext, ToolDefinition } from '../../claude/tools/index.js';
+import { ResySlotTakenError } from '../../bookings/errors.js';
+import type { ProviderSet } from '../../providers/index.js';
+import { emptyWorkingMemory } from '../../state/memory.js';
+
+function context(overrides: Partial<ToolContext> = {}): ToolContext {
+  return {
+    chatId: 'chat-1',
+    turnId: 'turn-1',
+    handle: '+15555550123',
+    resyAuthToken: 'tok',
+    providers: {} as ProviderSet,
+    memory: emptyWorkingMemory(),
+    bookingSucceeded: false,
+    reaction: null,
+    effect: null,
+    renameChat: null,
+    rememberedUser: null,
+    ...overrides,
+  };
+}
+
+const lookupTool: ToolDefinition<{ code: string; count?: number }> = {
+  schema: {
+    name: 'loyalty_lookup',
+    description: 'Look up a loyalty code.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        code: { type: 'string' },
+        count: { type: 'number' },
+        tier: { type: 'string', enum: ['gold', 'silver'] },
+      },
+      required: ['code'],
+    },
+  },
+  mode: 'data',
+  handle: async input => ok({ code: input.code, points: 120 }),
+  summarize: input => `[looked up loyalty code ${input.code}]`,
+};
+
+describe('createToolRegistry', () => {
+  it('offers tools in registration order, filtered by their requirements', () => {
+    const names = (ctx: ToolContext) => createToolRegistry(BUILTIN_TOOLS).availableFor(ctx).map(d => d.schema.name);
+
+    expect(names(context({ resyAuthToken: null }))).toEqual(['send_reaction', 'send_effect', 'remember_user', 'set_home_location', 'web_search']);
+    const signedIn = names(context());
+    expect(signedIn).toContain('resy_prepare_booking');
+    expect(signedIn).not.toContain('rename_group_chat');
+    expect(names(context({ chatContext: { isGroupChat: true, participantNames: [], chatName: null } })).at(-1)).toBe('rename_group_chat');
+  });
+
+  it('honors enabled() and rejects duplicate names unless replacing', () => {
+    const registry = createToolRegistry([lookupTool]);
+    expect(() => registry.register(lookupTool)).toThrow('already registered');
+
+    registry.register({ ...lookupTool, enabled: ctx => ctx.handle === '+15550000000' }, { replace: true });
+    expect(registry.availableFor(context())).toEqual([]);
+    expect(registry.availableFor(context({ handle: '+15550000000' }))).toHaveLength(1);
+  });
+});
+
+describe('validateToolInput', () => {
+  it('checks required fields, types and enums', () => {
+    const schema = lookupTool.schema.input_schema;
+    expect(validateToolInput(schema, { code: 'A1', count: 2, tier: 'gold' })).toBeNull();
+    expect(validateToolInput(schema, { count: 2 })).toBe('code is required');
+    expect(validateToolInput(schema, { code: 'A1', count: '2' })).toBe('count must be a number');
+    expect(validateToolInput(schema, { code: 'A1', tier: 'bronze' })).toBe('tier must be one of gold, silver');
+    expect(validateToolInput(schema, 'A1')).toBe('input must be an object');
+  });
+
+  it('lets resy_search run on filters alone', () => {
+    expect(validateToolInput(resySearchTool.schema.input_schema, { cuisine: 'Thai', available_date: '2030-06-07', party_size: 2 })).toBeNull();
+  });
+});
+
+describe('runTool', () => {
+  it('returns the handler output', async () => {
+    expect(await runTool(lookupTool, { code: 'A1' }, context())).toEqual({ content: '{"code":"A1","points":120}' });
+  });
+
+  it('turns bad input into an error result without calling the handler', async () => {
+    const handle = vi.fn();
+    const output = await runTool({ ...lookupTool, handle }, { code: 7 }, context());
+    expect(output).toEqual({ content: 'Invalid input for loyalty_lookup: code must be a string', isError: true });
+    expect(handle).not.toHaveBeenCalled();
+  });
+
+  it('runs cross-field validation and the sender check before the handler', async () => {
+    const handle = vi.fn();
+    const strict = { ...lookupTool, handle, needsSender: true, validate: (input: { count?: number }) => (input.count ? null : 'count is needed here.') };
+
+    expect(await runTool(strict, { code: 'A1' }, context())).toEqual({ content: 'count is needed here.', isError: true });
+    expect(await runTool(strict, { code: 'A1', count: 1 }, context({ handle: undefined }))).toEqual({ content: 'Could not determine user identity.', isError: true });
+    expect(handle).not.toHaveBeenCalled();
+  });
+
+  it('wraps thrown errors with the tool label and user-safe Resy messages', async () => {
+    const failing = { ...lookupTool, errorLabel: 'Error looking up code', handle: async () => { throw new ResySlotTakenError(412, 'raw body'); } };
+    const output = await runTool(failing, { code: 'A1' }, context());
+    expect(output.isError).toBe(true);
+    expect(output.content).toMatch(/^Error looking up code: /);
+    expect(output.content).not.toContain('raw body');
+  });
+
+  it('summarizes a call through the stored definition', () => {
+    const registry = createToolRegistry();
+    registry.register(lookupTool);
+    expect(summarizeToolCall(registry.get('loyalty_lookup')!, { code: 'A1' })).toBe('[looked up loyalty code A1]');
+    expect(summarizeToolCall({ ...lookupTool, summarize: undefined }, { code: 'A1' })).toBeNull();
+  });
+
+  it('defaults to "ok" for handlers with nothing to return', async () => {
+    const ctx = context();
+    const signal: ToolDefinition<{ code: string }> = { ...lookupTool, mode: 'signal', handle: async (input, c) => { c.renameChat = input.code; } };
+    expect(await runTool(signal, { code: 'A1' }, ctx)).toEqual({ content: 'ok' });
+    expect(ctx.renameChat).toBe('A1');
+  });
+});
+
+describe('working memory', () => {
+  it('records slots shown and reservations cancelled', async () => {
+    const provider = {
+      id: 'resy',
+      findSlots: vi.fn(async () => [{ provider: 'resy', config_token: 'cfg', date: '2030-06-07', time: '19:00', party_size: 2, type: 'Dining Room' }]),
+      cancel: vi.fn(async (token: string) => ({ provider: 'resy', reservation_token: token, success: true })),
+    };
+    const ctx = context({ handle: undefined, providers: { get: () => provider, list: () => [provider] } as unknown as ProviderSet });
+    ctx.memory.reservations.push({
+      provider: 'resy', reservationToken: 'rr://1', venueName: 'Lilia', date: '2030-06-07', time: '19:30', partySize: 2, status: 'held', madeHere: true,
+    });
+
+    await runTool(resyFindSlotsTool, { venue_id: 418, date: '2030-06-07', party_size: 2 }, ctx);
+    await runTool(resyCancelTool, { reservation_token: 'rr://1' }, ctx);
+
+    expect(ctx.memory.slots[0]).toMatchObject({ provider: 'resy', venueId: 418, date: '2030-06-07', partySize: 2, times: ['19:00 Dining Room'] });
+    expect(ctx.memory.reservations[0].status).toBe('cancelled');
+  });
+});
@@ -17,7 +17,7 @@ vi.mock('@aws-sdk/lib-dynamodb', () => ({
   QueryCommand: class { input: unknown; constructor(input: unknown) { this.input = input; } },
 }));
 
-import { getItem, putItem, deleteItem, updateItem, queryByPk } from '../../db/dynamodb.js';
+import { getItem, putItem, putItemIf, deleteItem, takeItem, updateItem, updateItemIf, refreshTtl, queryByPk } from '../../db/dynamodb.js';
 
 beforeEach(() => {
   mockSend.mockReset();
@@ -89,6 +89,71 @@ describe('dynamodb', () => {
     expect(mockSend).not.toHaveBeenCalled();
   });
 
+  // ── updateItemIf ─────────────────────────────────────────────────────────
+
+  it('only updates while the expected values still hold', async () => {
+    mockSend.mockResolvedValueOnce({});
+    expect(await updateItemIf('PK1', 'SK1', { status: 'running' }, { status: 'scheduled' })).toBe(true);
+
+    const cmd = mockSend.mock.calls[0][0];
+    expect(cmd.input.UpdateExpression).toBe('SET #status = :status');
+    expect(cmd.input.ConditionExpression).toBe('#status = :expected_status');
+    expect(cmd.input.ExpressionAttributeValues).toEqual({ ':status': 'running', ':expected_status': 'scheduled' });
+  });
+
+  it('returns false when the condition fails', async () => {
+    mockSend.mockRejectedValueOnce(Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' }));
+    expect(await updateItemIf('PK1', 'SK1', { status: 'running' }, { status: 'scheduled' })).toBe(false);
+
+    mockSend.mockRejectedValueOnce(new Error('throttled'));
+    await expect(updateItemIf('PK1', 'SK1', { status: 'running' }, { status: 'scheduled' })).rejects.toThrow('throttled');
+  });
+
+  // ── takeItem ─────────────────────────────────────────────────────────────
+
+  it('deletes and returns the old item, or null when it was already gone', async () => {
+    mockSend.mockResolvedValueOnce({ Attributes: { PK: 'PK1', SK: 'SK1', val: 1 } });
+    expect(await takeItem('PK1', 'SK1')).toEqual({ PK: 'PK1', SK: 'SK1', val: 1 });
+    expect(mockSend.mock.calls[0][0].input).toMatchObject({ Key: { PK: 'PK1', SK: 'SK1' }, ReturnValues: 'ALL_OLD' });
+
+    mockSend.mockResolvedValueOnce({});
+    expect(await takeItem('PK1', 'SK1')).toBeNull();
+  });
+
+  // ── putItemIf ────────────────────────────────────────────────────────────
+
+  it('puts only while the expected attributes still match', async () => {
+    mockSend.mockResolvedValueOnce({});
+    expect(await putItemIf('PK1', 'SK1', { lastActive: 5, summary: 's' }, { lastActive: 5 })).toBe(true);
+
+    const cmd = mockSend.mock.calls[0][0];
+    expect(cmd.input.Item).toEqual({ PK: 'PK1', SK: 'SK1', lastActive: 5, summary: 's' });
+    expect(cmd.input.ConditionExpression).toBe('#lastActive = :expected_lastActive');
+    expect(cmd.input.ExpressionAttributeValues).toEqual({ ':expected_lastActive': 5 });
+
+    mockSend.mockRejectedValueOnce(Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' }));
+    expect(await putItemIf('PK1', 'SK1', { lastActive: 5 }, { lastActive: 4 })).toBe(false);
+  });
+
+  // ── refreshTtl ───────────────────────────────────────────────────────────
+
+  it('pushes out the TTL of an existing item only', async () => {
+    mockSend.mockResolvedValueOnce({});
+    await refreshTtl('PK1', 'SK1', 3600);
+
+    const cmd = mockSend.mock.calls[0][0];
+    expect(cmd.input.ConditionExpression).toBe('attribute_exists(PK)');
+    expect(cmd.input.ExpressionAttributeValues[':ttl']).toBeGreaterThan(Date.now() / 1000 + 3500);
+  });
+
+  it('ignores a missing item but rethrows other errors', async () => {
+    mockSend.mockRejectedValueOnce(Object.assign(new Error('missing'), { name: 'ConditionalCheckFailedException' }));
+    await expect(refreshTtl('PK1', 'SK1', 3600)).resolves.toBeUndefined();
+
+    mockSend.mockRejectedValueOnce(new Error('throttled'));
+    await expect(refreshTtl('PK1', 'SK1', 3600)).rejects.toThrow('throttled');
+  });
+
   // ── queryByPk ────────────────────────────────────────────────────────────
 
   it('returns matching items', async () => {
@@ -100,4 +165,32 @@ describe('dynamodb', () => {
     const result = await queryByPk<{ val: number }>('PK1');
     expect(result).toEqual(items);
   });
+
+  it('adds begins_with condition when SK prefix provided', async () => {
+    mockSend.mockResolvedValueOnce({ Items: [] });
+    await queryByPk('PK1', 'WATCH#');
+
+    const cmd = mockSend.mock.calls[0][0];
+    expect(cmd.input.KeyConditionExpression).toBe('PK = :pk AND begins_with(SK, :sk)');
+    expect(cmd.input.ExpressionAttributeValues).toEqual({ ':pk': 'PK1', ':sk': 'WATCH#' });
+  });
+
+  it('follows LastEvaluatedKey until the partition is exhausted', async () => {
+    mockSend
+      .mockResolvedValueOnce({ Items: [{ SK: 'A' }], LastEvaluatedKey: { PK: 'PK1', SK: 'A' } })
+      .mockResolvedValueOnce({ Items: [{ SK: 'B' }] });
+    expect(await queryByPk('PK1')).toEqual([{ SK: 'A' }, { SK: 'B' }]);
+    expect(mockSend.mock.calls[1][0].input.ExclusiveStartKey).toEqual({ PK: 'PK1', SK: 'A' });
+  });
+
+  it('reads newest first and stops paging once the limit is reached', async () => {
+    mockSend
+      .mockResolvedValueOnce({ Items: [{ SK: 'C' }], LastEvaluatedKey: { PK: 'PK1', SK: 'C' } })
+      .mockResolvedValueOnce({ Items: [{ SK: 'B' }], LastEvaluatedKey: { PK: 'PK1', SK: 'B' } });
+    expect(await queryByPk('PK1', 'LEDGER#', { newestFirst: true, limit: 2 })).toEqual([{ SK: 'C' }, { SK: 'B' }]);
+
+    expect(mockSend).toHaveBeenCalledTimes(2);
+    expect(mockSend.mock.calls[0][0].input).toMatchObject({ ScanIndexForward: false, Limit: 2 });
+    expect(mockSend.mock.calls[1][0].input).toMatchObject({ Limit: 1 });
+  });
 });
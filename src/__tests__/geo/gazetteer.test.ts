@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { resolveLocation, AmbiguousLocationError } from '../../geo/index.js';
+
+describe('resolveLocation', () => {
+  it('resolves neighborhoods and cities case-insensitively', () => {
+    expect(resolveLocation('williamsburg')).toMatchObject({ name: 'Williamsburg, New York' });
+    expect(resolveLocation('Silver Lake')).toMatchObject({ name: 'Silver Lake, Los Angeles' });
+    expect(resolveLocation('AUSTIN')).toMatchObject({ name: 'Austin', lat: 30.2672, lng: -97.7431 });
+  });
+
+  it('accepts aliases, punctuation and trailing qualifiers', () => {
+    expect(resolveLocation('silverlake')?.name).toBe('Silver Lake, Los Angeles');
+    expect(resolveLocation('hells kitchen')?.name).toBe('Hell\'s Kitchen, New York');
+    expect(resolveLocation('Austin, TX')?.name).toBe('Austin');
+    expect(resolveLocation('williamsburg brooklyn')?.name).toBe('Williamsburg, New York');
+    expect(resolveLocation('nyc')?.name).toBe('New York');
+  });
+
+  it('asks which one when a name is shared and nothing picks one out', () => {
+    for (const name of ['Portland', 'venice', 'Capitol Hill', 'georgetown']) {
+      expect(() => resolveLocation(name)).toThrow(AmbiguousLocationError);
+    }
+    const error = (() => { try { resolveLocation('portland'); } catch (e) { return e as AmbiguousLocationError; } })();
+    expect(error?.candidates.map(c => c.name)).toEqual(['Portland, Oregon', 'Portland, Maine']);
+  });
+
+  it('lets a city or state qualifier pick between shared names', () => {
+    expect(resolveLocation('Portland, Maine')?.name).toBe('Portland, Maine');
+    expect(resolveLocation('portland or')?.name).toBe('Portland, Oregon');
+    expect(resolveLocation('capitol hill dc')?.name).toBe('Capitol Hill, Washington');
+    expect(resolveLocation('georgetown seattle')?.name).toBe('Georgetown, Seattle');
+    expect(resolveLocation('venice la')?.name).toBe('Venice, Los Angeles');
+  });
+
+  it('prefers the shared name near the user\'s home', () => {
+    const seattle = { lat: 47.6062, lng: -122.3321 };
+    const dc = { lat: 38.9072, lng: -77.0369 };
+    expect(resolveLocation('capitol hill', seattle)?.name).toBe('Capitol Hill, Seattle');
+    expect(resolveLocation('capitol hill', dc)?.name).toBe('Capitol Hill, Washington');
+    expect(() => resolveLocation('portland', dc)).toThrow(AmbiguousLocationError);
+  });
+
+  it('returns null for unknown places', () => {
+    expect(resolveLocation('atlantis')).toBeNull();
+    expect(resolveLocation('  ')).toBeNull();
+  });
+});
@@ -39,11 +39,14 @@ const mockChat = vi.fn().mockResolvedValue({
 });
 const mockGetGroupChatAction = vi.fn().mockResolvedValue({ action: 'respond' });
 const mockGetTextForEffect = vi.fn().mockResolvedValue('wow!');
+const mockCompactChat = vi.fn().mockResolvedValue(undefined);
 
 vi.mock('../../claude/client.js', () => ({
   chat: (...args: unknown[]) => mockChat(...args),
   getGroupChatAction: (...args: unknown[]) => mockGetGroupChatAction(...args),
   getTextForEffect: (...args: unknown[]) => mockGetTextForEffect(...args),
+  compactChat: (...args: unknown[]) => mockCompactChat(...args),
+  flushUsage: vi.fn().mockResolvedValue(undefined),
 }));
 
 const mockGetUserProfile = vi.fn().mockResolvedValue(null);
@@ -277,5 +280,8 @@ describe('processor handler', () => {
       undefined,
       undefined,
     );
+    // Summarizing waits until the reply is out
+    expect(mockCompactChat).toHaveBeenCalledWith('chat_1', { chatId: 'chat_1', handle: '+14155551234' });
+    expect(mockCompactChat.mock.invocationCallOrder[0]).toBeGreaterThan(mockSendMessage.mock.invocationCallOrder.at(-1)!);
   });
 });
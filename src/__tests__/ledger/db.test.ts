@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks ────────────────────────────────────────────────────────────────────
+
+// In-memory store mock for DynamoDB
+const store = new Map<string, unknown>();
+const mockPutItem = vi.fn(async (pk: string, sk: string, data: Record<string, unknown>) => {
+  store.set(`${pk}||${sk}`, { ...data });
+});
+vi.mock('../../db/dynamodb.js', () => ({
+  putItem: (...args: [string, string, Record<string, unknown>]) => mockPutItem(...args),
+  queryByPk: vi.fn(async (pk: string, prefix = '') =>
+    [...store.entries()].filter(([key]) => key.startsWith(`${pk}||${prefix}`)).map(([, value]) => value)),
+}));
+
+import { recordLedgerEntry, recordCancellation, bookingEntry, listLedgerEntries, findLedgerEntries, latestActiveBooking } from '../../ledger/db.js';
+import type { LedgerOrigin } from '../../ledger/types.js';
+import { queryByPk } from '../../db/dynamodb.js';
+
+const HANDLE = '+14155551234';
+const origin = (sourceId: string, chatId = 'chat_1'): LedgerOrigin => ({ handle: HANDLE, chatId, source: 'chat', sourceId });
+
+function confirmation(token: string, time = '19:00') {
+  return {
+    provider: 'resy' as const, reservation_token: token, venue_name: 'Lilia', date: '2030-06-07', time,
+    party_size: 2, type: 'Dining Room', agreed_terms: { deposit: 25, policy_text: [], requires_payment_method: true },
+  };
+}
+
+// Entries a minute apart so ordering is deterministic
+async function book(token: string, chatId = 'chat_1') {
+  vi.setSystemTime(new Date(Date.now() + 60_000));
+  return recordLedgerEntry(bookingEntry(origin(`msg_${token}`, chatId), confirmation(token), { venueId: 9 }));
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2030-06-01T12:00:00Z'));
+  store.clear();
+});
+
+describe('ledger', () => {
+  it('records bookings with the fees agreed and lists them newest first', async () => {
+    await book('rr://1');
+    await book('rr://2', 'chat_2');
+
+    const entries = await listLedgerEntries(HANDLE);
+    expect(entries.map(e => e.reservationToken)).toEqual(['rr://2', 'rr://1']);
+    expect(entries[1]).toMatchObject({ action: 'book', venueId: 9, sourceId: 'msg_rr://1', agreedTerms: { deposit: 25 } });
+    expect((await listLedgerEntries(HANDLE, { chatId: 'chat_2' })).map(e => e.reservationToken)).toEqual(['rr://2']);
+    expect(await listLedgerEntries(HANDLE, { since: '2030-06-01T12:01:30Z' })).toHaveLength(1);
+    expect(await listLedgerEntries('+14155559999')).toEqual([]);
+  });
+
+  it('reads only the newest entries when there is a limit and nothing to filter', async () => {
+    await book('rr://1');
+    await book('rr://2');
+    await book('rr://3');
+
+    expect((await listLedgerEntries(HANDLE, { limit: 2 })).map(e => e.reservationToken)).toEqual(['rr://3', 'rr://2']);
+    expect(queryByPk).toHaveBeenLastCalledWith(`USER#${HANDLE}`, 'LEDGER#', { newestFirst: true, limit: 2 });
+
+    await listLedgerEntries(HANDLE, { chatId: 'chat_1', limit: 2 });
+    expect(queryByPk).toHaveBeenLastCalledWith(`USER#${HANDLE}`, 'LEDGER#', { newestFirst: true, limit: undefined });
+  });
+
+  it('copies booking details onto a cancellation', async () => {
+    await book('rr://1');
+    vi.setSystemTime(new Date(Date.now() + 60_000));
+    await recordCancellation(origin('msg_cancel'), 'resy', 'rr://1');
+
+    const [cancel, booking] = await findLedgerEntries(HANDLE, 'rr://1');
+    expect(cancel).toMatchObject({ action: 'cancel', venueName: 'Lilia', time: '19:00', sourceId: 'msg_cancel' });
+    expect(booking.action).toBe('book');
+  });
+
+  it('records cancellations of reservations the agent never made', async () => {
+    const entry = await recordCancellation(origin('msg_cancel'), 'resy', 'rr://elsewhere');
+
+    expect(entry).toMatchObject({ action: 'cancel', reservationToken: 'rr://elsewhere', venueName: undefined });
+  });
+
+  it('finds the latest booking that is still held', async () => {
+    await book('rr://1');
+    await book('rr://2');
+    expect((await latestActiveBooking(HANDLE))?.reservationToken).toBe('rr://2');
+
+    vi.setSystemTime(new Date(Date.now() + 60_000));
+    await recordCancellation(origin('msg_cancel'), 'resy', 'rr://2');
+    expect((await latestActiveBooking(HANDLE))?.reservationToken).toBe('rr://1');
+    expect(await latestActiveBooking(HANDLE, 'chat_other')).toBeNull();
+  });
+
+  it('never throws when the write fails', async () => {
+    mockPutItem.mockRejectedValueOnce(new Error('throttled'));
+
+    expect(await recordLedgerEntry(bookingEntry(origin('msg_1'), confirmation('rr://1')))).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createMockResyApp } from '../../mock-resy/server.js';
+import { MOCK_AUTH_TOKEN, MOCK_OTP_CODE, MOCK_EXPIRED_TOKEN } from '../../mock-resy/fixtures.js';
+
+// The real client, pointed at the stand-in via RESY_BASE_URL
+let server: Server;
+let client: typeof import('../../bookings/client.js');
+
+beforeAll(async () => {
+  server = createMockResyApp().listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  process.env.RESY_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  client = await import('../../bookings/client.js');
+});
+
+afterAll(async () => {
+  delete process.env.RESY_BASE_URL;
+  await new Promise(resolve => server.close(resolve));
+});
+
+const DAY = '2030-06-07';
+
+describe('mock Resy server', () => {
+  it('signs in through the OTP challenge', async () => {
+    expect(await client.sendResyOTP('+15555550123')).toBe('sms');
+    expect(await client.verifyResyOTP('+15555550123', '000000')).toBeNull();
+
+    const verified = await client.verifyResyOTP('+15555550123', MOCK_OTP_CODE);
+    expect(verified && 'challenge' in verified).toBe(true);
+    const challenge = (verified as { challenge: Parameters<typeof client.completeResyChallenge>[0] }).challenge;
+    expect(await client.completeResyChallenge(challenge, { em_address: 'dev@example.com' })).toBe(MOCK_AUTH_TOKEN);
+  });
+
+  it('searches, finds, books and cancels end to end', async () => {
+    const venues = await client.searchRestaurants(MOCK_AUTH_TOKEN, 'thai');
+    expect(venues.map(v => v.name)).toEqual(['Soothr']);
+
+    const slots = await client.findSlots(MOCK_AUTH_TOKEN, venues[0].venue_id, DAY, 2);
+    expect(slots.length).toBeGreaterThan(0);
+    expect(slots[0].timezone).toBe('America/New_York');
+
+    const confirmation = await client.bookSlot(MOCK_AUTH_TOKEN, slots[0], { notes: { occasion: 'Birthday' } });
+    expect(confirmation).toMatchObject({ venue_name: 'Soothr', date: DAY, time: slots[0].time, party_size: 2 });
+
+    // The booked slot is gone and can't be booked twice
+    const after = await client.findSlots(MOCK_AUTH_TOKEN, venues[0].venue_id, DAY, 2);
+    expect(after.map(s => s.config_token)).not.toContain(slots[0].config_token);
+    await expect(client.bookSlot(MOCK_AUTH_TOKEN, slots[0])).rejects.toThrow(/412/);
+
+    const upcoming = await client.getReservations(MOCK_AUTH_TOKEN);
+    expect(upcoming).toContainEqual(expect.objectContaining({ resy_token: confirmation.resy_token, occasion: 'Birthday' }));
+
+    expect((await client.cancelReservation(MOCK_AUTH_TOKEN, confirmation.resy_token)).success).toBe(true);
+    expect((await client.getReservations(MOCK_AUTH_TOKEN)).map(r => r.resy_token)).not.toContain(confirmation.resy_token);
+  });
+
+  it('surfaces deposits and never has tables at a sold-out venue', async () => {
+    const [slot] = await client.findSlots(MOCK_AUTH_TOKEN, 1004, DAY, 2);
+    await expect(client.bookSlot(MOCK_AUTH_TOKEN, slot)).rejects.toBeInstanceOf(client.ResyFeeConsentError);
+
+    expect(await client.findSlots(MOCK_AUTH_TOKEN, 1003, DAY, 2)).toEqual([]);
+  });
+
+  it('serves seeded history, favorites and the profile', async () => {
+    const history = await client.getReservationHistory(MOCK_AUTH_TOKEN);
+    expect(history.reservations.length).toBeGreaterThanOrEqual(4);
+
+    expect((await client.getFavorites(MOCK_AUTH_TOKEN)).map(v => v.name)).toEqual(['Soothr', 'Kismet']);
+    await client.setFavorite(MOCK_AUTH_TOKEN, 1001, true);
+    expect((await client.getFavorites(MOCK_AUTH_TOKEN)).map(v => v.name)).toContain('Lilia');
+
+    expect(await client.getResyProfile(MOCK_AUTH_TOKEN)).toMatchObject({ first_name: 'Dev', email: 'dev@example.com' });
+  });
+
+  it('rejects an expired token like Resy does', async () => {
+    await expect(client.getResyProfile(MOCK_EXPIRED_TOKEN)).rejects.toThrow(/session has expired/);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks ────────────────────────────────────────────────────────────────────
+
+// In-memory store mock for DynamoDB
+const store = new Map<string, unknown>();
+vi.mock('../../db/dynamodb.js', () => ({
+  getItem: vi.fn(async (pk: string, sk: string) => store.get(`${pk}||${sk}`) ?? null),
+  putItem: vi.fn(async (pk: string, sk: string, data: Record<string, unknown>) => {
+    store.set(`${pk}||${sk}`, { ...data });
+  }),
+  deleteItem: vi.fn(async (pk: string, sk: string) => {
+    store.delete(`${pk}||${sk}`);
+  }),
+  takeItem: vi.fn(async (pk: string, sk: string) => {
+    const item = store.get(`${pk}||${sk}`) ?? null;
+    store.delete(`${pk}||${sk}`);
+    return item;
+  }),
+  queryByPk: vi.fn(async (pk: string, prefix = '') =>
+    [...store.entries()].filter(([key]) => key.startsWith(`${pk}||${prefix}`)).map(([, value]) => value)),
+}));
+
+import { createPendingAlert, confirmAlert } from '../../pending/index.js';
+import { listWatches } from '../../watches/index.js';
+import { listSnipes } from '../../snipes/index.js';
+import { runTool } from '../../claude/tools/index.js';
+import { resyWatchTool, resySnipeTool } from '../../claude/tools/alerts.js';
+import type { ToolContext } from '../../claude/tools/index.js';
+import type { ProviderSet } from '../../providers/index.js';
+import { emptyWorkingMemory } from '../../state/memory.js';
+
+const HANDLE = '+14155551234';
+const MAX_FEES = { deposit: 25, cancellation_fee: 25, no_show_fee: 25 };
+
+const watch = {
+  handle: HANDLE, chatId: 'chat_1', venueId: 9, venueName: 'Lilia', date: '2030-06-07', partySize: 2,
+  timeWindow: { start: '19:00', end: '21:00' }, autoBook: true, maxFees: MAX_FEES,
+};
+
+const snipe = {
+  handle: HANDLE, chatId: 'chat_1', venueId: 9, venueName: 'Lilia', date: '2030-07-01', partySize: 2,
+  timeWindow: { start: '19:00', end: '21:00' }, releaseAt: '2030-06-01T14:00:00.000Z',
+};
+
+function context(turnId: string): ToolContext {
+  return {
+    chatId: 'chat_1', turnId, handle: HANDLE, resyAuthToken: 'tok', providers: {} as ProviderSet,
+    memory: emptyWorkingMemory(), bookingSucceeded: false, reaction: null, effect: null, renameChat: null, rememberedUser: null,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2030-05-20T12:00:00Z'));
+  store.clear();
+});
+
+describe('confirmAlert', () => {
+  it('holds the job until a later turn confirms it', async () => {
+    const pending = await createPendingAlert({ handle: HANDLE, chatId: 'chat_1', kind: 'watch', watch, preparedInTurn: 'msg_1' });
+    expect(await listWatches(HANDLE)).toEqual([]);
+
+    await expect(confirmAlert(HANDLE, pending.id, 'msg_1', 'watch')).rejects.toThrow('current turn');
+    expect(await listWatches(HANDLE)).toEqual([]);
+
+    const confirmed = await confirmAlert(HANDLE, pending.id, 'msg_2', 'watch');
+
+    expect(confirmed.kind).toBe('watch');
+    expect(await listWatches(HANDLE)).toEqual([expect.objectContaining({ venueId: 9, autoBook: true, maxFees: MAX_FEES, status: 'active' })]);
+  });
+
+  it('starts a job once, for the user who set it up', async () => {
+    const pending = await createPendingAlert({ handle: HANDLE, chatId: 'chat_1', kind: 'snipe', snipe, preparedInTurn: 'msg_1' });
+
+    await expect(confirmAlert('+14155559999', pending.id, 'msg_2', 'snipe')).rejects.toThrow('No pending watch or snipe');
+    await confirmAlert(HANDLE, pending.id, 'msg_2', 'snipe');
+    await expect(confirmAlert(HANDLE, pending.id, 'msg_3', 'snipe')).rejects.toThrow('No pending watch or snipe');
+
+    expect(await listSnipes(HANDLE)).toEqual([expect.objectContaining({ status: 'scheduled', releaseAt: snipe.releaseAt })]);
+  });
+
+  it('starts one job when two confirms race for the same hold', async () => {
+    const pending = await createPendingAlert({ handle: HANDLE, chatId: 'chat_1', kind: 'snipe', snipe, preparedInTurn: 'msg_1' });
+
+    const results = await Promise.allSettled([
+      confirmAlert(HANDLE, pending.id, 'msg_2', 'snipe'),
+      confirmAlert(HANDLE, pending.id, 'msg_2', 'snipe'),
+    ]);
+
+    expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(await listSnipes(HANDLE)).toHaveLength(1);
+  });
+
+  it('rejects expired holds', async () => {
+    const pending = await createPendingAlert({ handle: HANDLE, chatId: 'chat_1', kind: 'watch', watch, preparedInTurn: 'msg_1' });
+    vi.setSystemTime(Date.now() + 16 * 60 * 1000);
+
+    await expect(confirmAlert(HANDLE, pending.id, 'msg_2', 'watch')).rejects.toThrow('expired');
+  });
+
+  it('refuses a snipe whose release passed before the user confirmed', async () => {
+    const pending = await createPendingAlert({ handle: HANDLE, chatId: 'chat_1', kind: 'snipe', snipe: { ...snipe, releaseAt: '2030-05-20T12:05:00.000Z' }, preparedInTurn: 'msg_1' });
+    vi.setSystemTime(new Date('2030-05-20T12:06:00Z'));
+
+    await expect(confirmAlert(HANDLE, pending.id, 'msg_2', 'snipe')).rejects.toThrow('released');
+    expect(await listSnipes(HANDLE)).toEqual([]);
+  });
+});
+
+describe('resy_snipe and resy_watch', () => {
+  const snipeInput = {
+    action: 'create', venue_id: 9, venue_name: 'Lilia', date: '2030-07-01', party_size: 2,
+    time_start: '19:00', time_end: '21:00', release_time: '10:00', days_out: 30, max_fee: 25,
+  };
+
+  it('prepares a snipe, then schedules it when a later turn confirms', async () => {
+    const prepared = await runTool(resySnipeTool, snipeInput, context('msg_1'));
+    expect(prepared.isError).toBeFalsy();
+    const { pending_id } = JSON.parse(prepared.content) as { pending_id: string };
+    expect(await listSnipes(HANDLE)).toEqual([]);
+
+    const confirmed = await runTool(resySnipeTool, { action: 'confirm', pending_id }, context('msg_2'));
+
+    expect(confirmed.isError).toBeFalsy();
+    expect(JSON.parse(confirmed.content)).toMatchObject({ venueId: 9, releaseAt: '2030-06-01T14:00:00.000Z', maxFees: MAX_FEES });
+    expect(await listSnipes(HANDLE)).toEqual([expect.objectContaining({ status: 'scheduled' })]);
+  });
+
+  it('leaves a pending snipe alone when it is confirmed as a watch', async () => {
+    const prepared = await runTool(resySnipeTool, snipeInput, context('msg_1'));
+    const { pending_id } = JSON.parse(prepared.content) as { pending_id: string };
+
+    const wrong = await runTool(resyWatchTool, { action: 'confirm', pending_id }, context('msg_2'));
+    expect(wrong).toMatchObject({ isError: true, content: expect.stringContaining('Confirm it with resy_snipe') });
+    expect(await listWatches(HANDLE)).toEqual([]);
+
+    expect((await runTool(resySnipeTool, { action: 'confirm', pending_id }, context('msg_2'))).isError).toBeFalsy();
+  });
+});
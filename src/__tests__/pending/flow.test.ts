@@ -0,0 +1,264 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Mocks ────────────────────────────────────────────────────────────────────
+
+// In-memory store mock for DynamoDB
+const store = new Map<string, unknown>();
+vi.mock('../../db/dynamodb.js', () => ({
+  getItem: vi.fn(async (pk: string, sk: string) => store.get(`${pk}||${sk}`) ?? null),
+  putItem: vi.fn(async (pk: string, sk: string, data: Record<string, unknown>) => {
+    store.set(`${pk}||${sk}`, { ...data });
+  }),
+  deleteItem: vi.fn(async (pk: string, sk: string) => {
+    store.delete(`${pk}||${sk}`);
+  }),
+  takeItem: vi.fn(async (pk: string, sk: string) => {
+    const item = store.get(`${pk}||${sk}`) ?? null;
+    store.delete(`${pk}||${sk}`);
+    return item;
+  }),
+  queryByPk: vi.fn(async (pk: string, prefix = '') =>
+    [...store.entries()].filter(([key]) => key.startsWith(`${pk}||${prefix}`)).map(([, value]) => value)),
+}));
+
+const mockFindSlots = vi.fn();
+const mockGetBookingTerms = vi.fn();
+const mockBookSlot = vi.fn();
+const mockGetReservations = vi.fn();
+const mockModifyReservation = vi.fn();
+
+vi.mock('../../bookings/index.js', async () => {
+  const actual = await vi.importActual<typeof import('../../bookings/client.js')>('../../bookings/client.js');
+  return {
+    findSlots: (...args: unknown[]) => mockFindSlots(...args),
+    getBookingTerms: (...args: unknown[]) => mockGetBookingTerms(...args),
+    bookSlot: (...args: unknown[]) => mockBookSlot(...args),
+    getReservations: (...args: unknown[]) => mockGetReservations(...args),
+    modifyReservation: (...args: unknown[]) => mockModifyReservation(...args),
+    filterSlots: (await vi.importActual<typeof import('../../bookings/filters.js')>('../../bookings/filters.js')).filterSlots,
+    pickClosestSlot: actual.pickClosestSlot,
+    hasFees: actual.hasFees,
+    feesWithin: actual.feesWithin,
+    describeTerms: actual.describeTerms,
+  };
+});
+
+import { prepareBooking, confirmBooking, TermsChangedError } from '../../pending/flow.js';
+import { createProviders } from '../../providers/index.js';
+import { listLedgerEntries } from '../../ledger/index.js';
+import type { ProviderSet, ReservationProvider } from '../../providers/index.js';
+
+const HANDLE = '+14155551234';
+const FREE = { policy_text: [], requires_payment_method: false };
+
+function slot(time: string, type = 'Dining Room') {
+  return { config_token: `cfg_${time}`, date: '2030-06-07', time, party_size: 2, type };
+}
+
+const providers = createProviders({ resyAuthToken: 'tok' });
+
+const request = { handle: HANDLE, chatId: 'chat_1', turnId: 'msg_1', venueId: 9, venueName: 'Lilia', date: '2030-06-07', partySize: 2, time: '19:00' };
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.useRealTimers();
+  store.clear();
+  mockFindSlots.mockResolvedValue([slot('18:00'), slot('19:15'), slot('21:00')]);
+  mockGetBookingTerms.mockResolvedValue(FREE);
+  mockBookSlot.mockResolvedValue({ resy_token: 'rr://new', venue_name: 'Lilia', date: '2030-06-07', time: '19:15', party_size: 2, type: 'Dining Room', agreed_terms: FREE });
+});
+
+describe('prepareBooking', () => {
+  it('holds the closest slot without booking it', async () => {
+    const pending = await prepareBooking(providers, request);
+
+    expect(pending).toMatchObject({ kind: 'book', venueId: 9, time: '19:15', seatingType: 'Dining Room', preparedInTurn: 'msg_1' });
+    expect(mockBookSlot).not.toHaveBeenCalled();
+  });
+
+  it('refuses to hold the wrong seating type', async () => {
+    mockFindSlots.mockResolvedValue([slot('19:00', 'Bar')]);
+
+    await expect(prepareBooking(providers, { ...request, seating: { preferred: ['dining room'] } })).rejects.toThrow('only Bar');
+    expect(mockGetBookingTerms).not.toHaveBeenCalled();
+  });
+
+  it('requires an exact open slot when moving a reservation', async () => {
+    mockGetReservations.mockResolvedValue([{ resy_token: 'rr://old', venue_id: 9, venue_name: 'Lilia', date: '2030-06-07', time: '18:00:00', party_size: 2 }]);
+
+    await expect(prepareBooking(providers, { handle: HANDLE, chatId: 'chat_1', turnId: 'msg_1', time: '20:00', replacesResyToken: 'rr://old' }))
+      .rejects.toThrow('No 20:00 slot');
+  });
+});
+
+describe('confirmBooking', () => {
+  it('refuses to confirm in the turn that prepared it', async () => {
+    const pending = await prepareBooking(providers, request);
+
+    await expect(confirmBooking(providers, HANDLE, pending.id, 'msg_1')).rejects.toThrow('current turn');
+    expect(mockBookSlot).not.toHaveBeenCalled();
+  });
+
+  it('books the exact prepared slot on a later turn, once', async () => {
+    const pending = await prepareBooking(providers, request);
+
+    const confirmed = await confirmBooking(providers, HANDLE, pending.id, 'msg_2');
+
+    expect(confirmed.kind).toBe('book');
+    expect(mockBookSlot).toHaveBeenCalledWith('tok', slot('19:15'), { paymentMethodId: undefined, maxFees: FREE });
+    await expect(confirmBooking(providers, HANDLE, pending.id, 'msg_3')).rejects.toThrow('No pending booking');
+  });
+
+  it('books once when two confirms race for the same hold', async () => {
+    const pending = await prepareBooking(providers, request);
+
+    const results = await Promise.allSettled([
+      confirmBooking(providers, HANDLE, pending.id, 'msg_2'),
+      confirmBooking(providers, HANDLE, pending.id, 'msg_2'),
+    ]);
+
+    expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(r => r.status === 'rejected')).toMatchObject({ reason: expect.objectContaining({ message: expect.stringContaining('already confirmed') }) });
+    expect(mockBookSlot).toHaveBeenCalledTimes(1);
+  });
+
+  it('records the booking in the ledger against the confirming message', async () => {
+    const pending = await prepareBooking(providers, request);
+
+    await confirmBooking(providers, HANDLE, pending.id, 'msg_2');
+
+    expect(await listLedgerEntries(HANDLE)).toEqual([expect.objectContaining({
+      action: 'book', provider: 'resy', reservationToken: 'rr://new', chatId: 'chat_1', source: 'chat', sourceId: 'msg_2',
+      venueId: 9, venueName: 'Lilia', date: '2030-06-07', time: '19:15', partySize: 2, agreedTerms: FREE,
+    })]);
+  });
+
+  it('does not swap seating if the prepared table is gone', async () => {
+    const pending = await prepareBooking(providers, request);
+    mockFindSlots.mockResolvedValue([slot('19:15', 'Bar')]);
+
+    await expect(confirmBooking(providers, HANDLE, pending.id, 'msg_2')).rejects.toThrow('no longer available');
+    expect(mockBookSlot).not.toHaveBeenCalled();
+  });
+
+  it('only lets the user who prepared it confirm', async () => {
+    const pending = await prepareBooking(providers, request);
+
+    await expect(confirmBooking(providers, '+14155559999', pending.id, 'msg_2')).rejects.toThrow('No pending booking');
+  });
+
+  it('rejects expired holds', async () => {
+    const pending = await prepareBooking(providers, request);
+    vi.setSystemTime(Date.now() + 16 * 60 * 1000);
+
+    await expect(confirmBooking(providers, HANDLE, pending.id, 'msg_2')).rejects.toThrow('expired');
+  });
+
+  it('accepts the fees the user was shown', async () => {
+    mockGetBookingTerms.mockResolvedValue({ deposit: 50, policy_text: [], requires_payment_method: true });
+    const pending = await prepareBooking(providers, { ...request, paymentMethodId: 6 });
+
+    await confirmBooking(providers, HANDLE, pending.id, 'msg_2');
+
+    expect(mockBookSlot).toHaveBeenCalledWith('tok', slot('19:15'), { paymentMethodId: 6, maxFees: { deposit: 50, policy_text: [], requires_payment_method: true } });
+  });
+
+  it('refuses and returns the new terms when fees rose after the user agreed', async () => {
+    mockGetBookingTerms.mockResolvedValue({ deposit: 50, policy_text: [], requires_payment_method: true });
+    const pending = await prepareBooking(providers, request);
+    mockGetBookingTerms.mockResolvedValue({ deposit: 75, policy_text: [], requires_payment_method: true });
+
+    const error = await confirmBooking(providers, HANDLE, pending.id, 'msg_2').catch(e => e);
+
+    expect(error).toBeInstanceOf(TermsChangedError);
+    expect(error.terms).toMatchObject({ deposit: 75 });
+    expect(error.message).toContain('was $50 deposit, now $75 deposit');
+    expect(mockBookSlot).not.toHaveBeenCalled();
+  });
+
+  it('books when fees dropped after the user agreed', async () => {
+    mockGetBookingTerms.mockResolvedValue({ deposit: 50, policy_text: [], requires_payment_method: true });
+    const pending = await prepareBooking(providers, request);
+    mockGetBookingTerms.mockResolvedValue(FREE);
+
+    await confirmBooking(providers, HANDLE, pending.id, 'msg_2');
+
+    expect(mockBookSlot).toHaveBeenCalled();
+  });
+
+  it('moves a reservation through modifyReservation', async () => {
+    mockGetReservations.mockResolvedValue([{ resy_token: 'rr://old', venue_id: 9, venue_name: 'Lilia', date: '2030-06-07', time: '18:00:00', party_size: 2 }]);
+    mockModifyReservation.mockResolvedValue({ status: 'modified' });
+    const pending = await prepareBooking(providers, { handle: HANDLE, chatId: 'chat_1', turnId: 'msg_1', time: '21:00', replacesResyToken: 'rr://old' });
+
+    const confirmed = await confirmBooking(providers, HANDLE, pending.id, 'msg_2');
+
+    expect(confirmed.kind).toBe('modify');
+    expect(await listLedgerEntries(HANDLE)).toEqual([]);
+    expect(mockModifyReservation).toHaveBeenCalledWith('tok', 'rr://old', { day: '2030-06-07', time: '21:00', partySize: 2, seatingType: 'Dining Room' }, undefined, { paymentMethodId: undefined, maxFees: FREE });
+  });
+});
+
+describe('other providers', () => {
+  const bookOnTable = vi.fn();
+  const tableProvider: ReservationProvider = {
+    id: 'opentable',
+    name: 'OpenTable',
+    search: vi.fn(),
+    findSlots: async () => [{ ...slot('19:00'), provider: 'opentable', venue_id: 7001 }],
+    getBookingTerms: async () => FREE,
+    book: bookOnTable,
+    cancel: vi.fn(),
+    listReservations: async () => [{ provider: 'opentable', reservation_token: 'OT-1', venue_id: 7001, venue_name: 'Via Carota', date: '2030-06-07', time: '18:00', party_size: 2, type: 'Dining Room' }],
+  };
+  const both: ProviderSet = {
+    list: () => [...providers.list(), tableProvider],
+    get: id => id === 'opentable' ? tableProvider : providers.get(id),
+  };
+
+  it('books on the provider the slot was prepared on', async () => {
+    bookOnTable.mockResolvedValue({ provider: 'opentable', reservation_token: 'OT-2', venue_name: 'Via Carota', date: '2030-06-07', time: '19:00', party_size: 2, type: 'Dining Room', agreed_terms: FREE });
+    const pending = await prepareBooking(both, { ...request, provider: 'opentable', venueId: 7001 });
+
+    await confirmBooking(both, HANDLE, pending.id, 'msg_2');
+
+    expect(pending.provider).toBe('opentable');
+    expect(bookOnTable).toHaveBeenCalledWith(expect.objectContaining({ provider: 'opentable', venue_id: 7001, time: '19:00' }), expect.anything());
+    expect(mockBookSlot).not.toHaveBeenCalled();
+  });
+
+  it('refuses to move a reservation on a provider without modify', async () => {
+    await expect(prepareBooking(both, { handle: HANDLE, chatId: 'chat_1', turnId: 'msg_1', provider: 'opentable', time: '20:00', replacesResyToken: 'OT-1' }))
+      .rejects.toThrow("can't be moved");
+  });
+});
+
+describe('moves in the ledger', () => {
+  const original = { resy_token: 'rr://old', venue_id: 9, venue_name: 'Lilia', date: '2030-06-07', time: '18:00:00', party_size: 2, type: 'Dining Room' };
+  const newBooking = { resy_token: 'rr://new', venue_name: 'Lilia', date: '2030-06-07', time: '21:00', party_size: 2, type: 'Dining Room', agreed_terms: FREE };
+
+  beforeEach(() => {
+    mockGetReservations.mockResolvedValue([original]);
+  });
+
+  it('records the new booking and the cancelled original', async () => {
+    mockModifyReservation.mockResolvedValue({ status: 'modified', original, new_booking: newBooking });
+    const pending = await prepareBooking(providers, { handle: HANDLE, chatId: 'chat_1', turnId: 'msg_1', time: '21:00', replacesResyToken: 'rr://old' });
+
+    await confirmBooking(providers, HANDLE, pending.id, 'msg_2');
+
+    const entries = await listLedgerEntries(HANDLE);
+    expect(entries).toHaveLength(2);
+    expect(entries).toContainEqual(expect.objectContaining({ action: 'book', reservationToken: 'rr://new', replacesToken: 'rr://old', time: '21:00' }));
+    expect(entries).toContainEqual(expect.objectContaining({ action: 'cancel', reservationToken: 'rr://old', venueName: 'Lilia', time: '18:00' }));
+  });
+
+  it('only records the new booking when the original could not be cancelled', async () => {
+    mockModifyReservation.mockResolvedValue({ status: 'needs_attention', original, new_booking: newBooking });
+    const pending = await prepareBooking(providers, { handle: HANDLE, chatId: 'chat_1', turnId: 'msg_1', time: '21:00', replacesResyToken: 'rr://old' });
+
+    await confirmBooking(providers, HANDLE, pending.id, 'msg_2');
+
+    expect((await listLedgerEntries(HANDLE)).map(e => `${e.action} ${e.reservationToken}`)).toEqual(['book rr://new']);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createMockResyApp } from '../../mock-resy/server.js';
+import { MOCK_AUTH_TOKEN } from '../../mock-resy/fixtures.js';
+import { createMockOpenTableApp } from '../../mock-opentable/server.js';
+import { MOCK_OPENTABLE_API_KEY } from '../../mock-opentable/fixtures.js';
+
+// Both real providers, pointed at the local stand-ins
+let resyServer: Server;
+let openTableServer: Server;
+let providersModule: typeof import('../../providers/index.js');
+
+async function listen(app: { listen: (port: number) => Server }): Promise<[Server, string]> {
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  return [server, `http://127.0.0.1:${(server.address() as AddressInfo).port}`];
+}
+
+beforeAll(async () => {
+  let url: string;
+  [resyServer, url] = await listen(createMockResyApp());
+  process.env.RESY_BASE_URL = url;
+  [openTableServer, url] = await listen(createMockOpenTableApp());
+  process.env.OPENTABLE_BASE_URL = url;
+  process.env.OPENTABLE_API_KEY = MOCK_OPENTABLE_API_KEY;
+  providersModule = await import('../../providers/index.js');
+});
+
+afterAll(async () => {
+  delete process.env.RESY_BASE_URL;
+  delete process.env.OPENTABLE_BASE_URL;
+  delete process.env.OPENTABLE_API_KEY;
+  await new Promise(resolve => resyServer.close(resolve));
+  await new Promise(resolve => openTableServer.close(resolve));
+});
+
+const DAY = '2030-06-07';
+const DINER = { phone: '+15555550123', firstName: 'Dev', lastName: 'Diner' };
+
+describe('createProviders', () => {
+  it('only includes OpenTable when there is a diner to book for', () => {
+    const { createProviders } = providersModule;
+
+    expect(createProviders({ resyAuthToken: MOCK_AUTH_TOKEN }).list().map(p => p.id)).toEqual(['resy']);
+    expect(createProviders({ resyAuthToken: MOCK_AUTH_TOKEN, diner: DINER }).list().map(p => p.id)).toEqual(['resy', 'opentable']);
+    expect(() => createProviders({ resyAuthToken: MOCK_AUTH_TOKEN }).get('opentable')).toThrow('isnt connected');
+    expect(() => createProviders({ resyAuthToken: MOCK_AUTH_TOKEN }).get('tock')).toThrow('Unknown provider');
+  });
+});
+
+describe('providers against the stand-ins', () => {
+  it('books on OpenTable when Resy has no table', async () => {
+    const providers = providersModule.createProviders({ resyAuthToken: MOCK_AUTH_TOKEN, diner: DINER });
+    const resy = providers.get('resy');
+    const openTable = providers.get('opentable');
+
+    const [onResy] = await resy.search('carbone');
+    const [onOpenTable] = await openTable.search('carbone');
+    expect(onResy).toMatchObject({ provider: 'resy', name: 'Carbone' });
+    expect(onOpenTable).toMatchObject({ provider: 'opentable', name: 'Carbone' });
+
+    expect(await resy.findSlots(onResy.venue_id, DAY, 2)).toEqual([]);
+    const slots = await openTable.findSlots(onOpenTable.venue_id, DAY, 2);
+    expect(slots[0]).toMatchObject({ provider: 'opentable', venue_id: onOpenTable.venue_id, timezone: 'America/New_York' });
+
+    const confirmation = await openTable.book(slots[0], { notes: { occasion: 'Birthday' } });
+    expect(confirmation).toMatchObject({ provider: 'opentable', venue_name: 'Carbone', date: DAY, time: slots[0].time });
+
+    // The slot is gone, and the reservation is listed under the diner's phone
+    await expect(openTable.book(slots[0])).rejects.toThrow('just taken');
+    expect(await openTable.listReservations()).toContainEqual(expect.objectContaining({ reservation_token: confirmation.reservation_token, occasion: 'Birthday' }));
+
+    expect((await openTable.cancel(confirmation.reservation_token)).success).toBe(true);
+    expect(await openTable.listReservations()).toEqual([]);
+    expect((await openTable.cancel(confirmation.reservation_token)).success).toBe(false);
+  });
+
+  it('only cancels the diner\'s own OpenTable reservations', async () => {
+    const mine = providersModule.createProviders({ diner: DINER }).get('opentable');
+    const theirs = providersModule.createProviders({ diner: { phone: '+15555550999' } }).get('opentable');
+    const [slot] = await mine.findSlots(7001, DAY, 4);
+    const { reservation_token } = await mine.book(slot);
+
+    expect(await theirs.cancel(reservation_token)).toMatchObject({ success: false, error: expect.stringContaining('isnt one of your') });
+
+    // The stand-in enforces it too, for callers that skip the check
+    const cancelAs = (phone?: string) => fetch(`${process.env.OPENTABLE_BASE_URL}/v1/reservations/${reservation_token}/cancel`, {
+      method: 'POST',
+      headers: { 'authorization': `Bearer ${MOCK_OPENTABLE_API_KEY}`, 'content-type': 'application/json' },
+      body: JSON.stringify(phone ? { phone } : {}),
+    });
+    expect((await cancelAs()).status).toBe(400);
+    expect((await cancelAs('+15555550999')).status).toBe(404);
+    expect(await mine.listReservations()).toContainEqual(expect.objectContaining({ reservation_token }));
+
+    expect((await mine.cancel(reservation_token)).success).toBe(true);
+  });
+
+  it('needs consent before booking an OpenTable slot with a fee', async () => {
+    const openTable = providersModule.createProviders({ diner: DINER }).get('opentable');
+    const [slot] = await openTable.findSlots(7002, DAY, 2);
+
+    expect(await openTable.getBookingTerms(slot)).toMatchObject({ cancellation_fee: 50, requires_payment_method: false });
+    await expect(openTable.book(slot)).rejects.toThrow('Not booked');
+    expect((await openTable.book(slot, { acceptFees: true })).agreed_terms.cancellation_fee).toBe(50);
+  });
+
+  it('applies search filters on OpenTable too', async () => {
+    const openTable = providersModule.createProviders({ diner: DINER }).get('opentable');
+
+    const italian = await openTable.search('', undefined, { cuisine: 'italian', priceMax: 3 });
+    expect(italian.map(v => v.name)).toEqual(['Via Carota']);
+
+    const open = await openTable.search('', undefined, { availability: { date: DAY, partySize: 2, timeWindow: { start: '19:00', end: '20:00' } } });
+    expect(open.length).toBeGreaterThan(0);
+    expect(open.every(v => v.available_times!.every(t => t >= '19:00' && t <= '20:00'))).toBe(true);
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ReservationSnipe } from '../../snipes/types.js';
+
+// ── Mocks ────────────────────────────────────────────────────────────────────
+
+const mockListDueSnipes = vi.fn();
+const mockListAbandonedSnipes = vi.fn();
+const mockUpdateSnipe = vi.fn().mockResolvedValue(undefined);
+const mockUpdateSnipeIf = vi.fn();
+
+vi.mock('../../snipes/db.js', () => ({
+  listDueSnipes: (...args: unknown[]) => mockListDueSnipes(...args),
+  listAbandonedSnipes: (...args: unknown[]) => mockListAbandonedSnipes(...args),
+  updateSnipe: (...args: unknown[]) => mockUpdateSnipe(...args),
+  updateSnipeIf: (...args: unknown[]) => mockUpdateSnipeIf(...args),
+}));
+
+const mockFindSlots = vi.fn();
+const mockBookSlot = vi.fn();
+
+vi.mock('../../bookings/index.js', async () => ({
+  findSlots: (...args: unknown[]) => mockFindSlots(...args),
+  bookSlot: (...args: unknown[]) => mockBookSlot(...args),
+  filterSlots: (await vi.importActual<typeof import('../../bookings/filters.js')>('../../bookings/filters.js')).filterSlots,
+  describeTerms: () => '$50 deposit',
+  ResyAuthError: class ResyAuthError extends Error {},
+  ResyFeeConsentError: class ResyFeeConsentError extends Error {
+    constructor(public terms: unknown) { super('fees'); }
+  },
+}));
+
+const mockRecordLedgerEntry = vi.fn().mockResolvedValue(null);
+vi.mock('../../ledger/index.js', async () => ({
+  recordLedgerEntry: (...args: unknown[]) => mockRecordLedgerEntry(...args),
+  bookingEntry: (await vi.importActual<typeof import('../../ledger/db.js')>('../../ledger/db.js')).bookingEntry,
+}));
+
+const mockLoadUserContext = vi.fn();
+vi.mock('../../auth/index.js', () => ({
+  loadUserContext: (...args: unknown[]) => mockLoadUserContext(...args),
+}));
+
+const mockSendMessage = vi.fn().mockResolvedValue({});
+vi.mock('../../linq/client.js', () => ({
+  sendMessage: (...args: unknown[]) => mockSendMessage(...args),
+}));
+
+vi.mock('../../state/conversation.js', () => ({
+  addMessage: vi.fn().mockResolvedValue(undefined),
+}));
+
+import { runSnipe, runDueSnipes, describeMiss } from '../../snipes/runner.js';
+
+const FAST = { leadMs: 0, retryIntervalMs: 0, maxAttempts: 5 };
+
+function makeSnipe(overrides: Partial<ReservationSnipe> = {}): ReservationSnipe {
+  return {
+    id: 's1',
+    handle: '+14155551234',
+    chatId: 'chat_1',
+    venueId: 42,
+    venueName: 'Don Angie',
+    date: '2030-07-01',
+    partySize: 2,
+    timeWindow: { start: '19:00', end: '21:00' },
+    releaseAt: new Date(Date.now() - 1000).toISOString(),
+    status: 'scheduled',
+    createdAt: new Date().toISOString(),
+    attempts: [],
+    ...overrides,
+  };
+}
+
+function slot(time: string) {
+  return { config_token: `cfg_${time}`, date: '2030-07-01', time, party_size: 2, type: 'Dining Room' };
+}
+
+const confirmation = {
+  resy_token: 'rr://xyz', reservation_id: 7, venue_name: 'Don Angie',
+  venue_url: 'https://resy.com/cities/new-york-ny/don-angie', date: '2030-07-01',
+  time: '19:30', party_size: 2, type: 'Dining Room',
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockListAbandonedSnipes.mockResolvedValue([]);
+  mockUpdateSnipeIf.mockResolvedValue(true);
+  mockLoadUserContext.mockResolvedValue({
+    user: { phoneNumber: '+14155551234' },
+    bookingsCredentials: { resyAuthToken: 'tok' },
+  });
+});
+
+describe('runSnipe', () => {
+  it('retries until tables drop, then books the first slot in the window', async () => {
+    mockFindSlots
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([slot('17:00'), slot('19:30')]);
+    mockBookSlot.mockResolvedValue(confirmation);
+
+    const result = await runSnipe(makeSnipe(), 'tok', FAST);
+
+    expect(result.confirmation).toEqual(confirmation);
+    expect(result.attempts.map(a => a.outcome)).toEqual(['no_slots', 'booked']);
+    expect(mockBookSlot).toHaveBeenCalledWith('tok', slot('19:30'), { maxFees: undefined });
+  });
+
+  it('moves on when a slot is taken mid-book', async () => {
+    mockFindSlots.mockResolvedValue([slot('20:00')]);
+    mockBookSlot
+      .mockRejectedValueOnce(new Error('Resy API 412: slot no longer available'))
+      .mockResolvedValueOnce(confirmation);
+
+    const result = await runSnipe(makeSnipe(), 'tok', FAST);
+
+    expect(result.attempts.map(a => a.outcome)).toEqual(['book_failed', 'booked']);
+  });
+
+  it('skips over-fee slots and books the next one in the window', async () => {
+    const { ResyFeeConsentError } = await import('../../bookings/index.js');
+    mockFindSlots.mockResolvedValue([slot('19:30'), slot('20:00')]);
+    mockBookSlot
+      .mockRejectedValueOnce(new ResyFeeConsentError({ deposit: 50, policy_text: [], requires_payment_method: true }))
+      .mockResolvedValueOnce(confirmation);
+
+    const result = await runSnipe(makeSnipe(), 'tok', FAST);
+
+    expect(result.confirmation).toEqual(confirmation);
+    expect(result.attempts.map(a => a.outcome)).toEqual(['fee_blocked', 'booked']);
+    expect(mockBookSlot).toHaveBeenLastCalledWith('tok', slot('20:00'), { maxFees: undefined });
+  });
+
+  it('keeps watching without rebooking slots it already found over the fee limit', async () => {
+    const { ResyFeeConsentError } = await import('../../bookings/index.js');
+    mockFindSlots.mockResolvedValue([slot('19:30')]);
+    mockBookSlot.mockRejectedValue(new ResyFeeConsentError({ deposit: 50, policy_text: [], requires_payment_method: true }));
+
+    const result = await runSnipe(makeSnipe(), 'tok', FAST);
+
+    expect(result.confirmation).toBeNull();
+    expect(result.attempts).toHaveLength(FAST.maxAttempts);
+    expect(result.attempts.every(a => a.outcome === 'fee_blocked')).toBe(true);
+    expect(mockBookSlot).toHaveBeenCalledTimes(1);
+    expect(describeMiss(result.attempts)).toContain('$50 deposit');
+  });
+
+  it('passes the snipe\'s fee ceiling through to the booking', async () => {
+    mockFindSlots.mockResolvedValue([slot('19:30')]);
+    mockBookSlot.mockResolvedValue(confirmation);
+    const maxFees = { deposit: 25, cancellation_fee: 25, no_show_fee: 25 };
+
+    await runSnipe(makeSnipe({ maxFees }), 'tok', FAST);
+
+    expect(mockBookSlot).toHaveBeenCalledWith('tok', slot('19:30'), { maxFees });
+  });
+
+  it('gives up after the attempt limit', async () => {
+    mockFindSlots.mockResolvedValue([slot('17:00')]);
+
+    const result = await runSnipe(makeSnipe(), 'tok', FAST);
+
+    expect(result.confirmation).toBeNull();
+    expect(result.attempts).toHaveLength(5);
+    expect(result.attempts.every(a => a.outcome === 'no_match')).toBe(true);
+  });
+});
+
+describe('describeMiss', () => {
+  it('explains the most useful failure', () => {
+    expect(describeMiss([{ at: '', outcome: 'no_slots', slotsSeen: 0 }, { at: '', outcome: 'no_match', slotsSeen: 3 }]))
+      .toContain('none in your time window');
+  });
+});
+
+describe('runDueSnipes', () => {
+  it('claims due snipes, runs them, and reports the booking', async () => {
+    mockListDueSnipes.mockResolvedValue([makeSnipe()]);
+    mockFindSlots.mockResolvedValue([slot('19:30')]);
+    mockBookSlot.mockResolvedValue(confirmation);
+
+    const ran = await runDueSnipes(new Date(), FAST);
+
+    expect(ran).toBe(1);
+    expect(mockUpdateSnipeIf).toHaveBeenCalledWith('+14155551234', 's1', { status: 'scheduled' }, { status: 'running', leaseUntil: expect.any(String) });
+    expect(mockUpdateSnipe).toHaveBeenCalledWith('+14155551234', 's1', expect.objectContaining({ status: 'booked', resyToken: 'rr://xyz' }));
+    expect(mockRecordLedgerEntry).toHaveBeenCalledWith(expect.objectContaining({ action: 'book', reservationToken: 'rr://xyz', source: 'snipe', sourceId: 's1', venueId: 42 }));
+    expect(mockSendMessage).toHaveBeenCalledWith('chat_1', expect.stringContaining('snagged Don Angie'));
+  });
+
+  it('marks snipes missed when the release window already closed', async () => {
+    mockListDueSnipes.mockResolvedValue([makeSnipe({ releaseAt: new Date(Date.now() - 10 * 60 * 1000).toISOString() })]);
+
+    const ran = await runDueSnipes(new Date(), FAST);
+
+    expect(ran).toBe(0);
+    expect(mockFindSlots).not.toHaveBeenCalled();
+    expect(mockUpdateSnipeIf).toHaveBeenCalledWith('+14155551234', 's1', { status: 'scheduled' }, { status: 'missed' });
+  });
+
+  it('leases the claim past the end of the release window', async () => {
+    const snipe = makeSnipe();
+    mockListDueSnipes.mockResolvedValue([snipe]);
+    mockFindSlots.mockResolvedValue([]);
+
+    await runDueSnipes(new Date(), { ...FAST, releaseWindowMs: 60_000 });
+
+    const leaseUntil = mockUpdateSnipeIf.mock.calls[0][3].leaseUntil;
+    expect(new Date(leaseUntil).getTime()).toBe(new Date(snipe.releaseAt).getTime() + 120_000);
+  });
+
+  it('skips snipes another tick already claimed', async () => {
+    mockListDueSnipes.mockResolvedValue([makeSnipe()]);
+    mockUpdateSnipeIf.mockResolvedValueOnce(false);
+
+    expect(await runDueSnipes(new Date(), FAST)).toBe(0);
+    expect(mockFindSlots).not.toHaveBeenCalled();
+  });
+
+  it('fails and reports snipes whose run never finished', async () => {
+    const leaseUntil = new Date(Date.now() - 1000).toISOString();
+    mockListAbandonedSnipes.mockResolvedValue([makeSnipe({ status: 'running', leaseUntil })]);
+    mockListDueSnipes.mockResolvedValue([]);
+
+    await runDueSnipes(new Date(), FAST);
+
+    expect(mockUpdateSnipeIf).toHaveBeenCalledWith('+14155551234', 's1', { status: 'running', leaseUntil },
+      { status: 'missed', attempts: [expect.objectContaining({ outcome: 'error', detail: 'Run stopped before finishing' })] });
+    expect(mockSendMessage).toHaveBeenCalledWith('chat_1', expect.stringContaining('something went wrong on my end'));
+  });
+
+  it('leaves an abandoned snipe to the tick that closed it out first', async () => {
+    mockListAbandonedSnipes.mockResolvedValue([makeSnipe({ status: 'running', leaseUntil: new Date(0).toISOString() })]);
+    mockListDueSnipes.mockResolvedValue([]);
+    mockUpdateSnipeIf.mockResolvedValueOnce(false);
+
+    await runDueSnipes(new Date(), FAST);
+
+    expect(mockSendMessage).not.toHaveBeenCalled();
+  });
+});
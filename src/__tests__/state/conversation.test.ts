@@ -10,11 +10,19 @@ vi.mock('../../db/dynamodb.js', () => ({
   deleteItem: vi.fn(async (pk: string, sk: string) => {
     store.delete(`${pk}||${sk}`);
   }),
+  putItemIf: vi.fn(async (pk: string, sk: string, data: Record<string, unknown>, expected: Record<string, unknown>) => {
+    const current = store.get(`${pk}||${sk}`) as Record<string, unknown> | undefined;
+    if (!current || Object.entries(expected).some(([key, value]) => current[key] !== value)) return false;
+    store.set(`${pk}||${sk}`, { ...data });
+    return true;
+  }),
+  refreshTtl: vi.fn(async () => {}),
 }));
 
+import { refreshTtl } from '../../db/dynamodb.js';
 import {
-  getConversation, addMessage, clearConversation,
-  getUserProfile, setUserName, addUserFact, clearUserProfile,
+  getConversation, getConversationWithSummary, addMessage, clearConversation, compactConversation,
+  getUserProfile, setUserName, addUserFact, setHomeLocation, clearUserProfile,
 } from '../../state/conversation.js';
 
 beforeEach(() => {
@@ -39,6 +47,11 @@ describe('conversations', () => {
     expect(msgs[1]).toEqual({ role: 'assistant', content: 'hi there' });
   });
 
+  it('addMessage keeps the chat\'s working memory alive with it', async () => {
+    await addMessage('chat_1', 'user', 'hello');
+    expect(refreshTtl).toHaveBeenCalledWith('CONV#chat_1', 'MEMORY', 24 * 60 * 60);
+  });
+
   it('messages trimmed to max 50', async () => {
     // Add 55 messages
     for (let i = 0; i < 55; i++) {
@@ -60,6 +73,75 @@ describe('conversations', () => {
   });
 });
 
+// ── Rolling summary ──────────────────────────────────────────────────────────
+
+describe('compactConversation', () => {
+  async function fill(chatId: string, from: number, to: number) {
+    for (let i = from; i < to; i++) await addMessage(chatId, i % 2 ? 'assistant' : 'user', `msg ${i}`);
+  }
+
+  it('leaves short conversations alone', async () => {
+    await fill('chat_short', 0, 30);
+    const summarize = vi.fn();
+
+    expect(await compactConversation('chat_short', summarize)).toBe(false);
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('folds all but the most recent messages into the summary', async () => {
+    await fill('chat_long', 0, 31);
+    const summarize = vi.fn(async (previous: string | null, messages: Array<{ content: string }>) => `${previous ?? ''}[${messages.length} summarized]`);
+
+    expect(await compactConversation('chat_long', summarize)).toBe(true);
+    expect(summarize).toHaveBeenCalledWith(null, expect.any(Array));
+    expect(summarize.mock.calls[0][1].map(m => m.content)).toEqual(Array.from({ length: 15 }, (_, i) => `msg ${i}`));
+
+    const conversation = await getConversationWithSummary('chat_long');
+    expect(conversation.summary).toBe('[15 summarized]');
+    expect(conversation.messages).toHaveLength(16);
+    expect(conversation.messages[0].content).toBe('msg 15');
+
+    // New messages keep the summary, and the next fold builds on it
+    await fill('chat_long', 31, 46);
+    expect((await getConversationWithSummary('chat_long')).summary).toBe('[15 summarized]');
+    await compactConversation('chat_long', summarize);
+    expect(summarize.mock.calls[1][0]).toBe('[15 summarized]');
+    expect((await getConversationWithSummary('chat_long')).summary).toBe('[15 summarized][15 summarized]');
+    expect(await getConversation('chat_long')).toHaveLength(16);
+  });
+
+  it('does not drop messages when the conversation changed mid-summary', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await fill('chat_race', 0, 31);
+    const summarize = vi.fn(async () => {
+      vi.advanceTimersByTime(1000);
+      await clearConversation('chat_race');
+      await addMessage('chat_race', 'user', 'fresh start');
+      return 'stale summary';
+    });
+
+    expect(await compactConversation('chat_race', summarize)).toBe(false);
+    expect(await getConversationWithSummary('chat_race')).toEqual({ messages: [{ role: 'user', content: 'fresh start' }], summary: null });
+    vi.useRealTimers();
+  });
+
+  it('leaves a message that arrived mid-summary, and the fold, for the next turn', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await fill('chat_busy', 0, 31);
+    const summarize = vi.fn(async () => {
+      vi.advanceTimersByTime(1000);
+      await addMessage('chat_busy', 'user', 'one more thing');
+      return 'summary';
+    });
+
+    expect(await compactConversation('chat_busy', summarize)).toBe(false);
+    const conversation = await getConversationWithSummary('chat_busy');
+    expect(conversation.messages).toHaveLength(32);
+    expect(conversation.messages.at(-1)?.content).toBe('one more thing');
+    vi.useRealTimers();
+  });
+});
+
 // ── User Profiles ────────────────────────────────────────────────────────────
 
 describe('user profiles', () => {
@@ -101,3 +183,14 @@ describe('user profiles', () => {
     expect(profile).toBeNull();
   });
 });
+
+describe('home location', () => {
+  it('setHomeLocation saves and survives other profile updates', async () => {
+    await setHomeLocation('dana', { name: 'Austin', lat: 30.2672, lng: -97.7431 });
+    await addUserFact('dana', 'vegetarian');
+
+    const profile = await getUserProfile('dana');
+    expect(profile!.homeLocation).toEqual({ name: 'Austin', lat: 30.2672, lng: -97.7431 });
+    expect(profile!.facts).toEqual(['vegetarian']);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// In-memory store mock for DynamoDB
+const store = new Map<string, unknown>();
+vi.mock('../../db/dynamodb.js', () => ({
+  getItem: vi.fn(async (pk: string, sk: string) => store.get(`${pk}||${sk}`) ?? null),
+  putItem: vi.fn(async (pk: string, sk: string, data: Record<string, unknown>) => {
+    store.set(`${pk}||${sk}`, JSON.parse(JSON.stringify(data)));
+  }),
+  deleteItem: vi.fn(async (pk: string, sk: string) => {
+    store.delete(`${pk}||${sk}`);
+  }),
+}));
+
+import {
+  emptyWorkingMemory, rememberVenues, rememberSlots, rememberPending, rememberReservation, rememberCancellation, forgetPending,
+  describeWorkingMemory, getWorkingMemory, saveWorkingMemory, clearWorkingMemory,
+} from '../../state/memory.js';
+import type { RememberedReservation } from '../../state/memory.js';
+
+const LILIA = { provider: 'resy' as const, venue_id: 418, name: 'Lilia', location: { neighborhood: 'Williamsburg' } };
+const CARBONE = { provider: 'opentable' as const, venue_id: 7003, name: 'Carbone' };
+
+function reservation(overrides: Partial<RememberedReservation> = {}): RememberedReservation {
+  return {
+    provider: 'resy', reservationToken: 'rr://lilia-1', venueId: 418, venueName: 'Lilia',
+    date: '2030-06-07', time: '19:30', partySize: 2, status: 'held', madeHere: true,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  store.clear();
+});
+
+describe('working memory', () => {
+  it('keeps venues newest first, one per provider and id', () => {
+    const memory = emptyWorkingMemory();
+    rememberVenues(memory, [LILIA, CARBONE]);
+    rememberVenues(memory, [{ ...LILIA, name: 'Lilia (Williamsburg)' }]);
+
+    expect(memory.venues.map(v => v.name)).toEqual(['Lilia (Williamsburg)', 'Carbone']);
+    expect(memory.venues[1]).toEqual({ provider: 'opentable', venueId: 7003, name: 'Carbone' });
+    expect(memory.updatedAt).toBeGreaterThan(0);
+  });
+
+  it('replaces the slots seen for the same venue, day and party size', () => {
+    const memory = emptyWorkingMemory();
+    const lookup = { provider: 'resy' as const, venueId: 418, date: '2030-06-07', partySize: 2 };
+    rememberSlots(memory, { ...lookup, times: ['19:00 Dining Room'] });
+    rememberSlots(memory, { ...lookup, partySize: 4, times: [] });
+    rememberSlots(memory, { ...lookup, times: ['21:30 Bar'] });
+
+    expect(memory.slots.map(s => [s.partySize, s.times])).toEqual([[2, ['21:30 Bar']], [4, []]]);
+  });
+
+  it('tracks a booking from pending through cancellation', () => {
+    const memory = emptyWorkingMemory();
+    rememberPending(memory, {
+      id: 'pb_1', kind: 'book', provider: 'resy', venueId: 418, venueName: 'Lilia',
+      date: '2030-06-07', time: '19:30', partySize: 2, seatingType: 'Dining Room', expiresAt: '2030-06-01T12:15:00.000Z',
+    });
+    forgetPending(memory, 'pb_1');
+    rememberReservation(memory, reservation());
+    // Listing it again later doesn't lose that it was booked here
+    rememberReservation(memory, reservation({ madeHere: false }));
+    rememberCancellation(memory, 'resy', 'rr://lilia-1');
+    rememberCancellation(memory, 'resy', 'rr://unknown');
+
+    expect(memory.pending).toEqual([]);
+    expect(memory.reservations).toEqual([reservation({ status: 'cancelled' })]);
+  });
+
+  it('caps each list', () => {
+    const memory = emptyWorkingMemory();
+    for (let i = 0; i < 15; i++) rememberReservation(memory, reservation({ reservationToken: `rr://${i}` }));
+    rememberVenues(memory, Array.from({ length: 20 }, (_, i) => ({ provider: 'resy' as const, venue_id: i, name: `Venue ${i}` })));
+
+    expect(memory.reservations).toHaveLength(10);
+    expect(memory.reservations[0].reservationToken).toBe('rr://14');
+    expect(memory.venues).toHaveLength(12);
+  });
+});
+
+describe('describeWorkingMemory', () => {
+  it('is null when empty', () => {
+    expect(describeWorkingMemory(emptyWorkingMemory())).toBeNull();
+  });
+
+  it('lists tokens, ids and times, naming venues from what was shown', () => {
+    const memory = emptyWorkingMemory();
+    rememberVenues(memory, [LILIA]);
+    rememberSlots(memory, { provider: 'resy', venueId: 418, date: '2030-06-07', partySize: 2, times: ['19:00 Dining Room', '21:30 Bar'] });
+    rememberReservation(memory, reservation());
+    const pending = { kind: 'book' as const, provider: 'resy' as const, venueId: 418, date: '2030-06-08', time: '20:00', partySize: 2, seatingType: 'Bar' };
+    rememberPending(memory, { ...pending, id: 'pb_live', expiresAt: '2030-06-01T12:15:00.000Z' });
+    rememberPending(memory, { ...pending, id: 'pb_expired', expiresAt: '2030-06-01T11:00:00.000Z' });
+
+    const text = describeWorkingMemory(memory, Date.parse('2030-06-01T12:00:00.000Z'))!;
+
+    expect(text).toContain('- Lilia, 2030-06-07 19:30, party of 2 — resy, reservation_token rr://lilia-1 (you booked this)');
+    expect(text).toContain('- pending_booking_id pb_live: Lilia, 2030-06-08 20:00 Bar, party of 2 (resy)');
+    expect(text).not.toContain('pb_expired');
+    expect(text).toContain('- Lilia — resy venue_id 418, Williamsburg');
+    expect(text).toContain('- Lilia (resy venue_id 418) 2030-06-07, party of 2: 19:00 Dining Room, 21:30 Bar');
+  });
+});
+
+describe('storage', () => {
+  it('round-trips per chat and clears', async () => {
+    expect(await getWorkingMemory('chat_1')).toEqual(emptyWorkingMemory());
+
+    const memory = emptyWorkingMemory();
+    rememberReservation(memory, reservation());
+    await saveWorkingMemory('chat_1', memory);
+
+    expect(await getWorkingMemory('chat_1')).toEqual(memory);
+    expect(await getWorkingMemory('chat_2')).toEqual(emptyWorkingMemory());
+
+    await clearWorkingMemory('chat_1');
+    expect(await getWorkingMemory('chat_1')).toEqual(emptyWorkingMemory());
+  });
+});
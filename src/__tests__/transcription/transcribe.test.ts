@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// ── Fetch stub ───────────────────────────────────────────────────────────────
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+function audioResponse(bytes = 16, type = 'audio/x-m4a', headers: Record<string, string> = {}): Response {
+  return new Response(new Uint8Array(bytes), { status: 200, headers: { 'content-type': type, ...headers } });
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+}
+
+import { transcribeAudio, createWhisperBackend, getTranscriptionBackend, TranscriptionError, MAX_AUDIO_BYTES } from '../../transcription/index.js';
+import type { TranscriptionBackend } from '../../transcription/index.js';
+
+const NOTE = { url: 'https://cdn.linqapp.com/voice-1.m4a', mimeType: 'audio/x-m4a' };
+
+function stubBackend(...texts: Array<string | Error>): TranscriptionBackend {
+  const transcribe = vi.fn();
+  for (const text of texts) {
+    if (text instanceof Error) transcribe.mockRejectedValueOnce(text);
+    else transcribe.mockResolvedValueOnce(text);
+  }
+  return { name: 'stub', transcribe };
+}
+
+async function failureOf(promise: Promise<unknown>): Promise<TranscriptionError> {
+  const error = await promise.catch(e => e);
+  expect(error).toBeInstanceOf(TranscriptionError);
+  return error as TranscriptionError;
+}
+
+beforeEach(() => {
+  mockFetch.mockReset();
+});
+
+describe('createWhisperBackend', () => {
+  it('uploads the clip to the whisper.cpp /inference endpoint', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ text: ' table for two at lilia \n' }));
+
+    const text = await createWhisperBackend('http://localhost:8080/').transcribe({ data: Buffer.from('abc'), mimeType: 'audio/x-m4a' });
+
+    expect(text).toBe('table for two at lilia');
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/inference');
+    const form = init.body as FormData;
+    expect((form.get('file') as File).name).toBe('voice-note.m4a');
+    expect(form.get('response_format')).toBe('json');
+  });
+
+  it('surfaces non-2xx responses as errors', async () => {
+    mockFetch.mockResolvedValue(new Response('model not loaded', { status: 500 }));
+    await expect(createWhisperBackend('http://localhost:8080').transcribe({ data: Buffer.from('abc'), mimeType: 'audio/mpeg' }))
+      .rejects.toThrow('whisper transcription failed: 500');
+  });
+});
+
+describe('getTranscriptionBackend', () => {
+  it('picks the engine from TRANSCRIPTION_BACKEND', () => {
+    expect(getTranscriptionBackend({ TRANSCRIPTION_BACKEND: 'whisper' })?.name).toBe('whisper');
+    expect(getTranscriptionBackend({ TRANSCRIPTION_BACKEND: 'openai', OPENAI_API_KEY: 'sk-test' })?.name).toBe('openai');
+  });
+
+  it('is off when unset or missing its key', () => {
+    expect(getTranscriptionBackend({})).toBeNull();
+    expect(getTranscriptionBackend({ TRANSCRIPTION_BACKEND: 'openai' })).toBeNull();
+  });
+});
+
+describe('transcribeAudio', () => {
+  it('downloads each note and joins the transcripts in order', async () => {
+    mockFetch.mockImplementation(async () => audioResponse());
+    const backend = stubBackend('book lilia friday', 'actually make it four people');
+
+    const text = await transcribeAudio([NOTE, { ...NOTE, url: 'https://cdn.linqapp.com/voice-2.m4a' }], backend);
+
+    expect(text).toBe('book lilia friday actually make it four people');
+    expect(mockFetch.mock.calls.map(([url]) => url)).toEqual([NOTE.url, 'https://cdn.linqapp.com/voice-2.m4a']);
+    expect(backend.transcribe).toHaveBeenCalledWith({ data: expect.any(Buffer), mimeType: 'audio/x-m4a' });
+  });
+
+  it('is unavailable without a backend', async () => {
+    const error = await failureOf(transcribeAudio([NOTE], null));
+    expect(error.reason).toBe('unavailable');
+    expect(error.userMessage).toContain('typing');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('refuses oversized notes before transcribing', async () => {
+    mockFetch.mockResolvedValue(audioResponse(16, 'audio/x-m4a', { 'content-length': String(MAX_AUDIO_BYTES + 1) }));
+    const backend = stubBackend('never');
+
+    expect((await failureOf(transcribeAudio([NOTE], backend))).reason).toBe('too_large');
+    expect(backend.transcribe).not.toHaveBeenCalled();
+  });
+
+  it('reports failed downloads', async () => {
+    mockFetch.mockResolvedValue(new Response('gone', { status: 404 }));
+    expect((await failureOf(transcribeAudio([NOTE], stubBackend('never')))).reason).toBe('download_failed');
+  });
+
+  it('wraps backend errors', async () => {
+    mockFetch.mockResolvedValue(audioResponse());
+    const error = await failureOf(transcribeAudio([NOTE], stubBackend(new Error('connect ECONNREFUSED'))));
+    expect(error.reason).toBe('backend_failed');
+    expect(error.message).toContain('ECONNREFUSED');
+  });
+
+  it('treats silence as a failure', async () => {
+    mockFetch.mockResolvedValue(audioResponse());
+    expect((await failureOf(transcribeAudio([NOTE], stubBackend('')))).reason).toBe('empty');
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+// vi.hoisted runs before imports — the budget is read at module load
+vi.hoisted(() => {
+  process.env.USER_DAILY_BUDGET_USD = '0.10';
+  process.env.USER_BUDGET_DEGRADE_AT = '0.5';
+});
+
+// ── Mocks ────────────────────────────────────────────────────────────────────
+
+// In-memory store mock for DynamoDB
+const store = new Map<string, unknown>();
+const mockPutItem = vi.fn(async (pk: string, sk: string, data: Record<string, unknown>) => {
+  store.set(`${pk}||${sk}`, { ...data });
+});
+const mockQueryByPk = vi.fn(async (pk: string, prefix = '') =>
+  [...store.entries()].filter(([key]) => key.startsWith(`${pk}||${prefix}`)).map(([, value]) => value));
+vi.mock('../../db/dynamodb.js', () => ({
+  putItem: (...args: [string, string, Record<string, unknown>]) => mockPutItem(...args),
+  queryByPk: (...args: [string, string?]) => mockQueryByPk(...args),
+}));
+
+import { recordUsage, listUsage, totalUsage, usageBy, estimateCost, checkBudget, budgetLevel } from '../../usage/index.js';
+
+const HANDLE = '+14155551234';
+const SONNET = 'claude-sonnet-4-20250514';
+const HAIKU = 'claude-3-5-haiku-20241022';
+
+function usage(input: number, output: number, cacheWrite: number | null = null, cacheRead: number | null = null) {
+  return { input_tokens: input, output_tokens: output, cache_creation_input_tokens: cacheWrite, cache_read_input_tokens: cacheRead };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2030-06-01T12:00:00Z'));
+  store.clear();
+});
+
+describe('estimateCost', () => {
+  it('prices input, output and cache tokens per model', () => {
+    const tokens = { inputTokens: 1_000_000, outputTokens: 100_000, cacheWriteTokens: 0, cacheReadTokens: 1_000_000 };
+    expect(estimateCost(SONNET, tokens)).toBeCloseTo(3 + 1.5 + 0.3);
+    expect(estimateCost(HAIKU, tokens)).toBeCloseTo(0.8 + 0.4 + 0.08);
+  });
+
+  it('prices unknown models like Sonnet', () => {
+    const tokens = { inputTokens: 1_000_000, outputTokens: 0, cacheWriteTokens: 0, cacheReadTokens: 0 };
+    expect(estimateCost('claude-next', tokens)).toBe(3);
+  });
+});
+
+describe('recordUsage', () => {
+  it('stores tokens and cost under the sender, by time', async () => {
+    const record = await recordUsage({ chatId: 'chat_1', handle: HANDLE }, 'chat', SONNET, usage(2000, 300, 500, null));
+
+    expect(record).toMatchObject({
+      chatId: 'chat_1', handle: HANDLE, model: SONNET, purpose: 'chat',
+      inputTokens: 2000, outputTokens: 300, cacheWriteTokens: 500, cacheReadTokens: 0, createdAt: '2030-06-01T12:00:00.000Z',
+    });
+    expect(record!.costUsd).toBeCloseTo((2000 * 3 + 300 * 15 + 500 * 3.75) / 1_000_000);
+    expect(mockPutItem).toHaveBeenCalledWith(`USER#${HANDLE}`, expect.stringMatching(/^USAGE#2030-06-01T12:00:00\.000Z#/), expect.any(Object), 90 * 24 * 60 * 60);
+  });
+
+  it('keeps calls without a sender under the chat', async () => {
+    await recordUsage({ chatId: 'chat_1' }, 'summary', HAIKU, usage(100, 10));
+    expect(mockPutItem.mock.calls[0][0]).toBe('CHAT#chat_1');
+  });
+
+  it('returns null instead of throwing when the write fails', async () => {
+    mockPutItem.mockRejectedValueOnce(new Error('ddb down'));
+    expect(await recordUsage({ chatId: 'chat_1', handle: HANDLE }, 'chat', SONNET, usage(1, 1))).toBeNull();
+  });
+});
+
+describe('rollups', () => {
+  it('totals and groups by any field, most expensive first', async () => {
+    await recordUsage({ chatId: 'chat_1', handle: HANDLE }, 'chat', SONNET, usage(1000, 100));
+    await recordUsage({ chatId: 'chat_1', handle: HANDLE }, 'group_triage', HAIKU, usage(500, 5));
+    await recordUsage({ chatId: 'chat_2', handle: HANDLE }, 'chat', SONNET, usage(3000, 200));
+
+    const records = await listUsage(HANDLE);
+    expect(totalUsage(records)).toMatchObject({ calls: 3, inputTokens: 4500, outputTokens: 305 });
+    expect(usageBy(records, r => r.chatId).map(g => [g.key, g.calls])).toEqual([['chat_2', 1], ['chat_1', 2]]);
+    expect(usageBy(records, r => r.purpose).map(g => g.key)).toEqual(['chat', 'group_triage']);
+  });
+});
+
+describe('checkBudget', () => {
+  it('degrades past the soft limit and stops at the cap, counting only today', async () => {
+    // Yesterday's spend doesn't count
+    vi.setSystemTime(new Date('2030-05-31T23:00:00Z'));
+    await recordUsage({ chatId: 'chat_1', handle: HANDLE }, 'chat', SONNET, usage(0, 10_000)); // $0.15
+    vi.setSystemTime(new Date('2030-06-01T12:00:00Z'));
+    expect(await checkBudget(HANDLE)).toEqual({ level: 'ok', spentUsd: 0, budgetUsd: 0.1 });
+
+    await recordUsage({ chatId: 'chat_1', handle: HANDLE }, 'chat', SONNET, usage(0, 4000)); // $0.06
+    expect((await checkBudget(HANDLE)).level).toBe('degraded');
+
+    await recordUsage({ chatId: 'chat_1', handle: HANDLE }, 'chat', HAIKU, usage(0, 12_000)); // $0.048
+    expect((await checkBudget(HANDLE)).level).toBe('exhausted');
+    expect(mockQueryByPk).toHaveBeenLastCalledWith(`USER#${HANDLE}`, 'USAGE#2030-06-01');
+  });
+
+  it('levels any spend, so a turn can count its own calls', () => {
+    expect(budgetLevel(0.049)).toBe('ok');
+    expect(budgetLevel(0.05)).toBe('degraded');
+    expect(budgetLevel(0.1)).toBe('exhausted');
+  });
+
+  it('lets the user through when the lookup fails', async () => {
+    mockQueryByPk.mockRejectedValueOnce(new Error('ddb down'));
+    expect((await checkBudget(HANDLE)).level).toBe('ok');
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { timeToMinutes, isWithinWindow, formatTime, addDays, zonedTimeToUtc, utcOffsetAt, toZonedWallClock } from '../../utils/time.js';
+
+describe('time helpers', () => {
+  it('timeToMinutes parses HH:MM', () => {
+    expect(timeToMinutes('19:30')).toBe(1170);
+    expect(timeToMinutes('7')).toBe(420);
+  });
+
+  it('isWithinWindow is inclusive and matches everything without a window', () => {
+    const window = { start: '19:00', end: '21:00' };
+    expect(isWithinWindow('19:00', window)).toBe(true);
+    expect(isWithinWindow('21:00', window)).toBe(true);
+    expect(isWithinWindow('21:15', window)).toBe(false);
+    expect(isWithinWindow('03:00')).toBe(true);
+  });
+
+  it('formatTime renders texting-style times', () => {
+    expect(formatTime('19:00')).toBe('7pm');
+    expect(formatTime('12:15')).toBe('12:15pm');
+    expect(formatTime('00:30')).toBe('12:30am');
+  });
+
+  it('addDays crosses month boundaries', () => {
+    expect(addDays('2030-03-01', -1)).toBe('2030-02-28');
+    expect(addDays('2030-12-31', 1)).toBe('2031-01-01');
+  });
+
+  it('zonedTimeToUtc respects DST', () => {
+    expect(zonedTimeToUtc('2030-07-01', '10:00', 'America/New_York').toISOString()).toBe('2030-07-01T14:00:00.000Z');
+    expect(zonedTimeToUtc('2030-01-15', '10:00', 'America/New_York').toISOString()).toBe('2030-01-15T15:00:00.000Z');
+    expect(zonedTimeToUtc('2030-01-15', '09:00', 'America/Los_Angeles').toISOString()).toBe('2030-01-15T17:00:00.000Z');
+  });
+
+  it('utcOffsetAt reports the venue offset for a wall-clock time', () => {
+    expect(utcOffsetAt('2030-06-07', '19:00', 'America/Los_Angeles')).toBe('-07:00');
+    expect(utcOffsetAt('2030-12-07', '19:00', 'America/Los_Angeles')).toBe('-08:00');
+    expect(utcOffsetAt('2030-06-07', '19:00', 'Asia/Kolkata')).toBe('+05:30');
+    expect(utcOffsetAt('2030-06-07', '19:00', 'Not/AZone')).toBeUndefined();
+  });
+
+  it('toZonedWallClock converts an instant to local date and time', () => {
+    expect(toZonedWallClock(new Date('2030-06-08T02:00:00Z'), 'America/Los_Angeles')).toEqual({ date: '2030-06-07', time: '19:00' });
+  });
+});
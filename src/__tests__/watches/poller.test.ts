@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AvailabilityWatch } from '../../watches/types.js';
+
+// ── Mocks ────────────────────────────────────────────────────────────────────
+
+const mockListWatches = vi.fn();
+const mockUpdateWatch = vi.fn().mockResolvedValue(undefined);
+
+vi.mock('../../watches/db.js', () => ({
+  listWatches: (...args: unknown[]) => mockListWatches(...args),
+  updateWatch: (...args: unknown[]) => mockUpdateWatch(...args),
+}));
+
+const mockFindSlots = vi.fn();
+const mockBookSlot = vi.fn();
+
+vi.mock('../../bookings/index.js', async () => ({
+  findSlots: (...args: unknown[]) => mockFindSlots(...args),
+  bookSlot: (...args: unknown[]) => mockBookSlot(...args),
+  filterSlots: (await vi.importActual<typeof import('../../bookings/filters.js')>('../../bookings/filters.js')).filterSlots,
+  ResyAuthError: class ResyAuthError extends Error {},
+  ResySlotTakenError: (await vi.importActual<typeof import('../../bookings/errors.js')>('../../bookings/errors.js')).ResySlotTakenError,
+  ResyFeeConsentError: class ResyFeeConsentError extends Error {},
+}));
+
+const mockRecordLedgerEntry = vi.fn().mockResolvedValue(null);
+vi.mock('../../ledger/index.js', async () => ({
+  recordLedgerEntry: (...args: unknown[]) => mockRecordLedgerEntry(...args),
+  bookingEntry: (await vi.importActual<typeof import('../../ledger/db.js')>('../../ledger/db.js')).bookingEntry,
+}));
+
+const mockLoadUserContext = vi.fn();
+vi.mock('../../auth/index.js', () => ({
+  loadUserContext: (...args: unknown[]) => mockLoadUserContext(...args),
+}));
+
+const mockSendMessage = vi.fn().mockResolvedValue({});
+vi.mock('../../linq/client.js', () => ({
+  sendMessage: (...args: unknown[]) => mockSendMessage(...args),
+}));
+
+const mockAddMessage = vi.fn().mockResolvedValue(undefined);
+vi.mock('../../state/conversation.js', () => ({
+  addMessage: (...args: unknown[]) => mockAddMessage(...args),
+}));
+
+import { pollWatches, matchingSlots } from '../../watches/poller.js';
+
+function makeWatch(overrides: Partial<AvailabilityWatch> = {}): AvailabilityWatch {
+  return {
+    id: 'w1',
+    handle: '+14155551234',
+    chatId: 'chat_1',
+    venueId: 123,
+    venueName: 'Carbone',
+    date: '2030-06-07',
+    partySize: 2,
+    timeWindow: { start: '19:00', end: '21:00' },
+    autoBook: false,
+    status: 'active',
+    createdAt: new Date().toISOString(),
+    ...overrides,
+  };
+}
+
+function slot(time: string, type = 'Dining Room') {
+  return { config_token: `cfg_${time}`, date: '2030-06-07', time, party_size: 2, type };
+}
+
+const NOW = new Date('2030-06-01T12:00:00Z');
+
+function confirmation() {
+  return {
+    resy_token: 'rr://abc', reservation_id: 1, venue_name: 'Carbone',
+    venue_url: 'https://resy.com/cities/new-york-ny/carbone', date: '2030-06-07',
+    time: '20:00', party_size: 2, type: 'Dining Room',
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockLoadUserContext.mockResolvedValue({
+    user: { phoneNumber: '+14155551234' },
+    bookingsCredentials: { resyAuthToken: 'tok' },
+  });
+});
+
+describe('matchingSlots', () => {
+  it('filters by time window and seating type', () => {
+    const watch = makeWatch({ seatingType: 'dining room' });
+    const slots = [slot('18:30'), slot('19:00'), slot('20:00', 'Bar'), slot('21:00'), slot('21:15')];
+    expect(matchingSlots(watch, slots).map(s => s.time)).toEqual(['19:00', '21:00']);
+  });
+});
+
+describe('pollWatches', () => {
+  it('texts the user when a matching slot opens', async () => {
+    mockListWatches.mockResolvedValue([makeWatch()]);
+    mockFindSlots.mockResolvedValue([slot('17:00'), slot('19:30')]);
+
+    const summary = await pollWatches(NOW);
+
+    expect(summary).toEqual({ checked: 1, matched: 1, expired: 0 });
+    expect(mockSendMessage).toHaveBeenCalledWith('chat_1', expect.stringContaining('7:30pm'));
+    expect(mockUpdateWatch).toHaveBeenCalledWith('+14155551234', 'w1', { status: 'notified' });
+    expect(mockBookSlot).not.toHaveBeenCalled();
+    expect(mockRecordLedgerEntry).not.toHaveBeenCalled();
+  });
+
+  it('leaves the watch active when nothing matches', async () => {
+    mockListWatches.mockResolvedValue([makeWatch()]);
+    mockFindSlots.mockResolvedValue([slot('17:00')]);
+
+    const summary = await pollWatches(NOW);
+
+    expect(summary.matched).toBe(0);
+    expect(mockSendMessage).not.toHaveBeenCalled();
+    expect(mockUpdateWatch).not.toHaveBeenCalledWith('+14155551234', 'w1', { status: 'notified' });
+  });
+
+  it('auto-books when requested', async () => {
+    mockListWatches.mockResolvedValue([makeWatch({ autoBook: true })]);
+    mockFindSlots.mockResolvedValue([slot('20:00')]);
+    mockBookSlot.mockResolvedValue(confirmation());
+
+    await pollWatches(NOW);
+
+    expect(mockBookSlot).toHaveBeenCalledWith('tok', slot('20:00'), { maxFees: undefined });
+    expect(mockUpdateWatch).toHaveBeenCalledWith('+14155551234', 'w1', { status: 'booked' });
+    expect(mockRecordLedgerEntry).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'book', reservationToken: 'rr://abc', source: 'watch', sourceId: 'w1', chatId: 'chat_1', venueId: 123, time: '20:00',
+    }));
+  });
+
+  it('auto-books only the watched seating, moving on when a slot is taken', async () => {
+    const { ResySlotTakenError } = await import('../../bookings/errors.js');
+    mockListWatches.mockResolvedValue([makeWatch({ autoBook: true, seatingType: 'Dining Room' })]);
+    mockFindSlots.mockResolvedValue([slot('19:00', 'Bar'), slot('19:30'), slot('20:00')]);
+    mockBookSlot
+      .mockRejectedValueOnce(new ResySlotTakenError(412, 'gone'))
+      .mockResolvedValueOnce(confirmation());
+
+    await pollWatches(NOW);
+
+    expect(mockBookSlot.mock.calls.map(c => c[1])).toEqual([slot('19:30'), slot('20:00')]);
+    expect(mockSendMessage).toHaveBeenCalledWith('chat_1', expect.stringContaining('at 8pm'));
+    expect(mockUpdateWatch).toHaveBeenCalledWith('+14155551234', 'w1', { status: 'booked' });
+  });
+
+  it('keeps an auto-booked watch booked when texting the user fails', async () => {
+    mockListWatches.mockResolvedValue([makeWatch({ autoBook: true })]);
+    mockFindSlots.mockResolvedValue([slot('20:00')]);
+    mockBookSlot.mockResolvedValue(confirmation());
+    mockSendMessage.mockRejectedValueOnce(new Error('Linq API 503'));
+
+    const summary = await pollWatches(NOW);
+
+    expect(summary).toEqual({ checked: 1, matched: 1, expired: 0 });
+    expect(mockBookSlot).toHaveBeenCalledTimes(1);
+    expect(mockUpdateWatch).toHaveBeenCalledWith('+14155551234', 'w1', { status: 'booked' });
+    expect(mockUpdateWatch).not.toHaveBeenCalledWith('+14155551234', 'w1', { status: 'notified' });
+    expect(mockRecordLedgerEntry).toHaveBeenCalledTimes(1);
+    expect(mockSendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps a watch until midnight at the venue', async () => {
+    // 01:00 UTC on the 8th is still the evening of the 7th in Los Angeles
+    const lateNight = new Date('2030-06-08T01:00:00Z');
+    mockListWatches.mockResolvedValue([makeWatch({ timezone: 'America/Los_Angeles' })]);
+    mockFindSlots.mockResolvedValue([{ ...slot('17:00'), timezone: 'America/Los_Angeles' }]);
+
+    expect((await pollWatches(lateNight)).expired).toBe(0);
+    expect(mockFindSlots).toHaveBeenCalled();
+
+    mockListWatches.mockResolvedValue([makeWatch({ timezone: 'America/Los_Angeles' })]);
+    expect((await pollWatches(new Date('2030-06-08T08:00:00Z'))).expired).toBe(1);
+  });
+
+  it('learns the venue timezone from the slots', async () => {
+    mockListWatches.mockResolvedValue([makeWatch()]);
+    mockFindSlots.mockResolvedValue([{ ...slot('17:00'), timezone: 'America/Chicago' }]);
+
+    await pollWatches(NOW);
+
+    expect(mockUpdateWatch).toHaveBeenCalledWith('+14155551234', 'w1', { lastCheckedAt: NOW.toISOString(), timezone: 'America/Chicago' });
+  });
+
+  it('expires watches whose date has passed', async () => {
+    mockListWatches.mockResolvedValue([makeWatch({ date: '2030-05-01' })]);
+
+    const summary = await pollWatches(NOW);
+
+    expect(summary.expired).toBe(1);
+    expect(mockFindSlots).not.toHaveBeenCalled();
+    expect(mockUpdateWatch).toHaveBeenCalledWith('+14155551234', 'w1', { status: 'expired' });
+  });
+
+  it('keeps going when one watch fails', async () => {
+    mockListWatches.mockResolvedValue([makeWatch({ id: 'bad' }), makeWatch({ id: 'good' })]);
+    mockFindSlots
+      .mockRejectedValueOnce(new Error('Resy API 500'))
+      .mockResolvedValueOnce([slot('19:00')]);
+
+    const summary = await pollWatches(NOW);
+
+    expect(summary.checked).toBe(1);
+    expect(summary.matched).toBe(1);
+  });
+});
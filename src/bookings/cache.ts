@@ -0,0 +1,94 @@
+// Read-through cache for Resy lookup data. Always in-memory per container;
+// set RESY_CACHE_DYNAMODB=true to share longer-lived entries across containers.
+// Only lookups go through here — booking, cancelling and anything that must
+// see live inventory call Resy directly.
+
+import { getItem, putItem } from '../db/dynamodb.js';
+
+export type CacheKind = 'search' | 'venue' | 'slots';
+
+/** How long each kind of data stays fresh, in seconds. */
+export const CACHE_TTL_S: Record<CacheKind, number> = {
+  venue: 6 * 60 * 60, // address, policies, seating types barely change
+  search: 10 * 60,
+  slots: 30,          // availability moves fast
+};
+
+// Entries shorter-lived than this aren't worth a DynamoDB round trip
+const DYNAMO_MIN_TTL_S = 60;
+const MAX_MEMORY_ENTRIES = 500;
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number; // epoch ms
+}
+
+const memory = new Map<string, CacheEntry>();
+
+function useDynamo(kind: CacheKind): boolean {
+  return process.env.RESY_CACHE_DYNAMODB === 'true' && CACHE_TTL_S[kind] >= DYNAMO_MIN_TTL_S;
+}
+
+// Re-inserted on every store and hit, so Map's insertion order is recency
+// order and the first key is the least recently used
+function remember(id: string, entry: CacheEntry): void {
+  memory.delete(id);
+  memory.set(id, entry);
+  if (memory.size > MAX_MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value!);
+  }
+}
+
+async function readDynamo(kind: CacheKind, key: string, now: number): Promise<CacheEntry | null> {
+  try {
+    const entry = await getItem<CacheEntry>(`RESYCACHE#${kind}`, key);
+    // DynamoDB TTL deletes lazily, so check expiry ourselves
+    return entry && entry.expiresAt > now ? entry : null;
+  } catch (error) {
+    console.warn(`[resy] Cache read failed for ${kind} ${key}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+async function writeDynamo(kind: CacheKind, key: string, entry: CacheEntry): Promise<void> {
+  try {
+    await putItem(`RESYCACHE#${kind}`, key, { ...entry }, CACHE_TTL_S[kind]);
+  } catch (error) {
+    console.warn(`[resy] Cache write failed for ${kind} ${key}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Return the cached value for `kind`/`key` if it's still fresh, otherwise
+ * load it, cache it and return it. Callers get their own copy, so mutating
+ * a result never touches the cache.
+ */
+export async function cached<T>(kind: CacheKind, key: string, load: () => Promise<T>): Promise<T> {
+  const id = `${kind}:${key}`;
+  const now = Date.now();
+
+  const hit = memory.get(id);
+  if (hit && hit.expiresAt > now) {
+    remember(id, hit);
+    return structuredClone(hit.value) as T;
+  }
+
+  if (useDynamo(kind)) {
+    const stored = await readDynamo(kind, key, now);
+    if (stored) {
+      remember(id, stored);
+      return structuredClone(stored.value) as T;
+    }
+  }
+
+  const value = await load();
+  const entry: CacheEntry = { value: structuredClone(value), expiresAt: now + CACHE_TTL_S[kind] * 1000 };
+  remember(id, entry);
+  if (useDynamo(kind)) await writeDynamo(kind, key, entry);
+  return value;
+}
+
+/** Drop every in-memory entry (the DynamoDB tier expires on its own). */
+export function clearResyCache(): void {
+  memory.clear();
+}
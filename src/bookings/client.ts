@@ -5,18 +5,60 @@
  * The RESY_API_KEY is a public key embedded in Resy's frontend.
  */
 
-import type { ResyVenue, ResyTimeSlot, ResyBookingConfirmation, ResyReservation, ResyCancellationResult } from './types.js';
-
-const RESY_BASE_URL = 'https://api.resy.com';
+import type { ResyVenue, ResyVenueDetails, ResyTimeSlot, ResyBookingConfirmation, ResyBookingTerms, FeeLimits, ResyPaymentMethod, ResyBookingNotes, ResyReservation, ResyPastReservation, ResyHistoryPage, ResyCancellationResult, ResySlotRange, ResyDayAvailability, ResyVenueAvailability, ResyAvailabilityComparison, ResyModificationResult } from './types.js';
+import { RESY_OCCASIONS } from './types.js';
+import { filterSlots, matchesVenueFilters, applySeatingPreference, seatingRank, describeSeatingPreference } from './filters.js';
+import type { SlotCriteria, SeatingPreference, VenueFilters } from './filters.js';
+import { timeToMinutes, addDays, utcOffsetAt, toZonedWallClock } from '../utils/time.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { ResyAuthError, ResyApiError, ResyRateLimitError, ResyUpstreamError, ResyCircuitOpenError, classifyResyError, parseRetryAfter, describeResyError } from './errors.js';
+import { CircuitBreaker, backoffDelay, sleep } from './resilience.js';
+import { cached } from './cache.js';
+import type { RetryPolicy } from './resilience.js';
+
+// Override to point at a local stand-in (npm run mock:resy)
+const RESY_BASE_URL = process.env.RESY_BASE_URL || 'https://api.resy.com';
 const RESY_API_KEY = process.env.RESY_API_KEY || 'VbWk7s3L4KiK5fzlO7JD3Q5EYolJI7n5';
 
 // Default geo: NYC
 const DEFAULT_LAT = 40.7128;
 const DEFAULT_LNG = -73.9876;
 
-function timeToMinutes(time: string): number {
-  const [h, m] = time.split(':').map(Number);
-  return h * 60 + (m || 0);
+// Range search fan-out limits
+const MAX_RANGE_DAYS = 14;
+const RANGE_CONCURRENCY = 4;
+
+// Reservation listing page sizes
+const MAX_UPCOMING = 50;
+const HISTORY_PAGE_SIZE = 50;
+
+// Multi-venue comparison limits
+const MAX_COMPARE_VENUES = 10;
+
+// Filtered searches pull a bigger page so there's something left after filtering,
+// and check live availability for at most this many candidates
+const FILTERED_SEARCH_PAGE_SIZE = 50;
+const MAX_AVAILABILITY_CHECKS = 15;
+const COMPARE_CONCURRENCY = 4;
+const COMPARE_ALTERNATIVES = 3;
+
+// 429s (any method) and 5xx/timeouts (reads only) are retried with jittered backoff
+const RESY_RETRY: RetryPolicy = { maxRetries: 2, baseDelayMs: 250, maxDelayMs: 5_000 };
+
+// One breaker per endpoint, shared across users: repeated upstream failures
+// mean that part of Resy is down, not one account — and a failing search
+// shouldn't also pause bookings. Counted per request, not per retry
+const RESY_CIRCUIT = { threshold: 3, cooldownMs: 30_000 };
+const resyCircuits = new Map<string, CircuitBreaker>();
+
+function circuitFor(method: string, path: string): CircuitBreaker {
+  const endpoint = `${method} ${path.split('?')[0]}`;
+  let circuit = resyCircuits.get(endpoint);
+  if (!circuit) {
+    circuit = new CircuitBreaker(RESY_CIRCUIT.threshold, RESY_CIRCUIT.cooldownMs);
+    resyCircuits.set(endpoint, circuit);
+  }
+  return circuit;
 }
 
 async function resyFetch(authToken: string, path: string, options: RequestInit = {}): Promise<Response> {
@@ -37,32 +79,116 @@ async function resyFetch(authToken: string, path: string, options: RequestInit =
     headers['content-type'] = 'application/json';
   }
 
-  const res = await fetch(`${RESY_BASE_URL}${path}`, {
-    ...options,
-    headers,
-    signal: AbortSignal.timeout(15_000),
-  });
+  // Writes aren't retried on 5xx/timeouts — Resy may have acted before failing
+  const idempotent = method === 'GET' || method === 'HEAD';
+  const circuit = circuitFor(method, path);
+
+  for (let attempt = 0; ; attempt++) {
+    const openUntil = circuit.openUntil();
+    if (openUntil) throw new ResyCircuitOpenError(openUntil);
+
+    let error: ResyApiError;
+    try {
+      const res = await fetch(`${RESY_BASE_URL}${path}`, {
+        ...options,
+        headers,
+        signal: AbortSignal.timeout(15_000),
+      });
+      if (res.ok) {
+        circuit.recordSuccess();
+        return res;
+      }
 
-  if (!res.ok) {
-    const body = await res.text();
+      const body = await res.text();
+
+      // Detect expired/invalid auth token — Resy returns 419 or sometimes 500 on bad tokens
+      if (res.status === 419 || (res.status === 500 && /unauthorized|auth|token/i.test(body))) {
+        circuit.recordSuccess();
+        throw new ResyAuthError(`Your Resy session has expired. Text "sign out" then reconnect your account to refresh it.`);
+      }
 
-    // Detect expired/invalid auth token — Resy returns 419 or sometimes 500 on bad tokens
-    if (res.status === 419 || (res.status === 500 && /unauthorized|auth|token/i.test(body))) {
-      throw new ResyAuthError(`Your Resy session has expired. Text "sign out" then reconnect your account to refresh it.`);
+      error = classifyResyError(res.status, body, parseRetryAfter(res.headers.get('retry-after')));
+    } catch (fetchError) {
+      if (fetchError instanceof ResyAuthError) throw fetchError;
+      // Timeout or network failure — no response at all
+      error = new ResyUpstreamError(0, fetchError instanceof Error ? fetchError.message : String(fetchError));
     }
 
-    throw new Error(`Resy API ${res.status}: ${body}`);
+    const retryable = error instanceof ResyRateLimitError || (error instanceof ResyUpstreamError && idempotent);
+    if (!retryable || attempt >= RESY_RETRY.maxRetries) {
+      if (error instanceof ResyUpstreamError) circuit.recordFailure();
+      else circuit.recordSuccess();
+      throw error;
+    }
+
+    const delay = backoffDelay(attempt, RESY_RETRY, error instanceof ResyRateLimitError ? error.retryAfterMs : undefined);
+    console.warn(`[resy] ${method} ${path} failed with ${error.status || 'no response'}, retry ${attempt + 1}/${RESY_RETRY.maxRetries} in ${delay}ms`);
+    await sleep(delay);
+  }
+}
+
+/**
+ * Thrown instead of booking when a slot carries a deposit or fees the user
+ * hasn't explicitly accepted. Carries the terms so they can be shown.
+ */
+export class ResyFeeConsentError extends Error {
+  constructor(public readonly terms: ResyBookingTerms) {
+    super(`Not booked: this slot has fees or a deposit the user hasn't agreed to (${describeTerms(terms)}). Show the user these terms and only retry with accept_fees once they agree.`);
+    this.name = 'ResyFeeConsentError';
+  }
+}
+
+/**
+ * Thrown instead of booking when tables are open but none in an acceptable
+ * seating type. Carries what is open so the user can decide.
+ */
+export class SeatingUnavailableError extends Error {
+  constructor(public readonly availableTypes: string[], preference: SeatingPreference) {
+    super(`No ${describeSeatingPreference(preference)} seating is open — only ${availableTypes.join(', ')}. Nothing was booked; ask the user if one of those works.`);
+    this.name = 'SeatingUnavailableError';
   }
+}
+
+export interface BookingOptions {
+  paymentMethodId?: number; // defaults to the user's default card
+  acceptFees?: boolean;     // required when the slot has a deposit or fees
+  maxFees?: FeeLimits;      // or: fees the user agreed to up front, booked only if the slot is within them
+  notes?: ResyBookingNotes; // occasion / special request sent to the venue
+}
+
+// Resy truncates longer special requests on the venue's side
+const SPECIAL_REQUEST_MAX = 250;
 
-  return res;
+/** True if booking this slot can cost the user money. */
+export function hasFees(terms: ResyBookingTerms): boolean {
+  return !!(terms.deposit || terms.cancellation_fee || terms.no_show_fee);
 }
 
-/** Thrown when the user's Resy auth token is expired or invalid. */
-export class ResyAuthError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'ResyAuthError';
+/** True if every fee on this slot is at or under the user's limits (missing limits mean none allowed). */
+export function feesWithin(terms: ResyBookingTerms, limits: FeeLimits): boolean {
+  return (terms.deposit ?? 0) <= (limits.deposit ?? 0)
+    && (terms.cancellation_fee ?? 0) <= (limits.cancellation_fee ?? 0)
+    && (terms.no_show_fee ?? 0) <= (limits.no_show_fee ?? 0);
+}
+
+/** One-line summary of fee terms, e.g. "$50 deposit, $25 late-cancel fee before ...". */
+export function describeTerms(terms: ResyBookingTerms): string {
+  const parts: string[] = [];
+  if (terms.deposit) parts.push(`$${terms.deposit} deposit`);
+  if (terms.cancellation_fee) {
+    parts.push(`$${terms.cancellation_fee} cancellation fee${terms.cancellation_cutoff ? ` if cancelled after ${terms.cancellation_cutoff}` : ''}`);
   }
+  if (terms.no_show_fee) parts.push(`$${terms.no_show_fee} no-show fee`);
+  return parts.length > 0 ? parts.join(', ') : 'no fees';
+}
+
+/** The user's fee limits in words, e.g. "up to $25 deposit, $25 no-show fee". */
+export function describeFeeLimits(limits: FeeLimits = {}): string {
+  const parts: string[] = [];
+  if (limits.deposit) parts.push(`$${limits.deposit} deposit`);
+  if (limits.cancellation_fee) parts.push(`$${limits.cancellation_fee} cancellation fee`);
+  if (limits.no_show_fee) parts.push(`$${limits.no_show_fee} no-show fee`);
+  return parts.length > 0 ? `up to ${parts.join(', ')}` : 'no fees';
 }
 
 /**
@@ -71,21 +197,38 @@ export class ResyAuthError extends Error {
 export async function searchRestaurants(
   authToken: string,
   query: string,
-  geo?: { lat: number; lng: number }
+  geo?: { lat: number; lng: number },
+  filters: VenueFilters = {}
 ): Promise<ResyVenue[]> {
   const lat = geo?.lat ?? DEFAULT_LAT;
   const lng = geo?.lng ?? DEFAULT_LNG;
+  const filtered = Object.values(filters).some(v => v !== undefined && v !== '');
 
-  console.log(`[resy] Searching for "${query}" near (${lat}, ${lng})`);
+  console.log(`[resy] Searching for "${query}" near (${lat}, ${lng})${filtered ? ` with filters ${JSON.stringify(filters)}` : ''}`);
 
-  const res = await resyFetch(authToken, '/3/venuesearch/search', {
-    method: 'POST',
-    body: JSON.stringify({
-      geo: { latitude: lat, longitude: lng },
-      query,
-      types: ['venue'],
+  const body = JSON.stringify({
+    geo: { latitude: lat, longitude: lng },
+    query,
+    types: ['venue'],
+    ...(filtered && { per_page: FILTERED_SEARCH_PAGE_SIZE }),
+    ...(filters.availability && {
+      slot_filter: { day: filters.availability.date, party_size: filters.availability.partySize },
     }),
   });
+  const venues = await cached('search', body, () => fetchSearchResults(authToken, body));
+
+  if (!filtered) return venues;
+
+  const matching = venues.filter(venue => matchesVenueFilters(venue, filters));
+  const matched = filters.availability
+    ? await withAvailability(authToken, matching, filters.availability, geo)
+    : matching;
+  console.log(`[resy] ${matched.length} of ${venues.length} venues match filters`);
+  return matched;
+}
+
+async function fetchSearchResults(authToken: string, body: string): Promise<ResyVenue[]> {
+  const res = await resyFetch(authToken, '/3/venuesearch/search', { method: 'POST', body });
 
   const data = await res.json() as {
     search: {
@@ -124,18 +267,269 @@ export async function searchRestaurants(
 }
 
 /**
- * Find available time slots for a venue on a given day.
+ * Keep only venues with an open slot for the date, party size and time window,
+ * annotated with those times. A venue whose lookup fails is dropped — we can't
+ * claim it has a table.
+ */
+async function withAvailability(
+  authToken: string,
+  venues: ResyVenue[],
+  availability: NonNullable<VenueFilters['availability']>,
+  geo?: { lat: number; lng: number }
+): Promise<ResyVenue[]> {
+  const candidates = venues.slice(0, MAX_AVAILABILITY_CHECKS);
+  const checked = await mapWithConcurrency(candidates, COMPARE_CONCURRENCY, async (venue): Promise<ResyVenue | null> => {
+    try {
+      const slots = filterSlots(
+        await findSlots(authToken, venue.venue_id, availability.date, availability.partySize, geo, undefined, { cached: true }),
+        { timeWindow: availability.timeWindow },
+      );
+      if (slots.length === 0) return null;
+      return { ...venue, available_times: [...new Set(slots.map(s => s.time))].sort() };
+    } catch (error) {
+      if (error instanceof ResyAuthError) throw error;
+      console.error(`[resy] Availability check failed for venue ${venue.venue_id}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  });
+  return checked.filter((venue): venue is ResyVenue => venue !== null);
+}
+
+/** Raw /3/venue payload — only the fields we read. */
+interface RawResyVenue {
+  id: { resy: number };
+  name: string;
+  url_slug: string;
+  type?: string;
+  cuisine?: string[];
+  price_range_id?: number;
+  price_range?: number;
+  rating?: number | { average?: number };
+  tagline?: string;
+  contact?: { phone_number?: string; url?: string };
+  location?: {
+    address_1?: string;
+    address_2?: string;
+    locality?: string;
+    region?: string;
+    postal_code?: string;
+    neighborhood?: string;
+    latitude?: number;
+    longitude?: number;
+    time_zone?: string;
+    url_slug?: string;
+  };
+  content?: Array<{ name: string; title?: string; body: string | null }>;
+  templates?: Record<string, { name?: string; display_config?: { name?: string } }>;
+  cancellation_policy?: string;
+  deposit_policy?: string;
+}
+
+function contentBody(raw: RawResyVenue, pattern: RegExp): string | undefined {
+  const entry = raw.content?.find(c => pattern.test(c.name) || (c.title && pattern.test(c.title)));
+  return entry?.body?.trim() || undefined;
+}
+
+/**
+ * Get a venue's full profile: address, coordinates, timezone, description,
+ * cancellation/deposit policy and bookable seating types.
+ */
+export async function getVenue(authToken: string, venueId: number): Promise<ResyVenueDetails> {
+  return cached('venue', String(venueId), () => fetchVenue(authToken, venueId));
+}
+
+async function fetchVenue(authToken: string, venueId: number): Promise<ResyVenueDetails> {
+  console.log(`[resy] Fetching venue ${venueId}`);
+
+  const res = await resyFetch(authToken, `/3/venue?${new URLSearchParams({ id: venueId.toString() })}`, { method: 'GET' });
+  const raw = await res.json() as RawResyVenue;
+
+  // Unlisted and pop-up venues can come back without a location
+  const loc: NonNullable<RawResyVenue['location']> = raw.location ?? {};
+  const citySlug = loc.url_slug || (loc.locality || 'new-york').toLowerCase().replace(/\s+/g, '-');
+  const line1 = loc.address_1 || '';
+  const full = [line1, loc.address_2, loc.locality, [loc.region, loc.postal_code].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ');
+
+  let seatingTypes = Object.values(raw.templates || {})
+    .map(t => t.display_config?.name || t.name)
+    .filter((name): name is string => !!name);
+  if (seatingTypes.length === 0) {
+    // Fall back to whatever today's inventory shows
+    try {
+      const today = new Date().toISOString().slice(0, 10);
+      const slots = await findSlots(authToken, venueId, today, 2, loc.latitude && loc.longitude ? { lat: loc.latitude, lng: loc.longitude } : undefined, undefined, { cached: true });
+      seatingTypes = slots.map(s => s.type);
+    } catch (error) {
+      if (error instanceof ResyAuthError) throw error;
+      console.error(`[resy] Couldn't sample seating types for venue ${venueId}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return {
+    venue_id: raw.id.resy,
+    name: raw.name,
+    location: {
+      city: loc.locality ?? '',
+      state: loc.region ?? '',
+      neighborhood: loc.neighborhood,
+    },
+    cuisine: raw.cuisine || (raw.type ? [raw.type] : []),
+    price_range: raw.price_range_id ?? raw.price_range ?? 0,
+    rating: typeof raw.rating === 'number' ? raw.rating : raw.rating?.average,
+    url_slug: raw.url_slug,
+    url: `https://resy.com/cities/${citySlug}/${raw.url_slug}`,
+    address: {
+      line1,
+      line2: loc.address_2 || undefined,
+      postal_code: loc.postal_code,
+      full,
+    },
+    coordinates: loc.latitude !== undefined && loc.longitude !== undefined ? { lat: loc.latitude, lng: loc.longitude } : undefined,
+    timezone: loc.time_zone,
+    phone: raw.contact?.phone_number,
+    website: raw.contact?.url,
+    tagline: raw.tagline,
+    description: contentBody(raw, /about|why_we_like/i),
+    need_to_know: contentBody(raw, /need_to_know/i),
+    policies: {
+      cancellation: raw.cancellation_policy || contentBody(raw, /cancel/i),
+      deposit: raw.deposit_policy || contentBody(raw, /deposit|payment/i),
+    },
+    seating_types: [...new Set(seatingTypes)],
+  };
+}
+
+/** Raw /2/user payment method — only the fields we read. */
+interface RawPaymentMethod {
+  id: number;
+  is_default: boolean;
+  type?: string;
+  provider_name?: string;
+  card_type?: string;
+  display?: string;   // e.g. "4242"
+  last_4?: string;
+  exp_month?: number;
+  exp_year?: number;
+}
+
+function maskPaymentMethod(pm: RawPaymentMethod): ResyPaymentMethod {
+  const last4 = (pm.last_4 || pm.display || '').replace(/\D/g, '').slice(-4);
+  return {
+    id: pm.id,
+    brand: pm.card_type || pm.provider_name || pm.type || 'Card',
+    last4: last4 || '????',
+    expires: pm.exp_month && pm.exp_year ? `${pm.exp_month.toString().padStart(2, '0')}/${pm.exp_year.toString().slice(-2)}` : undefined,
+    is_default: !!pm.is_default,
+  };
+}
+
+async function fetchPaymentMethods(authToken: string): Promise<RawPaymentMethod[]> {
+  const userRes = await resyFetch(authToken, '/2/user', { method: 'GET' });
+  const userData = await userRes.json() as { payment_methods?: RawPaymentMethod[] };
+  return userData.payment_methods || [];
+}
+
+/**
+ * List the user's saved payment methods (masked — never the full card).
+ */
+export async function getPaymentMethods(authToken: string): Promise<ResyPaymentMethod[]> {
+  console.log('[resy] Fetching payment methods');
+  return (await fetchPaymentMethods(authToken)).map(maskPaymentMethod);
+}
+
+/** Raw /3/details fee fields — only the ones we read. */
+interface RawDetailsTerms {
+  cancellation?: {
+    fee?: { amount?: number; date_cut_off?: string } | null;
+    no_show?: { fee?: { amount?: number } | null } | null;
+    display?: { policy?: string[] };
+  } | null;
+  payment?: {
+    deposit_fee?: number | null;
+    no_show_fee?: number | null;
+    config?: { type?: string };
+    display?: { description?: string[] };
+  } | null;
+}
+
+function parseBookingTerms(raw: RawDetailsTerms): ResyBookingTerms {
+  const cancelFee = raw.cancellation?.fee?.amount || undefined;
+  const deposit = raw.payment?.deposit_fee || undefined;
+  const noShow = raw.cancellation?.no_show?.fee?.amount || raw.payment?.no_show_fee || undefined;
+  const paymentType = raw.payment?.config?.type;
+  return {
+    cancellation_fee: cancelFee,
+    cancellation_cutoff: cancelFee ? raw.cancellation?.fee?.date_cut_off : undefined,
+    no_show_fee: noShow,
+    deposit,
+    policy_text: [
+      ...(raw.cancellation?.display?.policy || []),
+      ...(raw.payment?.display?.description || []),
+    ].filter(Boolean),
+    requires_payment_method: !!(deposit || cancelFee || noShow || (paymentType && paymentType !== 'free')),
+  };
+}
+
+const SLOT_START = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+/**
+ * Read a slot's venue-local time from Resy's `date.start`.
+ *
+ * Resy sends the venue's wall clock ("2030-06-07 19:00:00"), which must never
+ * go through `new Date()` — that reinterprets it in the server's zone and
+ * breaks around DST switches. If a zone designator is present, the digits
+ * are converted to the venue's zone (or kept as written for a numeric offset).
+ * Returns null for a format it doesn't recognize.
+ */
+function parseSlotStart(start: string, timeZone?: string): { date: string; time: string; utcOffset?: string } | null {
+  const match = SLOT_START.exec(start?.trim() ?? '');
+  if (!match) return null;
+  const [, date, hh, mm, zone] = match;
+  let local = { date, time: `${hh}:${mm}` };
+
+  if (zone && zone !== 'Z') {
+    // A numeric offset means the digits are already local to that offset
+    const offset = zone.length === 5 ? `${zone.slice(0, 3)}:${zone.slice(3)}` : zone;
+    return { ...local, utcOffset: offset };
+  }
+  if (zone === 'Z' && timeZone) {
+    try {
+      local = toZonedWallClock(new Date(`${date}T${hh}:${mm}:00Z`), timeZone);
+    } catch {
+      // Unknown zone — keep the digits as sent
+    }
+  }
+  return { ...local, utcOffset: timeZone ? utcOffsetAt(local.date, local.time, timeZone) : undefined };
+}
+
+/**
+ * Find available time slots for a venue on a given day. With a seating
+ * preference, only acceptable types are returned, best-ranked first.
+ *
+ * Live by default. Browsing callers can pass `cached` to accept slots up to
+ * CACHE_TTL_S.slots old; anything about to book must not.
  */
 export async function findSlots(
   authToken: string,
   venueId: number,
   day: string,      // YYYY-MM-DD
   partySize: number,
-  geo?: { lat: number; lng: number }
+  geo?: { lat: number; lng: number },
+  seating?: SeatingPreference,
+  options: { cached?: boolean } = {}
 ): Promise<ResyTimeSlot[]> {
   const lat = geo?.lat ?? DEFAULT_LAT;
   const lng = geo?.lng ?? DEFAULT_LNG;
 
+  const slots = options.cached
+    ? await cached('slots', `${venueId}|${day}|${partySize}|${lat},${lng}`, () => fetchSlots(authToken, venueId, day, partySize, lat, lng))
+    : await fetchSlots(authToken, venueId, day, partySize, lat, lng);
+  return seating ? applySeatingPreference(slots, seating) : slots;
+}
+
+async function fetchSlots(authToken: string, venueId: number, day: string, partySize: number, lat: number, lng: number): Promise<ResyTimeSlot[]> {
   console.log(`[resy] Finding slots for venue ${venueId} on ${day}, party of ${partySize}`);
 
   const params = new URLSearchParams({
@@ -150,6 +544,7 @@ export async function findSlots(
   const data = await res.json() as {
     results: {
       venues: Array<{
+        venue?: { location?: { time_zone?: string } };
         slots: Array<{
           config: { token: string; type: string };
           date: { start: string; end: string };
@@ -160,23 +555,148 @@ export async function findSlots(
 
   const venue = data.results?.venues?.[0];
   const slots = venue?.slots || [];
+  const timeZone = venue?.venue?.location?.time_zone;
   console.log(`[resy] Found ${slots.length} available slots`);
 
-  return slots.map(slot => {
-    const startDate = new Date(slot.date.start);
-    const hours = startDate.getHours().toString().padStart(2, '0');
-    const minutes = startDate.getMinutes().toString().padStart(2, '0');
-
+  // One odd slot shouldn't hide the rest of the day
+  return slots.flatMap(slot => {
+    const start = parseSlotStart(slot.date?.start, timeZone);
+    if (!start) {
+      console.warn(`[resy] Skipping slot with unrecognized time "${slot.date?.start}" at venue ${venueId}`);
+      return [];
+    }
+    const { time, utcOffset } = start;
     return {
       config_token: slot.config.token,
       date: day,
-      time: `${hours}:${minutes}`,
+      time,
       party_size: partySize,
       type: slot.config.type || 'Dining Room',
+      timezone: timeZone,
+      utc_offset: utcOffset,
     };
   });
 }
 
+/**
+ * Find available slots across a date range (inclusive), filtered by time window
+ * and seating type. Days are fetched in parallel (bounded) and a failure on one
+ * day doesn't sink the rest. Ranges longer than two weeks are capped.
+ */
+export async function findSlotsInRange(
+  authToken: string,
+  venueId: number,
+  startDate: string,  // YYYY-MM-DD
+  endDate: string,    // YYYY-MM-DD, inclusive
+  partySize: number,
+  criteria: SlotCriteria = {},
+  geo?: { lat: number; lng: number }
+): Promise<ResySlotRange> {
+  const dates: string[] = [];
+  for (let day = startDate; day <= endDate && dates.length < MAX_RANGE_DAYS; day = addDays(day, 1)) {
+    dates.push(day);
+  }
+  const lastDate = dates[dates.length - 1];
+
+  console.log(`[resy] Range search for venue ${venueId}: ${startDate} → ${lastDate} (${dates.length} days), party of ${partySize}`);
+
+  const daysFailed: string[] = [];
+  const perDay = await mapWithConcurrency(dates, RANGE_CONCURRENCY, async (date) => {
+    try {
+      return filterSlots(await findSlots(authToken, venueId, date, partySize, geo, undefined, { cached: true }), criteria);
+    } catch (error) {
+      if (error instanceof ResyAuthError) throw error;
+      console.error(`[resy] Range search failed for ${date}:`, error instanceof Error ? error.message : error);
+      daysFailed.push(date);
+      return [];
+    }
+  });
+
+  const days: ResyDayAvailability[] = [];
+  dates.forEach((date, i) => {
+    if (perDay[i].length === 0) return;
+    const times: Record<string, string[]> = {};
+    for (const slot of perDay[i]) {
+      (times[slot.type] ??= []).push(slot.time);
+    }
+    const weekday = new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' });
+    days.push({ date, weekday, times });
+  });
+
+  console.log(`[resy] Range search found slots on ${days.length}/${dates.length} days`);
+
+  return {
+    venue_id: venueId,
+    party_size: partySize,
+    days,
+    days_checked: dates.length - daysFailed.length,
+    days_failed: daysFailed.sort(),
+    ...(lastDate < endDate && { truncated_to: lastDate }),
+  };
+}
+
+/**
+ * Compare availability across several venues for one date and party size.
+ *
+ * Each venue is looked up independently (bounded concurrency); one venue
+ * erroring only marks that venue. Available venues are ranked by how close
+ * their nearest slot is to the desired time.
+ */
+export async function compareAvailability(
+  authToken: string,
+  venues: Array<{ venueId: number; name?: string }>,
+  day: string,
+  partySize: number,
+  desiredTime: string, // HH:MM
+  options: { criteria?: SlotCriteria; concurrency?: number; geo?: { lat: number; lng: number } } = {}
+): Promise<ResyAvailabilityComparison> {
+  const targets = venues.slice(0, MAX_COMPARE_VENUES);
+  const truncated = venues.length - targets.length;
+  const desired = timeToMinutes(desiredTime);
+
+  console.log(`[resy] Comparing ${targets.length} venues on ${day} around ${desiredTime}, party of ${partySize}${truncated ? ` (${truncated} over the limit skipped)` : ''}`);
+
+  const results = await mapWithConcurrency(targets, options.concurrency ?? COMPARE_CONCURRENCY, async ({ venueId, name }): Promise<ResyVenueAvailability> => {
+    try {
+      const slots = filterSlots(await findSlots(authToken, venueId, day, partySize, options.geo, undefined, { cached: true }), options.criteria ?? {});
+      if (slots.length === 0) {
+        return { venue_id: venueId, venue_name: name, status: 'fully_booked' };
+      }
+      const byDistance = [...slots].sort((a, b) =>
+        Math.abs(timeToMinutes(a.time) - desired) - Math.abs(timeToMinutes(b.time) - desired)
+      );
+      const closest = byDistance[0];
+      return {
+        venue_id: venueId,
+        venue_name: name,
+        status: 'available',
+        closest_time: closest.time,
+        minutes_off: Math.abs(timeToMinutes(closest.time) - desired),
+        seating_type: closest.type,
+        other_times: byDistance.slice(1, 1 + COMPARE_ALTERNATIVES).map(s => s.time).sort(),
+      };
+    } catch (error) {
+      if (error instanceof ResyAuthError) throw error;
+      console.error(`[resy] Compare failed for venue ${venueId}:`, error instanceof Error ? error.message : error);
+      return { venue_id: venueId, venue_name: name, status: 'error', error: describeResyError(error) };
+    }
+  });
+
+  const ranked = results
+    .filter(r => r.status === 'available')
+    .sort((a, b) => (a.minutes_off ?? 0) - (b.minutes_off ?? 0));
+
+  return {
+    date: day,
+    party_size: partySize,
+    desired_time: desiredTime,
+    ranked,
+    fully_booked: results.filter(r => r.status === 'fully_booked'),
+    errors: results.filter(r => r.status === 'error'),
+    ...(truncated > 0 && { truncated }),
+  };
+}
+
 /**
  * Book a reservation. Composite: find fresh slot → details → user → book.
  *
@@ -189,7 +709,8 @@ export async function bookReservation(
   day: string,
   partySize: number,
   desiredTime?: string, // HH:MM — picks closest slot if provided
-  geo?: { lat: number; lng: number }
+  geo?: { lat: number; lng: number },
+  options: BookingOptions & { seating?: SeatingPreference } = {}
 ): Promise<ResyBookingConfirmation> {
   console.log(`[resy] Booking: venue ${venueId}, ${day}, party of ${partySize}, desired time: ${desiredTime || 'any'}`);
 
@@ -199,35 +720,84 @@ export async function bookReservation(
     throw new Error('No available slots for this venue/date/party size. The restaurant may be fully booked.');
   }
 
-  // Pick the best matching slot
-  let configToken: string;
-  if (desiredTime) {
-    // Find the closest time match
-    const match = freshSlots.find(s => s.time === desiredTime)
-      || freshSlots.reduce((best, slot) => {
-          const bestDiff = Math.abs(timeToMinutes(best.time) - timeToMinutes(desiredTime));
-          const slotDiff = Math.abs(timeToMinutes(slot.time) - timeToMinutes(desiredTime));
-          return slotDiff < bestDiff ? slot : best;
-        });
-    configToken = match.config_token;
-    console.log(`[resy] Matched slot at ${match.time} (requested ${desiredTime})`);
-  } else {
-    configToken = freshSlots[0].config_token;
-    console.log(`[resy] Using first available slot at ${freshSlots[0].time}`);
+  const slot = pickClosestSlot(freshSlots, desiredTime, options.seating);
+  return bookSlot(authToken, slot, options);
+}
+
+/**
+ * Pick the slot nearest the desired time (exact match wins), or the first
+ * slot if no time was given. `slots` must be non-empty.
+ *
+ * With a seating preference, the best-ranked seating type that is open wins
+ * first and time closeness decides within it — "dining room, else patio"
+ * means a later dining room table beats an on-time patio one. Throws
+ * SeatingUnavailableError if only unacceptable seating is open.
+ */
+export function pickClosestSlot<S extends ResyTimeSlot>(slots: S[], desiredTime?: string, seating?: SeatingPreference): S {
+  let candidates = slots;
+  if (seating) {
+    const acceptable = applySeatingPreference(slots, seating);
+    if (acceptable.length === 0) {
+      throw new SeatingUnavailableError([...new Set(slots.map(s => s.type))], seating);
+    }
+    const bestRank = seatingRank(acceptable[0].type, seating);
+    candidates = acceptable.filter(s => seatingRank(s.type, seating) === bestRank);
   }
 
-  // Step 1: Get booking details (book_token)
+  if (!desiredTime) {
+    console.log(`[resy] Using first available slot at ${candidates[0].time}`);
+    return candidates[0];
+  }
+  const slot = candidates.find(s => s.time === desiredTime)
+    || candidates.reduce((best, candidate) => {
+        const bestDiff = Math.abs(timeToMinutes(best.time) - timeToMinutes(desiredTime));
+        const candidateDiff = Math.abs(timeToMinutes(candidate.time) - timeToMinutes(desiredTime));
+        return candidateDiff < bestDiff ? candidate : best;
+      });
+  console.log(`[resy] Matched ${slot.type} slot at ${slot.time} (requested ${desiredTime})`);
+  return slot;
+}
+
+type RawDetails = RawDetailsTerms & {
+  book_token: { value: string; date_expires: string };
+  venue: { name: string; venue_url_slug?: string; location?: { url_slug?: string } };
+  config: { type: string };
+};
+
+async function fetchDetails(authToken: string, slot: ResyTimeSlot): Promise<RawDetails> {
   const detailsParams = new URLSearchParams({
-    config_id: configToken,
-    day,
-    party_size: partySize.toString(),
+    config_id: slot.config_token,
+    day: slot.date,
+    party_size: slot.party_size.toString(),
   });
   const detailsRes = await resyFetch(authToken, `/3/details?${detailsParams}`, { method: 'GET' });
-  const detailsData = await detailsRes.json() as {
-    book_token: { value: string; date_expires: string };
-    venue: { name: string; venue_url_slug?: string; location?: { url_slug?: string } };
-    config: { type: string };
-  };
+  return await detailsRes.json() as RawDetails;
+}
+
+/**
+ * Read a slot's fee/deposit terms without booking it.
+ */
+export async function getBookingTerms(authToken: string, slot: ResyTimeSlot): Promise<ResyBookingTerms> {
+  return parseBookingTerms(await fetchDetails(authToken, slot));
+}
+
+/**
+ * Book a specific slot: details → user → book.
+ *
+ * The slot's config token must be fresh (seconds to minutes old). Callers that
+ * already hold fresh slots — e.g. the release sniper — use this directly to skip
+ * the extra find round trip.
+ *
+ * Refuses (ResyFeeConsentError) if the slot has a deposit or fees and
+ * `options.acceptFees` isn't set and they exceed `options.maxFees` — the user
+ * must see the terms first.
+ */
+export async function bookSlot(authToken: string, slot: ResyTimeSlot, options: BookingOptions = {}): Promise<ResyBookingConfirmation> {
+  const day = slot.date;
+  const partySize = slot.party_size;
+
+  // Step 1: Get booking details (book_token)
+  const detailsData = await fetchDetails(authToken, slot);
 
   const bookToken = detailsData.book_token.value;
   const venueName = detailsData.venue?.name || 'Restaurant';
@@ -239,13 +809,21 @@ export async function bookReservation(
     : `https://resy.com`;
   console.log(`[resy] Got book_token for ${venueName} (${venueUrl})`);
 
-  // Step 2: Get user payment method
-  const userRes = await resyFetch(authToken, '/2/user', { method: 'GET' });
-  const userData = await userRes.json() as {
-    payment_methods: Array<{ id: number; is_default: boolean }>;
-  };
+  // Fees and deposits need explicit consent before we commit
+  const terms = parseBookingTerms(detailsData);
+  if (hasFees(terms) && !options.acceptFees && !(options.maxFees && feesWithin(terms, options.maxFees))) {
+    console.log(`[resy] Slot has fees (${describeTerms(terms)}) — not booking without consent`);
+    throw new ResyFeeConsentError(terms);
+  }
 
-  const paymentMethod = userData.payment_methods?.find(pm => pm.is_default) || userData.payment_methods?.[0];
+  // Step 2: Get user payment method
+  const paymentMethods = await fetchPaymentMethods(authToken);
+  const paymentMethod = options.paymentMethodId
+    ? paymentMethods.find(pm => pm.id === options.paymentMethodId)
+    : paymentMethods.find(pm => pm.is_default) || paymentMethods[0];
+  if (options.paymentMethodId && !paymentMethod) {
+    throw new Error(`Payment method ${options.paymentMethodId} isn't on this Resy account. List cards with resy_payment_methods.`);
+  }
   if (!paymentMethod) {
     throw new Error('No payment method on file. Add one at resy.com/account before booking.');
   }
@@ -257,6 +835,10 @@ export async function bookReservation(
     struct_payment_method: JSON.stringify({ id: paymentMethod.id }),
     source_id: 'resy.com-venue-details',
   });
+  const occasion = options.notes?.occasion;
+  const specialRequest = options.notes?.special_request?.trim().slice(0, SPECIAL_REQUEST_MAX) || undefined;
+  if (occasion) bookBody.set('occasion', occasion);
+  if (specialRequest) bookBody.set('special_request', specialRequest);
 
   const bookRes = await resyFetch(authToken, '/3/book', {
     method: 'POST',
@@ -283,30 +865,151 @@ export async function bookReservation(
     time: bookData.time_slot || day,
     party_size: bookData.num_seats || partySize,
     type: slotType,
+    agreed_terms: terms,
+    payment_method: maskPaymentMethod(paymentMethod),
+    occasion,
+    special_request: specialRequest,
+  };
+}
+
+/** Raw /3/user/reservations entry — only the fields we read. */
+interface RawResyReservation {
+  resy_token: string;
+  reservation_id: number;
+  venue: { id: { resy: number } | number; name?: string };
+  day: string;
+  time_slot: string;
+  num_seats: number;
+  config?: { type?: string };
+  occasion?: string | null;
+  special_request?: string | null;
+  status?: { finished?: number; no_show?: number };
+  cancellation?: { date_cancelled?: string | null } | null;
+}
+
+/** Raw /3/user/reservations page. Venue names live in a side map keyed by id. */
+interface RawReservationsPage {
+  reservations?: RawResyReservation[];
+  venues?: Record<string, { name?: string }>;
+  metadata?: { total?: number };
+}
+
+function mapReservation(r: RawResyReservation, venues: RawReservationsPage['venues'] = {}): ResyReservation {
+  const venueId = typeof r.venue?.id === 'number' ? r.venue.id : r.venue?.id?.resy;
+  return {
+    resy_token: r.resy_token,
+    reservation_id: r.reservation_id,
+    venue_id: venueId || undefined,
+    venue_name: r.venue?.name || (venueId && venues[venueId]?.name) || 'Unknown',
+    date: r.day,
+    time: r.time_slot,
+    party_size: r.num_seats,
+    type: r.config?.type || 'Dining Room',
+    occasion: r.occasion || undefined,
+    special_request: r.special_request || undefined,
   };
 }
 
+async function fetchReservationsPage(authToken: string, type: 'upcoming' | 'past', limit: number, offset: number): Promise<RawReservationsPage> {
+  const params = new URLSearchParams({ type, limit: limit.toString(), offset: offset.toString() });
+  const res = await resyFetch(authToken, `/3/user/reservations?${params}`, { method: 'GET' });
+  return await res.json() as RawReservationsPage;
+}
+
 /**
  * List the user's upcoming reservations.
  */
 export async function getReservations(authToken: string): Promise<ResyReservation[]> {
   console.log('[resy] Fetching user reservations');
 
-  const res = await resyFetch(authToken, '/3/user/reservations', { method: 'GET' });
-  const data = await res.json() as Record<string, unknown>;
-
-  const reservations = (data.reservations || data.upcoming || data.results || []) as Array<Record<string, any>>;
+  const data = await fetchReservationsPage(authToken, 'upcoming', MAX_UPCOMING, 0);
+  const reservations = data.reservations || [];
   console.log(`[resy] Found ${reservations.length} reservations`);
 
-  return reservations.map((r: Record<string, any>) => ({
-    resy_token: r.resy_token || r.token || '',
-    reservation_id: r.reservation_id || r.id || 0,
-    venue_name: r.venue?.name || r.venue_name || r.name || 'Unknown',
-    date: r.date || r.day || r.reservation_date || '',
-    time: r.time_slot || r.time || r.start_time || '',
-    party_size: r.num_seats || r.party_size || r.seats || 0,
-    type: r.config?.type || r.type || 'Dining Room',
+  return reservations.map(r => mapReservation(r, data.venues));
+}
+
+/**
+ * One page of past reservations, most recent first.
+ */
+export async function getReservationHistory(
+  authToken: string,
+  page: { limit?: number; offset?: number } = {}
+): Promise<ResyHistoryPage> {
+  const limit = Math.min(page.limit ?? HISTORY_PAGE_SIZE, HISTORY_PAGE_SIZE);
+  const offset = page.offset ?? 0;
+  console.log(`[resy] Fetching past reservations (offset ${offset}, limit ${limit})`);
+
+  const data = await fetchReservationsPage(authToken, 'past', limit, offset);
+  const reservations: ResyPastReservation[] = (data.reservations || []).map(r => ({
+    ...mapReservation(r, data.venues),
+    outcome: r.cancellation?.date_cancelled ? 'cancelled' : r.status?.no_show ? 'no_show' : 'completed',
   }));
+  const total = data.metadata?.total;
+  const hasMore = total !== undefined ? offset + reservations.length < total : reservations.length === limit;
+
+  return {
+    reservations,
+    offset,
+    limit,
+    total,
+    next_offset: hasMore ? offset + reservations.length : undefined,
+  };
+}
+
+/** Raw /3/user/favorites venue — only the fields we read. */
+interface RawFavoriteVenue {
+  id: { resy: number };
+  name: string;
+  url_slug: string;
+  location: { locality: string; region: string; neighborhood?: string; url_slug?: string };
+  cuisine?: string[];
+  price_range_id?: number;
+  price_range?: number;
+  rating?: number | { average?: number };
+}
+
+/**
+ * The user's Resy favorites ("hit list"), in the order Resy returns them.
+ */
+export async function getFavorites(authToken: string): Promise<ResyVenue[]> {
+  console.log('[resy] Fetching favorites');
+
+  const res = await resyFetch(authToken, '/3/user/favorites', { method: 'GET' });
+  const data = await res.json() as { results?: { venues?: RawFavoriteVenue[] } };
+  const venues = data.results?.venues || [];
+  console.log(`[resy] Found ${venues.length} favorites`);
+
+  return venues.map(v => {
+    const citySlug = v.location.url_slug || (v.location.locality || 'new-york').toLowerCase().replace(/\s+/g, '-');
+    return {
+      venue_id: v.id.resy,
+      name: v.name,
+      location: {
+        city: v.location.locality,
+        state: v.location.region,
+        neighborhood: v.location.neighborhood,
+      },
+      cuisine: v.cuisine || [],
+      price_range: v.price_range_id ?? v.price_range ?? 0,
+      rating: typeof v.rating === 'number' ? v.rating : v.rating?.average,
+      url_slug: v.url_slug,
+      url: `https://resy.com/cities/${citySlug}/${v.url_slug}`,
+    };
+  });
+}
+
+/**
+ * Add a venue to (or remove it from) the user's Resy favorites.
+ */
+export async function setFavorite(authToken: string, venueId: number, favorite: boolean): Promise<void> {
+  console.log(`[resy] ${favorite ? 'Adding' : 'Removing'} favorite venue ${venueId}`);
+
+  await resyFetch(authToken, '/3/user/favorites', {
+    method: 'POST',
+    headers: { 'content-type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({ venue_id: venueId.toString(), favorite: favorite ? '1' : '0' }).toString(),
+  });
 }
 
 /**
@@ -631,8 +1334,100 @@ export async function cancelReservation(authToken: string, resyToken: string): P
     console.log(`[resy] Cancelled successfully`);
     return { success: true, resy_token: resyToken };
   } catch (error) {
-    const msg = error instanceof Error ? error.message : 'Unknown error';
     console.error(`[resy] Cancel error:`, error);
-    return { success: false, resy_token: resyToken, error: msg };
+    return { success: false, resy_token: resyToken, error: describeResyError(error) };
   }
 }
+
+/**
+ * Move an existing reservation to a new date, time and/or party size.
+ *
+ * Books the new slot FIRST and only then cancels the original, so a failed
+ * rebook never costs the user their table. If the original can't be cancelled,
+ * the new booking is cancelled to roll back. Requires the exact requested time —
+ * we never silently shift someone to a different slot.
+ */
+export async function modifyReservation(
+  authToken: string,
+  resyToken: string,
+  changes: { day?: string; time?: string; partySize?: number; seatingType?: string },
+  geo?: { lat: number; lng: number },
+  options: BookingOptions = {}
+): Promise<ResyModificationResult> {
+  console.log(`[resy] Modifying reservation ${resyToken}: ${JSON.stringify(changes)}`);
+
+  const reservations = await getReservations(authToken);
+  const original = reservations.find(r => r.resy_token === resyToken);
+  if (!original) {
+    throw new Error('Could not find that reservation among your upcoming bookings.');
+  }
+  if (!original.venue_id) {
+    throw new Error(`Resy didn't return a venue ID for your ${original.venue_name} reservation, so it can't be moved automatically.`);
+  }
+
+  const day = changes.day || original.date;
+  const time = (changes.time || original.time).slice(0, 5);
+  const partySize = changes.partySize || original.party_size;
+  if (day === original.date && time === original.time.slice(0, 5) && partySize === original.party_size) {
+    throw new Error('That is the same date, time and party size as the existing reservation.');
+  }
+
+  // Leg 1: book the new slot (original untouched on any failure here)
+  let newBooking: ResyBookingConfirmation;
+  try {
+    const slots = await findSlots(authToken, original.venue_id, day, partySize, geo);
+    const seating = changes.seatingType?.toLowerCase();
+    const slot = slots.find(s => s.time === time && (!seating || s.type.toLowerCase() === seating));
+    if (!slot) {
+      const nearby = slots.map(s => s.time).slice(0, 6).join(', ');
+      throw new Error(`No ${time}${changes.seatingType ? ` ${changes.seatingType}` : ''} slot for ${partySize} on ${day}.${nearby ? ` Open times: ${nearby}.` : ' Nothing is open that day.'}`);
+    }
+    // Carry the original's occasion and special request over unless new ones were given
+    const notes = options.notes ?? {
+      occasion: RESY_OCCASIONS.find(o => o === original.occasion),
+      special_request: original.special_request,
+    };
+    newBooking = await bookSlot(authToken, slot, { ...options, notes });
+  } catch (error) {
+    if (error instanceof ResyAuthError || error instanceof ResyFeeConsentError) throw error;
+    console.error(`[resy] Modify: new booking failed, original kept:`, error instanceof Error ? error.message : error);
+    return {
+      status: 'unchanged',
+      original,
+      message: `Couldn't book the new slot, so the original reservation was NOT touched and is still held.`,
+      error: describeResyError(error),
+    };
+  }
+
+  // Leg 2: cancel the original
+  const cancel = await cancelReservation(authToken, original.resy_token);
+  if (cancel.success) {
+    console.log(`[resy] Modify complete: ${original.resy_token} → ${newBooking.resy_token}`);
+    return {
+      status: 'modified',
+      original,
+      new_booking: newBooking,
+      message: 'New reservation booked and the original cancelled.',
+    };
+  }
+
+  // Roll back: drop the new booking so the user isn't holding two tables
+  console.error(`[resy] Modify: cancelling original failed (${cancel.error}) — rolling back new booking`);
+  const rollback = await cancelReservation(authToken, newBooking.resy_token);
+  if (rollback.success) {
+    return {
+      status: 'rolled_back',
+      original,
+      message: `Couldn't cancel the original reservation, so the new booking was cancelled again. The original is still held and nothing changed.`,
+      error: cancel.error,
+    };
+  }
+
+  return {
+    status: 'needs_attention',
+    original,
+    new_booking: newBooking,
+    message: `The new reservation is booked but the original couldn't be cancelled, and cancelling the new one also failed. The user currently holds BOTH reservations and should cancel one (resy_cancel with the relevant resy_token).`,
+    error: `original cancel: ${cancel.error}; rollback cancel: ${rollback.error}`,
+  };
+}
@@ -0,0 +1,104 @@
+// Typed Resy API errors. Each keeps the raw status and body for logs
+// (`message`) and carries a `userMessage` that's safe to hand to Claude.
+
+/** Thrown when the user's Resy auth token is expired or invalid. */
+export class ResyAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResyAuthError';
+  }
+}
+
+/** Any non-2xx Resy response that isn't an auth failure. */
+export class ResyApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly body: string,
+    public readonly userMessage = 'Resy returned an unexpected error. Try again, or try a different time or venue.',
+  ) {
+    super(`Resy API ${status}: ${body}`);
+    this.name = 'ResyApiError';
+  }
+}
+
+/** 429 — too many requests for this account. */
+export class ResyRateLimitError extends ResyApiError {
+  constructor(body: string, public readonly retryAfterMs?: number) {
+    super(429, body, 'Resy is rate-limiting requests right now. Wait a minute before trying again.');
+    this.name = 'ResyRateLimitError';
+  }
+}
+
+/** 404 — the venue, reservation or slot doesn't exist (anymore). */
+export class ResyNotFoundError extends ResyApiError {
+  constructor(body: string) {
+    super(404, body, "Resy couldn't find that venue or reservation. It may have been removed — search again for a fresh ID.");
+    this.name = 'ResyNotFoundError';
+  }
+}
+
+/** The slot was booked by someone else between finding and booking it. */
+export class ResySlotTakenError extends ResyApiError {
+  constructor(status: number, body: string) {
+    super(status, body, 'That table was just taken by someone else. Check availability again for another time.');
+    this.name = 'ResySlotTakenError';
+  }
+}
+
+/** The venue isn't taking reservations (closed, paused, or private event). */
+export class ResyVenueClosedError extends ResyApiError {
+  constructor(status: number, body: string) {
+    super(status, body, "That restaurant isn't taking reservations on Resy right now.");
+    this.name = 'ResyVenueClosedError';
+  }
+}
+
+/** 5xx, timeout or network failure — Resy itself is having trouble. status is 0 when there was no response. */
+export class ResyUpstreamError extends ResyApiError {
+  constructor(status: number, body: string) {
+    super(status, body, 'Resy is having trouble right now. Try again in a few minutes.');
+    this.name = 'ResyUpstreamError';
+  }
+}
+
+/** Thrown without calling Resy while the circuit breaker is open after repeated upstream failures. */
+export class ResyCircuitOpenError extends ResyApiError {
+  constructor(public readonly retryAt: Date) {
+    super(503, `circuit open until ${retryAt.toISOString()}`, 'Resy is down or very slow right now, so requests are paused for a moment. Try again in a minute.');
+    this.name = 'ResyCircuitOpenError';
+  }
+}
+
+const SLOT_TAKEN = /no longer available|not available|already (?:been )?(?:booked|reserved)|sold out|slot.*(?:taken|unavailable)/i;
+const VENUE_CLOSED = /venue.*closed|temporarily closed|not accepting (?:reservations|bookings)|reservations.*(?:paused|disabled)/i;
+
+/** Parse a Retry-After header (seconds or HTTP date) into milliseconds. */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(header);
+  return Number.isNaN(at) ? undefined : Math.max(0, at - now);
+}
+
+/**
+ * Map a failed (non-auth) Resy response to its typed error.
+ */
+export function classifyResyError(status: number, body: string, retryAfterMs?: number): ResyApiError {
+  if (status === 429) return new ResyRateLimitError(body, retryAfterMs);
+  if (status >= 500) return new ResyUpstreamError(status, body);
+  if (VENUE_CLOSED.test(body)) return new ResyVenueClosedError(status, body);
+  if (status === 409 || status === 412 || SLOT_TAKEN.test(body)) return new ResySlotTakenError(status, body);
+  if (status === 404) return new ResyNotFoundError(body);
+  return new ResyApiError(status, body);
+}
+
+/**
+ * The message to show for an error from the Resy client: the friendly text for
+ * typed API errors (never the raw response body), the message otherwise.
+ */
+export function describeResyError(error: unknown): string {
+  if (error instanceof ResyApiError) return error.userMessage;
+  if (error instanceof Error) return error.message;
+  return 'Unknown error';
+}
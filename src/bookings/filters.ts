@@ -0,0 +1,95 @@
+import type { ResyTimeSlot, ResyVenue } from './types.js';
+import { isWithinWindow } from '../utils/time.js';
+import type { TimeWindow } from '../utils/time.js';
+
+export interface SlotCriteria {
+  timeWindow?: TimeWindow;
+  seatingType?: string; // case-insensitive exact match, any type if unset
+}
+
+/**
+ * Ranked seating wishes, e.g. "dining room, else patio, never bar" →
+ * { preferred: ['dining room', 'patio'], avoid: ['bar'] }.
+ * Names match case-insensitively against Resy's type ("patio" matches "Outdoor Patio").
+ */
+export interface SeatingPreference {
+  preferred?: string[]; // most wanted first; when set, only these are acceptable
+  avoid?: string[];     // never acceptable
+}
+
+/**
+ * Structured restaurant search filters. Every set field must match.
+ * availability is checked against live slots, the rest against search hits.
+ */
+export interface VenueFilters {
+  cuisine?: string;      // case-insensitive substring of any cuisine tag ("thai" matches "Thai")
+  priceMin?: number;     // 1-4, inclusive
+  priceMax?: number;     // 1-4, inclusive
+  neighborhood?: string; // case-insensitive substring ("east village" matches "East Village")
+  minRating?: number;    // venues without a rating never match
+  availability?: {
+    date: string;        // YYYY-MM-DD
+    partySize: number;
+    timeWindow?: TimeWindow;
+  };
+}
+
+function includesText(value: string | undefined, wanted: string): boolean {
+  return !!value && value.toLowerCase().includes(wanted.trim().toLowerCase());
+}
+
+/**
+ * Whether a venue satisfies the non-availability filters.
+ */
+export function matchesVenueFilters(venue: Pick<ResyVenue, 'cuisine' | 'price_range' | 'location' | 'rating'>, filters: VenueFilters): boolean {
+  if (filters.cuisine && !venue.cuisine.some(c => includesText(c, filters.cuisine!))) return false;
+  if (filters.priceMin !== undefined && !(venue.price_range >= filters.priceMin)) return false;
+  if (filters.priceMax !== undefined && !(venue.price_range <= filters.priceMax)) return false;
+  if (filters.neighborhood && !includesText(venue.location.neighborhood, filters.neighborhood)) return false;
+  if (filters.minRating !== undefined && !(venue.rating !== undefined && venue.rating >= filters.minRating)) return false;
+  return true;
+}
+
+/**
+ * Narrow slots to a time window and seating type.
+ */
+export function filterSlots<S extends ResyTimeSlot>(slots: S[], criteria: SlotCriteria): S[] {
+  const seating = criteria.seatingType?.toLowerCase();
+  return slots.filter(slot =>
+    isWithinWindow(slot.time, criteria.timeWindow)
+    && (!seating || slot.type.toLowerCase() === seating)
+  );
+}
+
+function seatingMatches(type: string, name: string): boolean {
+  return type.toLowerCase().includes(name.trim().toLowerCase());
+}
+
+/**
+ * Rank of a seating type under a preference: 0 is best, -1 means not acceptable.
+ */
+export function seatingRank(type: string, pref: SeatingPreference): number {
+  if (pref.avoid?.some(name => seatingMatches(type, name))) return -1;
+  if (!pref.preferred?.length) return 0;
+  return pref.preferred.findIndex(name => seatingMatches(type, name));
+}
+
+/**
+ * Drop unacceptable seating and order the rest by preference rank
+ * (time order is kept within a rank).
+ */
+export function applySeatingPreference<S extends ResyTimeSlot>(slots: S[], pref: SeatingPreference): S[] {
+  return slots
+    .map(slot => ({ slot, rank: seatingRank(slot.type, pref) }))
+    .filter(({ rank }) => rank >= 0)
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ slot }) => slot);
+}
+
+/** Plain-English form of a preference, for error messages. */
+export function describeSeatingPreference(pref: SeatingPreference): string {
+  const parts: string[] = [];
+  if (pref.preferred?.length) parts.push(pref.preferred.join(', else '));
+  if (pref.avoid?.length) parts.push(`never ${pref.avoid.join(' or ')}`);
+  return parts.join('; ') || 'any seating';
+}
@@ -0,0 +1,117 @@
+/**
+ * Dining history queries on top of the paged past-reservations API:
+ * "when was I last at Lilia?", "how many times did we go out in September?",
+ * plus a visit-count signal for ranking search results.
+ */
+
+import { getReservationHistory } from './client.js';
+import type { ResyPastReservation, ResyVenue } from './types.js';
+
+// 6 pages × 50 = the last 300 reservations — years of history for most people
+const DEFAULT_MAX_PAGES = 6;
+const MAX_VISITS_RETURNED = 20;
+const MAX_VENUES_RETURNED = 10;
+
+export interface HistoryQuery {
+  venueId?: number;
+  venueName?: string;        // case-insensitive substring
+  startDate?: string;        // YYYY-MM-DD, inclusive
+  endDate?: string;          // YYYY-MM-DD, inclusive
+  includeCancelled?: boolean; // cancellations and no-shows are skipped by default
+  maxPages?: number;
+}
+
+export interface VenueVisits {
+  venue_id?: number;
+  venue_name: string;
+  visits: number;
+  last_visit: string;        // YYYY-MM-DD
+}
+
+export interface DiningHistorySummary {
+  count: number;
+  last_visit?: ResyPastReservation;
+  visits: ResyPastReservation[];   // most recent first, capped
+  by_venue: VenueVisits[];         // most visited first, capped
+  scanned: number;                 // reservations looked at
+  complete: boolean;               // false if older history wasn't reached
+}
+
+function matches(r: ResyPastReservation, query: HistoryQuery): boolean {
+  if (!query.includeCancelled && r.outcome !== 'completed') return false;
+  if (query.venueId && r.venue_id !== query.venueId) return false;
+  if (query.venueName && !r.venue_name.toLowerCase().includes(query.venueName.trim().toLowerCase())) return false;
+  if (query.startDate && r.date < query.startDate) return false;
+  if (query.endDate && r.date > query.endDate) return false;
+  return true;
+}
+
+/**
+ * Tally visits per venue, most visited first (ties: most recent first).
+ */
+export function countVisitsByVenue(reservations: ResyPastReservation[]): VenueVisits[] {
+  const byVenue = new Map<string, VenueVisits>();
+  for (const r of reservations) {
+    const key = r.venue_id ? `id:${r.venue_id}` : `name:${r.venue_name.toLowerCase()}`;
+    const entry = byVenue.get(key);
+    if (entry) {
+      entry.visits++;
+      if (r.date > entry.last_visit) entry.last_visit = r.date;
+    } else {
+      byVenue.set(key, { venue_id: r.venue_id, venue_name: r.venue_name, visits: 1, last_visit: r.date });
+    }
+  }
+  return [...byVenue.values()].sort((a, b) => b.visits - a.visits || b.last_visit.localeCompare(a.last_visit));
+}
+
+/**
+ * Walk past reservations (newest first) and summarize the ones matching the
+ * query. Stops early once pages are older than `startDate`.
+ */
+export async function searchDiningHistory(authToken: string, query: HistoryQuery = {}): Promise<DiningHistorySummary> {
+  const maxPages = query.maxPages ?? DEFAULT_MAX_PAGES;
+  const matched: ResyPastReservation[] = [];
+  let scanned = 0;
+  let offset: number | undefined = 0;
+
+  for (let page = 0; page < maxPages && offset !== undefined; page++) {
+    const result = await getReservationHistory(authToken, { offset });
+    scanned += result.reservations.length;
+    matched.push(...result.reservations.filter(r => matches(r, query)));
+    offset = result.next_offset;
+
+    const oldest = result.reservations[result.reservations.length - 1];
+    if (query.startDate && oldest && oldest.date < query.startDate) {
+      offset = undefined;
+    }
+  }
+
+  matched.sort((a, b) => b.date.localeCompare(a.date) || b.time.localeCompare(a.time));
+  return {
+    count: matched.length,
+    last_visit: matched[0],
+    visits: matched.slice(0, MAX_VISITS_RETURNED),
+    by_venue: countVisitsByVenue(matched).slice(0, MAX_VENUES_RETURNED),
+    scanned,
+    complete: offset === undefined,
+  };
+}
+
+export type RankedVenue<V extends { venue_id: number } = ResyVenue> = V & { past_visits?: number; last_visited?: string };
+
+/**
+ * Annotate search results with the user's past visits and float places they
+ * keep going back to to the top. Resy's own order is kept otherwise.
+ */
+export function rankVenuesByHistory<V extends { venue_id: number }>(venues: V[], history: ResyPastReservation[]): RankedVenue<V>[] {
+  const visits = new Map(
+    countVisitsByVenue(history.filter(r => r.outcome === 'completed' && r.venue_id))
+      .map(v => [v.venue_id, v])
+  );
+  const annotated: RankedVenue<V>[] = venues.map(venue => {
+    const v = visits.get(venue.venue_id);
+    return v ? { ...venue, past_visits: v.visits, last_visited: v.last_visit } : venue;
+  });
+  // sort is stable, so Resy's relevance order holds among equal visit counts
+  return annotated.sort((a, b) => (b.past_visits ?? 0) - (a.past_visits ?? 0));
+}
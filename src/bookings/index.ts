@@ -1,3 +1,11 @@
-export { searchRestaurants, findSlots, bookReservation, getReservations, cancelReservation, getResyProfile, sendResyOTP, verifyResyOTP, completeResyChallenge, registerResyUser, ResyAuthError } from './client.js';
-export type { ResyVenue, ResyTimeSlot, ResyBookingConfirmation, ResyReservation, ResyCancellationResult } from './types.js';
-export type { ResyChallenge } from './client.js';
+export { searchRestaurants, getVenue, findSlots, findSlotsInRange, compareAvailability, bookReservation, bookSlot, pickClosestSlot, getBookingTerms, getReservations, getReservationHistory, cancelReservation, modifyReservation, getResyProfile, getFavorites, setFavorite, sendResyOTP, verifyResyOTP, completeResyChallenge, registerResyUser, getPaymentMethods, hasFees, feesWithin, describeTerms, describeFeeLimits, ResyFeeConsentError, SeatingUnavailableError } from './client.js';
+export type { ResyVenue, ResyVenueDetails, ResyTimeSlot, ResyBookingConfirmation, ResyBookingTerms, FeeLimits, ResyPaymentMethod, ResyBookingNotes, ResyOccasion, ResyReservation, ResyPastReservation, ResyHistoryPage, ResyCancellationResult, ResySlotRange, ResyDayAvailability, ResyVenueAvailability, ResyAvailabilityComparison, ResyModificationResult } from './types.js';
+export type { ResyChallenge, BookingOptions } from './client.js';
+export { ResyAuthError, ResyApiError, ResyRateLimitError, ResyNotFoundError, ResySlotTakenError, ResyVenueClosedError, ResyUpstreamError, ResyCircuitOpenError, describeResyError } from './errors.js';
+export { RESY_OCCASIONS } from './types.js';
+export { suggestBookingNotes, NOTE_CATEGORIES, DEFAULT_NOTE_CATEGORIES } from './notes.js';
+export type { NoteCategory } from './notes.js';
+export { searchDiningHistory, countVisitsByVenue, rankVenuesByHistory } from './history.js';
+export type { HistoryQuery, DiningHistorySummary, VenueVisits, RankedVenue } from './history.js';
+export { filterSlots, matchesVenueFilters, applySeatingPreference, describeSeatingPreference } from './filters.js';
+export type { SlotCriteria, SeatingPreference, VenueFilters } from './filters.js';
@@ -0,0 +1,58 @@
+import type { ResyBookingNotes, ResyOccasion } from './types.js';
+
+/** Kinds of remembered fact that can be passed to a venue in booking notes. */
+export const NOTE_CATEGORIES = ['dietary', 'allergies', 'accessibility', 'kids', 'pregnancy', 'occasion'] as const;
+export type NoteCategory = typeof NOTE_CATEGORIES[number];
+
+// Shared unless the user says otherwise. Allergies and pregnancy are health
+// details, so they only go to a venue once the user opts in
+export const DEFAULT_NOTE_CATEGORIES: readonly NoteCategory[] = ['dietary', 'accessibility', 'kids', 'occasion'];
+
+// Remembered facts worth passing to the venue as a special request
+const SPECIAL_REQUEST_PATTERNS: Array<[RegExp, NoteCategory]> = [
+  [/allerg|celiac|anaphyla/i, 'allergies'],
+  [/gluten[- ]free|dairy[- ]free|lactose|nut[- ]free/i, 'dietary'],
+  [/\b(vegan|vegetarian|pescatarian|kosher|halal)\b/i, 'dietary'],
+  [/wheelchair|accessib|mobility|crutches/i, 'accessibility'],
+  [/high ?chair|stroller|toddler|infant|\bbaby\b/i, 'kids'],
+  [/pregnan/i, 'pregnancy'],
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const OCCASION_KEYWORDS: Array<[RegExp, ResyOccasion]> = [
+  [/birthday|\bbday\b/i, 'Birthday'],
+  [/anniversary/i, 'Anniversary'],
+];
+
+// "june 7", "Jun 7th", "6/7"
+function mentionsDay(fact: string, date: string): boolean {
+  const [, month, day] = date.split('-').map(Number);
+  const named = new RegExp(`\\b${MONTHS[month - 1]}[a-z]*\\.?\\s+${day}(st|nd|rd|th)?\\b`, 'i');
+  const numeric = new RegExp(`\\b0?${month}/0?${day}\\b`);
+  return named.test(fact) || numeric.test(fact);
+}
+
+/**
+ * Pre-fill booking notes from what we remember about the user, limited to the
+ * categories they share: dietary, accessibility and kid needs become the
+ * special request, and a remembered birthday or anniversary on the booking
+ * date becomes the occasion. A fact touching any unshared category is left out.
+ */
+export function suggestBookingNotes(
+  facts: string[],
+  date: string,
+  categories: readonly NoteCategory[] = DEFAULT_NOTE_CATEGORIES,
+): ResyBookingNotes {
+  const needs = facts.filter(fact => {
+    const matched = SPECIAL_REQUEST_PATTERNS.filter(([pattern]) => pattern.test(fact)).map(([, category]) => category);
+    return matched.length > 0 && matched.every(category => categories.includes(category));
+  });
+  const occasion = categories.includes('occasion')
+    ? OCCASION_KEYWORDS.find(([pattern]) => facts.some(fact => pattern.test(fact) && mentionsDay(fact, date)))?.[1]
+    : undefined;
+  return {
+    occasion,
+    special_request: needs.length > 0 ? needs.join('; ') : undefined,
+  };
+}
@@ -0,0 +1,49 @@
+// Retry and circuit-breaker primitives for the Resy client.
+
+export interface RetryPolicy {
+  maxRetries: number;  // retries after the first attempt
+  baseDelayMs: number; // doubled per retry
+  maxDelayMs: number;  // cap on any single wait, including Retry-After
+}
+
+/**
+ * Wait before retry number `attempt` (0-based): full jitter over an
+ * exponential ceiling, or the server's Retry-After when it gave one.
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number, random = Math.random): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, policy.maxDelayMs);
+  const ceiling = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+  return Math.round(random() * ceiling);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Consecutive-failure circuit breaker. After `threshold` failures in a row it
+ * opens for `cooldownMs`; after that requests flow again and the next success
+ * closes it (a failure re-opens it straight away).
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+
+  constructor(private readonly threshold: number, private readonly cooldownMs: number) {}
+
+  /** When the breaker lets requests through again, or null if it's closed. */
+  openUntil(now = Date.now()): Date | null {
+    if (this.failures < this.threshold) return null;
+    const until = this.openedAt + this.cooldownMs;
+    return now < until ? new Date(until) : null;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+  }
+
+  recordFailure(now = Date.now()): void {
+    this.failures++;
+    if (this.failures >= this.threshold) this.openedAt = now;
+  }
+}
@@ -11,14 +11,77 @@ export interface ResyVenue {
   rating?: number;
   url_slug: string;
   url: string;         // e.g., https://resy.com/cities/new-york/carbone-new-york
+  available_times?: string[]; // HH:MM, only when searched with an availability filter
+}
+
+/**
+ * Full venue profile from /3/venue — everything the agent would otherwise
+ * have to web-search for.
+ */
+export interface ResyVenueDetails extends ResyVenue {
+  address: {
+    line1: string;
+    line2?: string;
+    postal_code?: string;
+    full: string;      // single-line, ready to text
+  };
+  coordinates?: { lat: number; lng: number };
+  timezone?: string;   // IANA, e.g. "America/New_York"
+  phone?: string;
+  website?: string;
+  tagline?: string;
+  description?: string;
+  need_to_know?: string;
+  policies: {
+    cancellation?: string;
+    deposit?: string;
+  };
+  seating_types: string[]; // bookable types, e.g. ["Dining Room", "Bar"]
 }
 
 export interface ResyTimeSlot {
   config_token: string;
-  date: string;        // YYYY-MM-DD
-  time: string;        // HH:MM (24h)
+  date: string;        // YYYY-MM-DD — the service day searched
+  time: string;        // HH:MM (24h), venue-local wall clock
   party_size: number;
   type: string;        // e.g., "Dining Room", "Bar", "Patio"
+  timezone?: string;   // venue IANA zone, when Resy reports it
+  utc_offset?: string; // e.g., "-07:00" — venue offset at this slot
+}
+
+/**
+ * Money terms attached to a slot, read from /3/details before booking.
+ * Amounts are in the venue's currency (USD in practice).
+ */
+export interface ResyBookingTerms {
+  cancellation_fee?: number;     // charged for late cancellation
+  cancellation_cutoff?: string;  // ISO — cancelling before this is free
+  no_show_fee?: number;
+  deposit?: number;              // charged at booking
+  policy_text: string[];         // Resy's own policy wording
+  requires_payment_method: boolean;
+}
+
+/** The most the user agreed to pay per fee, in the same units as the terms. */
+export type FeeLimits = Pick<ResyBookingTerms, 'deposit' | 'cancellation_fee' | 'no_show_fee'>;
+
+/** A saved card, masked for display. */
+export interface ResyPaymentMethod {
+  id: number;
+  brand: string;       // e.g., "Visa"
+  last4: string;
+  expires?: string;    // MM/YY
+  is_default: boolean;
+}
+
+/** Occasions Resy lets a guest tag a reservation with. */
+export const RESY_OCCASIONS = ['Birthday', 'Anniversary', 'Date Night', 'Business Meal', 'Celebration'] as const;
+export type ResyOccasion = typeof RESY_OCCASIONS[number];
+
+/** Guest notes sent with a booking and shown back on the reservation. */
+export interface ResyBookingNotes {
+  occasion?: ResyOccasion;
+  special_request?: string;  // free text: allergies, high chair, accessibility...
 }
 
 export interface ResyBookingConfirmation {
@@ -30,16 +93,36 @@ export interface ResyBookingConfirmation {
   time: string;
   party_size: number;
   type: string;
+  agreed_terms: ResyBookingTerms;   // fee terms in force when the user booked
+  payment_method?: ResyPaymentMethod;
+  occasion?: ResyOccasion;
+  special_request?: string;
 }
 
 export interface ResyReservation {
   resy_token: string;
   reservation_id: number;
+  venue_id?: number;
   venue_name: string;
   date: string;
   time: string;
   party_size: number;
   type: string;
+  occasion?: string;
+  special_request?: string;
+}
+
+/** A reservation that has already happened (or was cancelled / no-showed). */
+export interface ResyPastReservation extends ResyReservation {
+  outcome: 'completed' | 'cancelled' | 'no_show';
+}
+
+export interface ResyHistoryPage {
+  reservations: ResyPastReservation[];  // most recent first
+  offset: number;
+  limit: number;
+  total?: number;                       // when Resy reports it
+  next_offset?: number;                 // unset on the last page
 }
 
 export interface ResyCancellationResult {
@@ -47,3 +130,57 @@ export interface ResyCancellationResult {
   resy_token: string;
   error?: string;
 }
+
+export interface ResyDayAvailability {
+  date: string;                       // YYYY-MM-DD
+  weekday: string;                    // e.g., "Fri"
+  times: Record<string, string[]>;    // seating type → ["19:00", "19:30"]
+}
+
+/** Compact, grouped result of a multi-day slot search. */
+export interface ResySlotRange {
+  venue_id: number;
+  party_size: number;
+  days: ResyDayAvailability[];        // only days with matching slots
+  days_checked: number;
+  days_failed: string[];              // dates whose lookup errored
+  truncated_to?: string;              // set when the range was capped
+}
+
+export interface ResyVenueAvailability {
+  venue_id: number;
+  venue_name?: string;
+  status: 'available' | 'fully_booked' | 'error';
+  closest_time?: string;   // HH:MM of the slot nearest the desired time
+  minutes_off?: number;    // |closest_time - desired time|
+  seating_type?: string;   // seating type of closest_time
+  other_times?: string[];  // next-nearest alternatives
+  error?: string;
+}
+
+/** Side-by-side availability for several venues on one date. */
+export interface ResyAvailabilityComparison {
+  date: string;
+  party_size: number;
+  desired_time: string;
+  ranked: ResyVenueAvailability[];      // available venues, closest first
+  fully_booked: ResyVenueAvailability[];
+  errors: ResyVenueAvailability[];
+  truncated?: number;                   // venues past the limit that weren't checked
+}
+
+/**
+ * Outcome of moving a reservation. The new slot is booked before the old one is
+ * cancelled, so every status says exactly which reservations the user now holds:
+ * - modified: new booking held, original cancelled
+ * - unchanged: new booking failed, original untouched
+ * - rolled_back: original couldn't be cancelled, so the new booking was cancelled — original kept
+ * - needs_attention: original couldn't be cancelled AND the rollback failed — user holds both
+ */
+export interface ResyModificationResult {
+  status: 'modified' | 'unchanged' | 'rolled_back' | 'needs_attention';
+  original: ResyReservation;
+  new_booking?: ResyBookingConfirmation;
+  message: string;
+  error?: string;
+}
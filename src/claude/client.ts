@@ -1,11 +1,51 @@
+import crypto from 'node:crypto';
 import Anthropic from '@anthropic-ai/sdk';
-import { getConversation, addMessage, clearConversation, getUserProfile, setUserName, addUserFact, clearUserProfile, UserProfile, StoredMessage } from '../state/conversation.js';
-import { searchRestaurants, findSlots, bookReservation, getReservations, cancelReservation, getResyProfile } from '../bookings/index.js';
+import { getConversation, getConversationWithSummary, addMessage, clearConversation, compactConversation, getUserProfile, clearUserProfile, UserProfile, StoredMessage } from '../state/conversation.js';
+import { getWorkingMemory, saveWorkingMemory, clearWorkingMemory, describeWorkingMemory } from '../state/memory.js';
+import type { WorkingMemory } from '../state/memory.js';
+import { createProviders } from '../providers/index.js';
+import type { Diner } from '../providers/index.js';
 import type { BookingsCredentials } from '../auth/types.js';
-import { clearCredentials, clearSignedOut as clearSignedOutFlag } from '../auth/index.js';
+import { clearSignedOut as clearSignedOutFlag } from '../auth/index.js';
+import { transcribeAudio, TranscriptionError } from '../transcription/index.js';
+import { recordUsage, checkBudget, budgetLevel, estimateCost, tokenCounts } from '../usage/index.js';
+import type { UsageOrigin, UsagePurpose } from '../usage/index.js';
+import { toolRegistry, runTool, summarizeToolCall } from './tools/index.js';
+import type { ToolContext, ToolOutput } from './tools/index.js';
 
 const client = new Anthropic();
 
+const CHAT_MODEL = 'claude-sonnet-4-20250514';
+const FAST_MODEL = 'claude-3-5-haiku-20241022';
+
+// Usage writes still in flight. Calls don't wait on them; flushUsage() does
+const pendingUsage = new Set<Promise<unknown>>();
+
+/**
+ * messages.create, with the call's tokens and estimated cost recorded against
+ * the chat and sender it was made for. The write runs in the background.
+ */
+async function createMessage(
+  params: Anthropic.MessageCreateParamsNonStreaming,
+  origin: UsageOrigin,
+  purpose: UsagePurpose,
+): Promise<Anthropic.Message> {
+  const response = await client.messages.create(params);
+  // recordUsage never rejects
+  const write = recordUsage(origin, purpose, params.model, response.usage);
+  pendingUsage.add(write);
+  void write.finally(() => pendingUsage.delete(write));
+  return response;
+}
+
+/**
+ * Wait for every usage write started so far. Call before a Lambda returns,
+ * so a frozen sandbox doesn't drop them.
+ */
+export async function flushUsage(): Promise<void> {
+  await Promise.all([...pendingUsage]);
+}
+
 const SYSTEM_PROMPT = `You are a helpful AI reservation assistant accessible via text message. You're powered by Claude (Anthropic) and connected to Resy for restaurant reservations.
 
 Built on the Linq messaging platform (linqapp.com), which bridges iMessage and RCS to your backend.
@@ -21,19 +61,63 @@ IMPORTANT RULES:
 - You do NOT handle auth. The system does. Your job starts AFTER the user is authenticated.
 
 ## What You Do
-- Search for restaurants on Resy
+- Search for restaurants on Resy, and on OpenTable when its connected
+- Look up a venue's address, timezone, phone, description, and cancellation or deposit policy (resy_venue_details) — it doesnt include opening hours, web search for those
 - Check available time slots for specific dates and party sizes
+- Search a whole date range at once ("anything next weekend between 7 and 9?") with resy_find_slots_range
+- Compare several restaurants at once ("which of Lilia, Via Carota or I Sodi has an 8pm?") with resy_compare_availability
 - Book reservations directly through Resy
 - View and cancel upcoming reservations
+- Look up what you booked or cancelled for them, with the fees they agreed to (resy_booking_log)
+- Read and update their Resy favorites / hit list (resy_favorites)
+- Answer questions about where theyve eaten before ("when was I last at Lilia?", "how many times did we go out in September?") with resy_history
+- Move an existing reservation to a new date, time or party size (resy_prepare_booking with replaces_resy_token)
+- Watch a sold-out restaurant and text the user when a table opens up (resy_watch)
+- Snipe tables at hot spots the instant the venue releases them (resy_snipe)
 - Look up the user's Resy profile (name, email, etc.) using resy_profile
+- List the user's saved cards (masked) and book with a non-default one (resy_payment_methods)
 - Sign users out using resy_sign_out (MUST use the tool — never fake it)
 - Provide recommendations based on cuisine, location, and preferences
 
 ## Resy Booking Flow
-1. Search for restaurants → get venue IDs
-2. Find available slots for a venue/date/party size → see whats open
-3. Book by venue ID + date + time + party size (always confirm with the user first — this is a REAL reservation)
-4. Cancel using a resy_token from an existing reservation
+1. Search for restaurants → get venue IDs. Places theyve eaten before come first and carry past_visits / last_visited — use that when recommending ("you loved Lilia last month" vs suggesting somewhere new). Turn specifics into filters instead of stuffing them in the query: "cheap thai in the east village with a table tonight" → cuisine "Thai", price_max 2, neighborhood "East Village", available_date today + party_size (+ time window). Filtered results only include venues that match, and available_date results carry available_times — so you can offer times straight away
+2. Find available slots for a venue/date/party size → see whats open (for more than one date, use resy_find_slots_range in a single call instead of checking day by day). Slot times are always the venue's local time — quote them as-is, never convert them to the user's zone
+3. Book in two steps. resy_prepare_booking (venue ID + date + time + party size) resolves the exact slot and returns a pending_booking_id — nothing is booked yet. Tell the user the exact venue, date, time, party size and any fees, and ask them to confirm. Only after they reply yes, call resy_confirm_booking with that id. The system rejects a confirm in the same turn as the prepare, so never try to do both at once
+4. Cancel using the reservation_token (and provider) from an existing reservation. For "cancel the one you just made" or "the one you booked yesterday", find it with resy_booking_log and confirm which one before cancelling. still_held only knows about cancellations you made, so check resy_reservations if in doubt
+5. To reschedule or change party size, call resy_prepare_booking with replaces_resy_token set to the existing reservation — NEVER cancel and rebook yourself. On confirm the new slot is booked first and the original is only cancelled once that succeeds. Relay the result status honestly (e.g. "unchanged" means their original table is still held)
+6. If they care where they sit ("dining room, not the bar"), pass seating_preference (ranked, best first) and avoid_seating. When only other seating is open you get "seating_unavailable" with the types that ARE open — tell them plainly (e.g. "only bar seats left at 8, want those?") and never book other seating without a yes
+7. Occasion and special_request notes go to the venue. Leave them out and theyre pre-filled from what you remember about the user, but only in the categories they share (by default dietary needs, accessibility, kids and a birthday or anniversary on that date) — prefilled_from_profile tells you which. Allergies and pregnancy are never sent unless they opt in; if they want them shared, save that with set_booking_note_sharing. Always quote notes_sent in your confirmation question ("ill note: has a toddler") so they can drop anything they dont want shared. resy_reservations shows what was sent
+8. Pending bookings expire after 15 minutes. If the user changes anything (time, party size, card), prepare again and confirm the new id
+
+## Other Providers
+Resy is the main platform, but resy_search also covers other connected providers like OpenTable. Every search result, slot and reservation carries a provider.
+- venue IDs are only unique within a provider, so always pass the provider along with a venue_id to resy_find_slots and resy_prepare_booking, and with a reservation_token to resy_cancel
+- If a place is booked up on one provider and also listed on another, check the other before giving up. Say which one youre booking on in your confirmation question
+- Venue details, date ranges, comparisons, history, favorites, watches, snipes, moves and saved cards are Resy only
+- OpenTable books in the users name and the phone number theyre texting from, so its off until they agree to that. If set_opentable_booking is available and a search comes up short, ask once; enable it only on a clear yes
+
+## Fees, Deposits and Cards
+Some slots charge a deposit or carry cancellation/no-show fees. resy_prepare_booking returns them in "fees" and "terms".
+- If there are fees, say them plainly in your confirmation question (amounts and the free-cancellation cutoff). The user saying yes to that message is their agreement to the fees
+- The booking uses their default card. If they want a different one, call resy_payment_methods and pass the chosen payment_method_id to resy_prepare_booking. Only ever mention cards by brand and last 4
+- For watches that auto-book and for snipes, ask how much in fees theyre ok with and pass it as max_fee — slots over it are skipped. Leave it out and only fee-free tables get booked
+
+## Location
+Searches and slot checks center on the user's saved home location, falling back to NYC if they havent set one. When they mention where they live ("im in austin", "i live in silver lake") save it with set_home_location. For a one-off search somewhere else, pass location (a city or neighborhood name) to resy_search rather than guessing coordinates — only fall back to lat/lng if the name cant be resolved. If you dont know where they are and the request depends on it, ask.
+
+## Favorites
+Their Resy favorites are their "want to try" list (resy_favorites). For "something from my list thats open thursday", list favorites then pass them to resy_compare_availability (up to 10 at a time) — dont check them one by one. Add or remove a favorite when they ask ("save that one", "take Carbone off my list").
+
+## Availability Watches
+If nothing is open for what they want, offer to watch it. Use resy_watch with action "create" and a time window (e.g. "between 7 and 9" → 19:00 to 21:00). The system checks every few minutes and texts them when a matching table appears.
+- Only set auto_book when the user explicitly asks you to grab it for them. An auto-booking watch is held until they confirm: show the details and fee limit, and call resy_watch with action "confirm" and the pending_id only after they reply yes
+- Use action "list" to show their watches and "cancel" with a watch_id to stop one
+
+## Release Snipes
+Many venues release tables at a fixed time a set number of days out (e.g. 10am, 30 days ahead). If the date they want isnt released yet, offer a snipe: resy_snipe with action "create", the reservation date, their time window, and the venue's release_time + days_out (look these up with web search if you dont know them). The system wakes right before the drop and books the first table in their window, then texts them the result.
+- Creating a snipe only holds it: show the details and fee limit, and call resy_snipe with action "confirm" and the pending_id only after they reply yes
+- Use action "list" to show snipes; missed snipes include a reason you can relay
+- Use action "cancel" with a snipe_id to stop one
 
 When a booking is confirmed, ALWAYS send the venue_url from the confirmation as a separate message so the user can tap it. Example: "heres your reservation link" then "---" then the URL.
 
@@ -44,6 +128,7 @@ You have full access to the conversation history. USE IT:
 - Track what venues youve already searched, what slots youve shown, and what was booked or cancelled
 - When the user follows up vaguely ("how about tomorrow instead", "try 8pm", "the second one"), resolve it from context
 - If you made a booking earlier in the conversation, remember the details (venue, time, party size, resy_token)
+- Messages starting with "[voice note]" are transcribed voice memos — treat them like typed text, but expect the odd misheard name and confirm restaurant names that look off before booking
 
 ## Response Style
 You're texting — write like you're texting a helpful friend who knows all the best spots.
@@ -69,7 +154,7 @@ Guidelines:
 - /bookings — show upcoming reservations
 
 ## Web Search
-Use web search proactively when users ask about restaurants — look up reviews, menus, hours, etc.
+For basic venue facts (address, neighborhood, cancellation or deposit policy, seating options) use resy_venue_details first — it's faster and authoritative. Use web search for things Resy doesnt have: reviews, menus, dress codes, etc.
 
 ## Reactions
 React to messages sparingly — text responses are always preferred. Use reactions only as supplements.
@@ -90,13 +175,17 @@ Bubble: slam, loud, gentle, invisible_ink
 
 DEFAULT: Just text. Only add effects if asked.`;
 
-function buildSystemPrompt(chatContext?: ChatContext): string {
+/**
+ * recall carries the structured working memory: what earlier tool calls in
+ * this chat turned up. The running summary goes in the messages instead.
+ */
+function buildSystemPrompt(chatContext?: ChatContext, recall: { memory?: WorkingMemory } = {}): string {
   let prompt = SYSTEM_PROMPT;
 
   // Add user profile info if available
   if (chatContext?.senderHandle) {
     const profile = chatContext.senderProfile;
-    if (profile?.name || (profile?.facts && profile.facts.length > 0)) {
+    if (profile?.name || (profile?.facts && profile.facts.length > 0) || profile?.homeLocation) {
       prompt += `\n\n## About the person you're talking to (YOU ALREADY KNOW THIS - don't re-save it!)`;
       prompt += `\nHandle: ${chatContext.senderHandle}`;
       if (profile.name) {
@@ -105,6 +194,9 @@ function buildSystemPrompt(chatContext?: ChatContext): string {
       if (profile.facts && profile.facts.length > 0) {
         prompt += `\nThings you remember about them (already saved):\n- ${profile.facts.join('\n- ')}`;
       }
+      if (profile.homeLocation) {
+        prompt += `\nHome location: ${profile.homeLocation.name} (already saved - searches default to it)`;
+      }
       prompt += `\n\nUse their name naturally in conversation! Only use remember_user for genuinely NEW info.`;
     } else {
       prompt += `\n\n## About the person you're talking to
@@ -143,6 +235,14 @@ This conversation is happening over ${chatContext.service}.`;
     }
   }
 
+  const remembered = recall.memory && describeWorkingMemory(recall.memory);
+  if (remembered) {
+    prompt += `\n\n## Working Memory (this chat)
+What earlier tool calls in this chat turned up. Use these venue IDs, reservation tokens and pending ids directly — "cancel that one" or "book the 8pm" should resolve from here without another lookup. Open times go fast, so prepare_booking still re-checks them.
+
+${remembered}`;
+  }
+
   if (chatContext?.justOnboarded) {
     prompt += `\n\n## IMPORTANT CONTEXT
 This user JUST connected their account moments ago. This is their first message after completing onboarding. Welcome them and offer to help them find and book a reservation.`;
@@ -151,223 +251,20 @@ This user JUST connected their account moments ago. This is their first message
   return prompt;
 }
 
-const REACTION_TOOL: Anthropic.Tool = {
-  name: 'send_reaction',
-  description: 'Send an iMessage reaction to the user\'s message. Use standard tapbacks (love, like, laugh, etc.) OR any custom emoji.',
-  input_schema: {
-    type: 'object' as const,
-    properties: {
-      type: {
-        type: 'string',
-        enum: ['love', 'like', 'dislike', 'laugh', 'emphasize', 'question', 'custom'],
-        description: 'The reaction type. Use "custom" to send any emoji.',
-      },
-      emoji: {
-        type: 'string',
-        description: 'Required when type is "custom". The emoji to react with.',
-      },
-    },
-    required: ['type'],
-  },
-};
-
-const EFFECT_TOOL: Anthropic.Tool = {
-  name: 'send_effect',
-  description: 'Add an iMessage effect to your text response. ONLY use when the user explicitly asks for an effect. You MUST also write a text message.',
-  input_schema: {
-    type: 'object' as const,
-    properties: {
-      effect_type: {
-        type: 'string',
-        enum: ['screen', 'bubble'],
-        description: 'Whether this is a full-screen effect or a bubble effect',
-      },
-      effect: {
-        type: 'string',
-        enum: ['confetti', 'fireworks', 'lasers', 'sparkles', 'celebration', 'hearts', 'love', 'balloons', 'happy_birthday', 'echo', 'spotlight', 'slam', 'loud', 'gentle', 'invisible_ink'],
-        description: 'The specific effect to use',
-      },
-    },
-    required: ['effect_type', 'effect'],
-  },
-};
-
-const RENAME_CHAT_TOOL: Anthropic.Tool = {
-  name: 'rename_group_chat',
-  description: 'Rename the current group chat. ONLY use when someone EXPLICITLY asks to rename/name the chat.',
-  input_schema: {
-    type: 'object' as const,
-    properties: {
-      name: {
-        type: 'string',
-        description: 'The new name for the group chat',
-      },
-    },
-    required: ['name'],
-  },
-};
-
-const REMEMBER_USER_TOOL: Anthropic.Tool = {
-  name: 'remember_user',
-  description: 'Save NEW information about someone. ONLY use when you learn genuinely NEW info. NEVER re-save info already shown in the system prompt. CRITICAL: You MUST write a text response too.',
-  input_schema: {
-    type: 'object' as const,
-    properties: {
-      handle: {
-        type: 'string',
-        description: 'The phone number/handle of the person this info is about.',
-      },
-      name: {
-        type: 'string',
-        description: 'The person\'s name if they shared it.',
-      },
-      fact: {
-        type: 'string',
-        description: 'An interesting fact about them worth remembering.',
-      },
-    },
-  },
-};
-
-// Web search uses a special tool type
-const WEB_SEARCH_TOOL = {
-  type: 'web_search_20250305',
-  name: 'web_search',
-} as unknown as Anthropic.Tool;
-
-// ─── Resy Tools ─────────────────────────────────────────────────────────────
-
-const RESY_SEARCH_TOOL: Anthropic.Tool = {
-  name: 'resy_search',
-  description: 'Search for restaurants on Resy. Use when someone asks about finding a place to eat or a restaurant. Returns venue IDs needed for checking availability.',
-  input_schema: {
-    type: 'object' as const,
-    properties: {
-      query: {
-        type: 'string',
-        description: 'Search keyword (e.g., "italian", "sushi", "steakhouse", "Carbone").',
-      },
-      lat: {
-        type: 'number',
-        description: 'Latitude for location-based search. Defaults to NYC.',
-      },
-      lng: {
-        type: 'number',
-        description: 'Longitude for location-based search. Defaults to NYC.',
-      },
-    },
-    required: ['query'],
-  },
-};
-
-const RESY_FIND_SLOTS_TOOL: Anthropic.Tool = {
-  name: 'resy_find_slots',
-  description: 'Find available time slots at a Resy venue for a given date and party size. Returns config tokens needed for booking.',
-  input_schema: {
-    type: 'object' as const,
-    properties: {
-      venue_id: {
-        type: 'number',
-        description: 'The Resy venue ID (from resy_search results).',
-      },
-      date: {
-        type: 'string',
-        description: 'Date to check (YYYY-MM-DD format).',
-      },
-      party_size: {
-        type: 'number',
-        description: 'Number of guests.',
-      },
-      lat: {
-        type: 'number',
-        description: 'Latitude. Defaults to NYC.',
-      },
-      lng: {
-        type: 'number',
-        description: 'Longitude. Defaults to NYC.',
-      },
-    },
-    required: ['venue_id', 'date', 'party_size'],
-  },
-};
-
-const RESY_BOOK_TOOL: Anthropic.Tool = {
-  name: 'resy_book',
-  description: 'Book a reservation on Resy. Automatically finds a fresh slot at booking time so tokens dont expire. This makes a REAL reservation — always confirm venue, date, time, and party size with the user before calling this.',
-  input_schema: {
-    type: 'object' as const,
-    properties: {
-      venue_id: {
-        type: 'number',
-        description: 'The Resy venue ID (from resy_search results).',
-      },
-      date: {
-        type: 'string',
-        description: 'Reservation date (YYYY-MM-DD).',
-      },
-      party_size: {
-        type: 'number',
-        description: 'Number of guests.',
-      },
-      time: {
-        type: 'string',
-        description: 'Desired time in HH:MM 24h format (e.g., "19:00"). Picks the closest available slot.',
-      },
-    },
-    required: ['venue_id', 'date', 'party_size'],
-  },
-};
-
-const RESY_CANCEL_TOOL: Anthropic.Tool = {
-  name: 'resy_cancel',
-  description: 'Cancel a Resy reservation using the resy_token (rr://... format). Get this from resy_reservations results.',
-  input_schema: {
-    type: 'object' as const,
-    properties: {
-      resy_token: {
-        type: 'string',
-        description: 'The resy_token for the reservation to cancel (rr://... format).',
-      },
-    },
-    required: ['resy_token'],
-  },
-};
-
-const RESY_RESERVATIONS_TOOL: Anthropic.Tool = {
-  name: 'resy_reservations',
-  description: 'View the user\'s upcoming Resy reservations. Use when someone asks about their bookings, reservations, or upcoming dinner plans.',
-  input_schema: {
-    type: 'object' as const,
-    properties: {},
-  },
-};
-
-const RESY_PROFILE_TOOL: Anthropic.Tool = {
-  name: 'resy_profile',
-  description: 'Get the user\'s Resy profile info — name, email, phone, booking count, etc. Use when they ask about their account, "what\'s my name", or you need their details.',
-  input_schema: {
-    type: 'object' as const,
-    properties: {},
-  },
-};
-
-const RESY_SIGN_OUT_TOOL: Anthropic.Tool = {
-  name: 'resy_sign_out',
-  description: 'Disconnect the user\'s Resy account. Use when they want to sign out, log out, disconnect, or reset their Resy connection. After calling this, tell them to text again to reconnect.',
-  input_schema: {
-    type: 'object' as const,
-    properties: {},
-  },
-};
-
-// Tools that return data Claude needs to reason about (require tool-use loop)
-const DATA_RETRIEVAL_TOOLS = new Set([
-  'resy_search', 'resy_find_slots', 'resy_reservations',
-  'resy_book', 'resy_cancel', 'resy_sign_out', 'resy_profile',
-]);
-
 const MAX_TOOL_LOOPS = 5;
 
+/**
+ * Who OpenTable and similar providers book for. They book in the user's name
+ * and phone number, so only once the user has opted in, and iMessage email
+ * handles get no diner (and no such providers).
+ */
+function dinerFor(handle?: string, profile?: UserProfile | null): Diner | undefined {
+  if (!profile?.openTableOptIn) return undefined;
+  if (!handle || !/^\+?\d{7,15}$/.test(handle)) return undefined;
+  const [firstName, ...rest] = (profile?.name ?? '').trim().split(/\s+/);
+  return { phone: handle, firstName: firstName || undefined, lastName: rest.join(' ') || undefined };
+}
+
 export type StandardReactionType = 'love' | 'like' | 'dislike' | 'laugh' | 'emphasize' | 'question';
 export type ReactionType = StandardReactionType | 'custom';
 export type MessageEffect = { type: 'screen' | 'bubble'; name: string };
@@ -409,6 +306,7 @@ export interface ChatContext {
   service?: MessageService;
   bookingsCredentials?: BookingsCredentials | null;
   justOnboarded?: boolean;
+  messageId?: string;  // incoming message id — identifies the user turn
 }
 
 /**
@@ -424,6 +322,22 @@ function formatHistoryForClaude(messages: StoredMessage[], isGroupChat: boolean)
   });
 }
 
+/**
+ * Put the running summary of older turns ahead of the history, as user-role
+ * text so the system prompt stays the same from turn to turn.
+ */
+function withSummary(summary: string | null | undefined, messages: Anthropic.MessageParam[]): Anthropic.MessageParam[] {
+  if (!summary) return messages;
+  const block: Anthropic.TextBlockParam = {
+    type: 'text',
+    text: `[Summary of earlier messages in this conversation, no longer shown verbatim. Treat it like the history itself.]\n${summary}`,
+  };
+  const [first, ...rest] = messages;
+  if (first?.role !== 'user') return [{ role: 'user', content: [block] }, ...messages];
+  const content = typeof first.content === 'string' ? [{ type: 'text' as const, text: first.content }] : first.content;
+  return [{ role: 'user', content: [block, ...content] }, ...rest];
+}
+
 export async function chat(chatId: string, userMessage: string, images: ImageInput[] = [], audio: AudioInput[] = [], chatContext?: ChatContext): Promise<ChatResponse> {
   const emptyResponse = {
     reaction: null,
@@ -443,7 +357,7 @@ export async function chat(chatId: string, userMessage: string, images: ImageInp
   }
 
   if (cmd === '/clear') {
-    await clearConversation(chatId);
+    await Promise.all([clearConversation(chatId), clearWorkingMemory(chatId)]);
     return { text: "conversation cleared, fresh start", ...emptyResponse };
   }
 
@@ -455,11 +369,47 @@ export async function chat(chatId: string, userMessage: string, images: ImageInp
     return { text: "hmm couldnt figure out who you are to forget you", ...emptyResponse };
   }
 
+  // Over the daily budget: the smaller model past the soft limit, nothing past the cap
+  const origin: UsageOrigin = { chatId, handle: chatContext?.senderHandle };
+  const budget = origin.handle ? await checkBudget(origin.handle) : null;
+  if (budget?.level === 'exhausted') {
+    return { text: "ive hit my limit for today, text me again tomorrow and ill pick up right where we left off", ...emptyResponse };
+  }
+  // Each call re-checks the budget, counting this turn's own calls before their
+  // usage writes land. Past the cap mid-turn it still finishes, on the smaller model
+  let turnCostUsd = 0;
+  const chatCall = async (params: Omit<Anthropic.MessageCreateParamsNonStreaming, 'model'>) => {
+    const model = !budget || budgetLevel(budget.spentUsd + turnCostUsd) === 'ok' ? CHAT_MODEL : FAST_MODEL;
+    const response = await createMessage({ ...params, model }, origin, 'chat');
+    turnCostUsd += estimateCost(model, tokenCounts(response.usage));
+    return response;
+  };
+
   // Per-user Resy auth token
   const resyAuthToken = chatContext?.bookingsCredentials?.resyAuthToken ?? null;
+  // Everywhere this user can book; shared tools route by each venue's provider
+  const providers = createProviders({
+    resyAuthToken,
+    diner: dinerFor(chatContext?.senderHandle, chatContext?.senderProfile),
+  });
 
-  // Get conversation history
-  const history = await getConversation(chatId);
+  // Voice notes become text before Claude or the history sees them
+  let transcript = '';
+  if (audio.length > 0) {
+    try {
+      transcript = await transcribeAudio(audio);
+    } catch (error) {
+      console.error('[claude] Voice note transcription failed:', error instanceof Error ? error.message : error);
+      return {
+        text: error instanceof TranscriptionError ? error.userMessage : 'i couldnt make out that voice note, mind typing it instead?',
+        ...emptyResponse,
+      };
+    }
+  }
+
+  // Get conversation history and what earlier tool calls turned up
+  const [{ messages: history, summary }, memory] = await Promise.all([getConversationWithSummary(chatId), getWorkingMemory(chatId)]);
+  const memoryVersion = memory.updatedAt;
 
   // Build message content
   const messageContent: Anthropic.ContentBlockParam[] = [];
@@ -471,7 +421,7 @@ export async function chat(chatId: string, userMessage: string, images: ImageInp
     });
   }
 
-  let textToSend = userMessage.trim();
+  let textToSend = [userMessage.trim(), transcript && `[voice note] ${transcript}`].filter(Boolean).join('\n');
   if (!textToSend && images.length > 0) {
     textToSend = "What's in this image?";
   }
@@ -486,30 +436,32 @@ export async function chat(chatId: string, userMessage: string, images: ImageInp
   try {
     const formattedHistory = formatHistoryForClaude(history, chatContext?.isGroupChat ?? false);
 
-    // Build tools list
-    const tools: Anthropic.Tool[] = [
-      REACTION_TOOL, EFFECT_TOOL, REMEMBER_USER_TOOL, WEB_SEARCH_TOOL,
-    ];
-    if (resyAuthToken) {
-      tools.push(
-        RESY_SEARCH_TOOL, RESY_FIND_SLOTS_TOOL,
-        RESY_BOOK_TOOL, RESY_CANCEL_TOOL,
-        RESY_RESERVATIONS_TOOL,
-        RESY_PROFILE_TOOL,
-        RESY_SIGN_OUT_TOOL,
-      );
-    }
-    if (chatContext?.isGroupChat) {
-      tools.push(RENAME_CHAT_TOOL);
-    }
+    // Tools offered in this chat; handlers read and update ctx as they run
+    const ctx: ToolContext = {
+      chatId,
+      // Confirmations are only accepted from a later turn than the prepare
+      turnId: chatContext?.messageId ?? crypto.randomUUID(),
+      handle: chatContext?.senderHandle,
+      chatContext,
+      resyAuthToken,
+      providers,
+      memory,
+      homeLocation: chatContext?.senderProfile?.homeLocation,
+      bookingSucceeded: false,
+      reaction: null,
+      effect: null,
+      renameChat: null,
+      rememberedUser: null,
+    };
+    const tools = toolRegistry.availableFor(ctx).map(definition => definition.schema);
+    // Tool outputs keyed by tool_use_id, so history can keep e.g. the pending booking id
+    const toolOutputs = new Map<string, ToolOutput>();
 
     // ── Tool-use loop ──────────────────────────────────────────────────────
-    let bookingSucceeded = false; // Track if a resy_book call succeeded
-    const messages: Anthropic.MessageParam[] = [...formattedHistory, { role: 'user', content: messageContent }];
-    let response = await client.messages.create({
-      model: 'claude-sonnet-4-20250514',
+    const messages: Anthropic.MessageParam[] = withSummary(summary, [...formattedHistory, { role: 'user', content: messageContent }]);
+    let response = await chatCall({
       max_tokens: 1024,
-      system: buildSystemPrompt(chatContext),
+      system: buildSystemPrompt(chatContext, { memory }),
       tools,
       messages,
     });
@@ -517,7 +469,7 @@ export async function chat(chatId: string, userMessage: string, images: ImageInp
     let loopCount = 0;
     while (response.stop_reason === 'tool_use' && loopCount < MAX_TOOL_LOOPS) {
       const hasDataTools = response.content.some(
-        block => block.type === 'tool_use' && DATA_RETRIEVAL_TOOLS.has(block.name)
+        block => block.type === 'tool_use' && toolRegistry.get(block.name)?.mode === 'data'
       );
       if (!hasDataTools) break;
 
@@ -528,96 +480,26 @@ export async function chat(chatId: string, userMessage: string, images: ImageInp
       for (const block of response.content) {
         if (block.type !== 'tool_use') continue;
 
-        // ── Resy tool execution ───────────────────────────────────
-        if (block.name === 'resy_search') {
-          const input = block.input as { query: string; lat?: number; lng?: number };
-          try {
-            const geo = input.lat && input.lng ? { lat: input.lat, lng: input.lng } : undefined;
-            const results = await searchRestaurants(resyAuthToken!, input.query, geo);
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: JSON.stringify(results) });
-          } catch (error) {
-            const msg = error instanceof Error ? error.message : 'Unknown error';
-            console.error('[claude] resy_search error:', msg);
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: `Error searching restaurants: ${msg}`, is_error: true });
-          }
-
-        } else if (block.name === 'resy_find_slots') {
-          const input = block.input as { venue_id: number; date: string; party_size: number; lat?: number; lng?: number };
-          try {
-            const geo = input.lat && input.lng ? { lat: input.lat, lng: input.lng } : undefined;
-            const slots = await findSlots(resyAuthToken!, input.venue_id, input.date, input.party_size, geo);
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: JSON.stringify(slots) });
-          } catch (error) {
-            const msg = error instanceof Error ? error.message : 'Unknown error';
-            console.error('[claude] resy_find_slots error:', msg);
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: `Error finding slots: ${msg}`, is_error: true });
-          }
-
-        } else if (block.name === 'resy_book') {
-          const input = block.input as { venue_id: number; date: string; party_size: number; time?: string };
-          try {
-            const confirmation = await bookReservation(resyAuthToken!, input.venue_id, input.date, input.party_size, input.time);
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: JSON.stringify(confirmation) });
-            bookingSucceeded = true;
-          } catch (error) {
-            const msg = error instanceof Error ? error.message : 'Unknown error';
-            console.error('[claude] resy_book error:', msg);
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: `Error booking reservation: ${msg}`, is_error: true });
-          }
-
-        } else if (block.name === 'resy_cancel') {
-          const input = block.input as { resy_token: string };
-          try {
-            const result = await cancelReservation(resyAuthToken!, input.resy_token);
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: JSON.stringify(result) });
-          } catch (error) {
-            const msg = error instanceof Error ? error.message : 'Unknown error';
-            console.error('[claude] resy_cancel error:', msg);
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: `Error cancelling reservation: ${msg}`, is_error: true });
-          }
-
-        } else if (block.name === 'resy_reservations') {
-          try {
-            const reservations = await getReservations(resyAuthToken!);
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: JSON.stringify(reservations) });
-          } catch (error) {
-            const msg = error instanceof Error ? error.message : 'Unknown error';
-            console.error('[claude] resy_reservations error:', msg);
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: `Error fetching reservations: ${msg}`, is_error: true });
-          }
-
-        } else if (block.name === 'resy_profile') {
-          try {
-            const profile = await getResyProfile(resyAuthToken!);
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: JSON.stringify(profile) });
-          } catch (error) {
-            const msg = error instanceof Error ? error.message : 'Unknown error';
-            console.error('[claude] resy_profile error:', msg);
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: `Error fetching profile: ${msg}`, is_error: true });
-          }
-
-        } else if (block.name === 'resy_sign_out') {
-          if (chatContext?.senderHandle) {
-            await clearCredentials(chatContext.senderHandle);
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: 'Signed out successfully. Credentials removed.' });
-            console.log(`[claude] User signed out via tool call`);
-          } else {
-            toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: 'Could not determine user identity.', is_error: true });
-          }
-
-        } else {
-          // Fire-and-forget tools
+        const definition = toolRegistry.get(block.name);
+        if (definition?.mode === 'data') {
+          const output = await runTool(definition, block.input, ctx);
+          toolOutputs.set(block.id, output);
+          toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: output.content, ...(output.isError && { is_error: true }) });
+        } else if (definition) {
+          // Signal tools run once the loop is done
           toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: 'ok' });
+        } else {
+          console.warn(`[claude] Unknown tool requested: ${block.name}`);
+          toolResults.push({ type: 'tool_result', tool_use_id: block.id, content: `Unknown tool ${block.name}`, is_error: true });
         }
       }
 
       messages.push({ role: 'assistant', content: response.content });
       messages.push({ role: 'user', content: toolResults });
 
-      response = await client.messages.create({
-        model: 'claude-sonnet-4-20250514',
+      response = await chatCall({
         max_tokens: 1024,
-        system: buildSystemPrompt(chatContext),
+        system: buildSystemPrompt(chatContext, { memory }),
         tools,
         messages,
       });
@@ -625,59 +507,31 @@ export async function chat(chatId: string, userMessage: string, images: ImageInp
       loopCount++;
     }
 
-    // ── Extract fire-and-forget tools from ALL responses ─────────────────
-    let reaction: Reaction | null = null;
-    let effect: MessageEffect | null = null;
-    let renameChat: string | null = null;
-    let rememberedUser: { name?: string; fact?: string; isForSender?: boolean } | null = null;
-
+    // ── Run signal tools from ALL responses ──────────────────────────────
     const allAssistantBlocks = messages
       .filter((m): m is Anthropic.MessageParam & { role: 'assistant' } => m.role === 'assistant')
       .flatMap(m => Array.isArray(m.content) ? m.content : []);
     const allBlocks = [...allAssistantBlocks, ...response.content];
 
     for (const block of allBlocks) {
-      if (block.type === 'tool_use' && block.name === 'send_reaction') {
-        const input = block.input as { type: ReactionType; emoji?: string };
-        if (input.type === 'custom' && input.emoji) {
-          reaction = { type: 'custom', emoji: input.emoji };
-        } else if (input.type !== 'custom') {
-          reaction = { type: input.type as StandardReactionType };
-        }
-      } else if (block.type === 'tool_use' && block.name === 'send_effect') {
-        const input = block.input as { effect_type: 'screen' | 'bubble'; effect: string };
-        effect = { type: input.effect_type, name: input.effect };
-      } else if (block.type === 'tool_use' && block.name === 'rename_group_chat') {
-        const input = block.input as { name: string };
-        renameChat = input.name;
-      } else if (block.type === 'tool_use' && block.name === 'remember_user') {
-        const input = block.input as { handle?: string; name?: string; fact?: string };
-        const targetHandle = input.handle || chatContext?.senderHandle;
-        if (targetHandle) {
-          let nameChanged = false;
-          let factChanged = false;
-
-          if (input.name) {
-            nameChanged = await setUserName(targetHandle, input.name);
-          }
-          if (input.fact) {
-            factChanged = await addUserFact(targetHandle, input.fact);
-          }
-
-          if (nameChanged || factChanged) {
-            const isForSender = !input.handle || input.handle === chatContext?.senderHandle;
-            rememberedUser = {
-              name: nameChanged ? input.name : undefined,
-              fact: factChanged ? input.fact : undefined,
-              isForSender
-            };
-          }
-        }
+      if (block.type !== 'tool_use') continue;
+      const definition = toolRegistry.get(block.name);
+      if (definition?.mode === 'signal') {
+        await runTool(definition, block.input, ctx);
       }
     }
+    const { reaction, renameChat, rememberedUser } = ctx;
+    let { effect } = ctx;
+
+    if (memory.updatedAt !== memoryVersion) {
+      // Only feeds later turns — a failed write shouldn't cost this reply
+      await saveWorkingMemory(chatId, memory).catch(error => {
+        console.error('[claude] Working memory save failed:', error instanceof Error ? error.message : error);
+      });
+    }
 
     // Auto-celebration: if a booking was successfully made, send confetti
-    if (bookingSucceeded && !effect) {
+    if (ctx.bookingSucceeded && !effect) {
       effect = { type: 'screen', name: 'celebration' };
       console.log('[claude] Auto-attaching celebration effect for successful booking');
     }
@@ -696,23 +550,9 @@ export async function chat(chatId: string, userMessage: string, images: ImageInp
     const toolSummaryParts: string[] = [];
     for (const block of allBlocks) {
       if (block.type !== 'tool_use') continue;
-      if (block.name === 'resy_search') {
-        const input = block.input as { query: string };
-        toolSummaryParts.push(`[searched resy for "${input.query}"]`);
-      } else if (block.name === 'resy_find_slots') {
-        const input = block.input as { venue_id: number; date: string; party_size: number };
-        toolSummaryParts.push(`[checked slots: venue ${input.venue_id}, ${input.date}, party of ${input.party_size}]`);
-      } else if (block.name === 'resy_book') {
-        toolSummaryParts.push(`[booked a reservation]`);
-      } else if (block.name === 'resy_cancel') {
-        toolSummaryParts.push(`[cancelled a reservation]`);
-      } else if (block.name === 'resy_reservations') {
-        toolSummaryParts.push(`[checked upcoming reservations]`);
-      } else if (block.name === 'resy_profile') {
-        toolSummaryParts.push(`[checked resy profile]`);
-      } else if (block.name === 'resy_sign_out') {
-        toolSummaryParts.push(`[signed out of resy]`);
-      }
+      const definition = toolRegistry.get(block.name);
+      const summary = toolOutputs.get(block.id)?.summary ?? (definition && summarizeToolCall(definition, block.input));
+      if (summary) toolSummaryParts.push(summary);
     }
 
     // Add assistant response to history (include tool context so Claude remembers what it did)
@@ -739,15 +579,15 @@ export async function chat(chatId: string, userMessage: string, images: ImageInp
 /**
  * Simple text-only completion for follow-up requests (no tools).
  */
-export async function getTextForEffect(effectName: string): Promise<string> {
-  const response = await client.messages.create({
-    model: 'claude-3-5-haiku-20241022',
+export async function getTextForEffect(effectName: string, origin: UsageOrigin): Promise<string> {
+  const response = await createMessage({
+    model: FAST_MODEL,
     max_tokens: 100,
     messages: [{
       role: 'user',
       content: `Write a very short, fun message (under 10 words) to send with a ${effectName} iMessage effect. Just the message, nothing else.`
     }],
-  });
+  }, origin, 'effect_text');
 
   if (response.content[0].type === 'text') {
     return response.content[0].text;
@@ -755,6 +595,50 @@ export async function getTextForEffect(effectName: string): Promise<string> {
   return `${effectName}!`;
 }
 
+/**
+ * Fold older messages into a conversation's running summary. Keeps what a later
+ * turn would need: plans, dates, party sizes, places, preferences and bookings.
+ */
+export async function summarizeConversation(previous: string | null, messages: StoredMessage[], origin: UsageOrigin): Promise<string> {
+  const start = Date.now();
+  const transcript = messages.map(msg => {
+    if (msg.role === 'assistant') return `Assistant: ${msg.content}`;
+    return `${msg.handle || 'User'}: ${msg.content}`;
+  }).join('\n');
+
+  const response = await createMessage({
+    model: FAST_MODEL,
+    max_tokens: 600,
+    system: `You maintain the running summary of a text conversation between people and a restaurant reservation assistant. Update the summary with the new messages and return only the updated summary.
+
+Keep, as short bullet points:
+- what theyre planning (occasion, dates, times, party size, who is coming) and where it stands
+- restaurants discussed, with venue IDs, and what was decided or ruled out
+- bookings made, moved or cancelled, with reservation tokens and pending booking ids
+- preferences, constraints and open questions
+Drop small talk. Prefer the newer detail when the two disagree. Stay under 250 words.`,
+    messages: [{
+      role: 'user',
+      content: `${previous ? `Current summary:\n${previous}\n\n` : ''}New messages:\n${transcript}`,
+    }],
+  }, origin, 'summary');
+
+  const text = response.content.filter(b => b.type === 'text').map(b => b.text).join('\n').trim();
+  if (!text) throw new Error('Summarizer returned no text');
+  console.log(`[claude] Summarized ${messages.length} message(s) in ${Date.now() - start}ms`);
+  return text;
+}
+
+/**
+ * Fold a long chat's older turns into its running summary. Call once the reply
+ * is out — it costs a model call the user shouldn't wait on. Never throws.
+ */
+export async function compactChat(chatId: string, origin: UsageOrigin): Promise<void> {
+  await compactConversation(chatId, (previous, older) => summarizeConversation(previous, older, origin)).catch(error => {
+    console.error('[claude] Conversation summary failed:', error instanceof Error ? error.message : error);
+  });
+}
+
 export type GroupChatAction = 'respond' | 'react' | 'ignore';
 
 /**
@@ -780,8 +664,8 @@ export async function getGroupChatAction(
   }
 
   try {
-    const response = await client.messages.create({
-      model: 'claude-3-5-haiku-20241022',
+    const response = await createMessage({
+      model: FAST_MODEL,
       max_tokens: 20,
       system: `You classify how an AI booking assistant should handle messages in a group chat.
 
@@ -799,7 +683,7 @@ Answer with ONE of these:
         role: 'user',
         content: `${contextBlock}New message from ${sender}: "${message}"\n\nHow should the assistant handle this?`
       }],
-    });
+    }, { chatId, handle: sender }, 'group_triage');
 
     const answer = response.content[0].type === 'text'
       ? response.content[0].text.toLowerCase().trim()
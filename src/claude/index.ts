@@ -1 +1,3 @@
 export * from './client.js';
+export { registerTool, createToolRegistry, ok, fail } from './tools/index.js';
+export type { ToolContext, ToolDefinition, ToolMode, ToolOutput, ToolRequirement, ToolRegistry } from './tools/index.js';
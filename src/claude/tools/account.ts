@@ -0,0 +1,150 @@
+import { getResyProfile, getFavorites, setFavorite, getPaymentMethods, searchDiningHistory } from '../../bookings/index.js';
+import { clearCredentials } from '../../auth/index.js';
+import { ok } from './registry.js';
+import type { ToolDefinition } from './types.js';
+
+// ─── Resy account: history, favorites, profile, cards, sign-out ─────────────
+
+export const resyHistoryTool: ToolDefinition<{
+  venue_name?: string; venue_id?: number; start_date?: string; end_date?: string; include_cancelled?: boolean;
+}> = {
+  schema: {
+    name: 'resy_history',
+    description: 'Look up the user\'s past Resy reservations. Use for "when was I last at Lilia?", "how many times did we go out in September?", "where do I go most?". Returns matching visits (newest first), a count, and visits per venue.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        venue_name: {
+          type: 'string',
+          description: 'Only visits to venues whose name contains this (case-insensitive).',
+        },
+        venue_id: {
+          type: 'number',
+          description: 'Only visits to this Resy venue ID.',
+        },
+        start_date: {
+          type: 'string',
+          description: 'Earliest date to include (YYYY-MM-DD).',
+        },
+        end_date: {
+          type: 'string',
+          description: 'Latest date to include (YYYY-MM-DD).',
+        },
+        include_cancelled: {
+          type: 'boolean',
+          description: 'Also count cancelled reservations and no-shows. Defaults to false (only meals that happened).',
+        },
+      },
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  errorLabel: 'Error fetching dining history',
+  async handle(input, ctx) {
+    const summary = await searchDiningHistory(ctx.resyAuthToken!, {
+      venueName: input.venue_name,
+      venueId: input.venue_id,
+      startDate: input.start_date,
+      endDate: input.end_date,
+      includeCancelled: input.include_cancelled,
+    });
+    return ok(summary);
+  },
+  summarize(input) {
+    const scope = [input.venue_name, input.start_date && `from ${input.start_date}`, input.end_date && `to ${input.end_date}`].filter(Boolean).join(' ');
+    return `[checked dining history${scope ? `: ${scope}` : ''}]`;
+  },
+};
+
+export const resyFavoritesTool: ToolDefinition<{ action: 'list' | 'add' | 'remove'; venue_id?: number }> = {
+  schema: {
+    name: 'resy_favorites',
+    description: 'List, add to, or remove from the user\'s Resy favorites (their "want to try" / hit list). Changes sync to their Resy account.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['list', 'add', 'remove'],
+          description: 'What to do. "add" and "remove" need venue_id.',
+        },
+        venue_id: {
+          type: 'number',
+          description: 'The Resy venue ID (from resy_search or the favorites list).',
+        },
+      },
+      required: ['action'],
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  errorLabel: 'Error managing favorites',
+  validate: input => input.action !== 'list' && !input.venue_id ? `"${input.action}" needs a venue_id.` : null,
+  async handle(input, ctx) {
+    if (input.action === 'list') {
+      return ok(await getFavorites(ctx.resyAuthToken!));
+    }
+    await setFavorite(ctx.resyAuthToken!, input.venue_id!, input.action === 'add');
+    return ok({ venue_id: input.venue_id, favorite: input.action === 'add' });
+  },
+  summarize: input => input.action === 'list'
+    ? `[checked resy favorites]`
+    : `[${input.action === 'add' ? 'added' : 'removed'} venue ${input.venue_id} ${input.action === 'add' ? 'to' : 'from'} favorites]`,
+};
+
+export const resyProfileTool: ToolDefinition = {
+  schema: {
+    name: 'resy_profile',
+    description: 'Get the user\'s Resy profile info — name, email, phone, booking count, etc. Use when they ask about their account, "what\'s my name", or you need their details.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  errorLabel: 'Error fetching profile',
+  async handle(_input, ctx) {
+    return ok(await getResyProfile(ctx.resyAuthToken!));
+  },
+  summarize: () => `[checked resy profile]`,
+};
+
+export const resyPaymentMethodsTool: ToolDefinition = {
+  schema: {
+    name: 'resy_payment_methods',
+    description: 'List the user\'s saved payment methods on Resy (brand, last 4, expiry, which is default). Use when they want to book with a different card or ask which card is on file.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  errorLabel: 'Error fetching payment methods',
+  async handle(_input, ctx) {
+    return ok(await getPaymentMethods(ctx.resyAuthToken!));
+  },
+  summarize: () => `[listed payment methods]`,
+};
+
+export const resySignOutTool: ToolDefinition = {
+  schema: {
+    name: 'resy_sign_out',
+    description: 'Disconnect the user\'s Resy account. Use when they want to sign out, log out, disconnect, or reset their Resy connection. After calling this, tell them to text again to reconnect.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  needsSender: true,
+  errorLabel: 'Error signing out',
+  async handle(_input, ctx) {
+    await clearCredentials(ctx.handle!);
+    console.log(`[claude] User signed out via tool call`);
+    return ok('Signed out successfully. Credentials removed.');
+  },
+  summarize: () => `[signed out of resy]`,
+};
@@ -0,0 +1,320 @@
+import { describeFeeLimits } from '../../bookings/index.js';
+import type { FeeLimits } from '../../bookings/index.js';
+import { createWatch, listWatches, cancelWatch } from '../../watches/index.js';
+import { listSnipes, cancelSnipe, describeMiss } from '../../snipes/index.js';
+import { createPendingAlert, confirmAlert } from '../../pending/index.js';
+import type { PendingAlert } from '../../pending/index.js';
+import { addDays, zonedTimeToUtc } from '../../utils/time.js';
+import { ok, fail } from './registry.js';
+import type { ToolDefinition } from './types.js';
+
+// ─── Watches and release snipes ─────────────────────────────────────────────
+
+// One ceiling from the user, applied to each kind of fee
+function feeLimitsFromInput(maxFee?: number): FeeLimits | undefined {
+  return maxFee === undefined ? undefined : { deposit: maxFee, cancellation_fee: maxFee, no_show_fee: maxFee };
+}
+
+const MAX_FEE_DESCRIPTION = 'Most the user agreed to pay in dollars for any one deposit, cancellation or no-show fee. Slots over it are skipped. ONLY set from an amount the user gave; omit to book fee-free slots only.';
+
+// What the user is asked to confirm before a job that books on its own starts
+function pendingAlertResult(pending: PendingAlert, tool: string) {
+  const job = (pending.watch ?? pending.snipe)!;
+  return {
+    pending_id: pending.id,
+    kind: pending.kind,
+    venue_name: job.venueName,
+    date: job.date,
+    party_size: job.partySize,
+    time_window: job.timeWindow,
+    seating_type: job.seatingType,
+    release_at: pending.snipe?.releaseAt,
+    fees: describeFeeLimits(job.maxFees),
+    expires_at: pending.expiresAt,
+    next_step: `Nothing is scheduled yet. Show the user these details, including the fee limit, and ask them to confirm. Call ${tool} with action "confirm" and this pending_id only after they reply yes.`,
+  };
+}
+
+export const resyWatchTool: ToolDefinition<{
+  action: 'create' | 'confirm' | 'list' | 'cancel';
+  venue_id?: number; venue_name?: string; date?: string; party_size?: number;
+  time_start?: string; time_end?: string; seating_type?: string; timezone?: string; auto_book?: boolean;
+  max_fee?: number; pending_id?: string; watch_id?: string;
+}> = {
+  schema: {
+    name: 'resy_watch',
+    description: 'Create, confirm, list, or cancel availability watches. A watch re-checks a venue every few minutes and texts the user the moment a slot inside their time window opens up (optionally booking it). Use when a place is sold out and they want to be told if something opens. A watch that auto-books is held until the user confirms it in a later message.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['create', 'confirm', 'list', 'cancel'],
+          description: 'What to do. "create" needs venue_id, date, party_size, time_start, time_end. "confirm" needs pending_id. "cancel" needs watch_id.',
+        },
+        venue_id: {
+          type: 'number',
+          description: 'The Resy venue ID (from resy_search results).',
+        },
+        venue_name: {
+          type: 'string',
+          description: 'Venue name, used in the alert text.',
+        },
+        date: {
+          type: 'string',
+          description: 'Date to watch (YYYY-MM-DD).',
+        },
+        party_size: {
+          type: 'number',
+          description: 'Number of guests.',
+        },
+        time_start: {
+          type: 'string',
+          description: 'Earliest acceptable time, HH:MM 24h (e.g., "19:00").',
+        },
+        time_end: {
+          type: 'string',
+          description: 'Latest acceptable time, HH:MM 24h (e.g., "21:00").',
+        },
+        seating_type: {
+          type: 'string',
+          description: 'Only match this seating type (e.g., "Dining Room"). Omit for any.',
+        },
+        timezone: {
+          type: 'string',
+          description: 'IANA timezone of the venue, so the watch ends at midnight there. Defaults to America/New_York.',
+        },
+        auto_book: {
+          type: 'boolean',
+          description: 'Book the first matching slot automatically. ONLY when the user explicitly asked for this.',
+        },
+        max_fee: {
+          type: 'number',
+          description: MAX_FEE_DESCRIPTION,
+        },
+        pending_id: {
+          type: 'string',
+          description: 'The auto-booking watch to start (from action "create"), once the user has confirmed it.',
+        },
+        watch_id: {
+          type: 'string',
+          description: 'The watch to cancel (from action "list" or "create").',
+        },
+      },
+      required: ['action'],
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  needsSender: true,
+  errorLabel: 'Error managing watch',
+  validate: input => {
+    if (input.action === 'create' && (!input.venue_id || !input.date || !input.party_size || !input.time_start || !input.time_end)) {
+      return 'Creating a watch needs venue_id, date, party_size, time_start and time_end.';
+    }
+    return input.action === 'confirm' && !input.pending_id ? 'Confirming a watch needs pending_id.' : null;
+  },
+  async handle(input, ctx) {
+    const handle = ctx.handle!;
+    if (input.action === 'list') {
+      return ok(await listWatches(handle));
+    }
+    if (input.action === 'cancel') {
+      const cancelled = input.watch_id ? await cancelWatch(handle, input.watch_id) : false;
+      return cancelled
+        ? ok({ cancelled: true, watch_id: input.watch_id })
+        : fail(`No active watch with id "${input.watch_id}".`);
+    }
+    if (input.action === 'confirm') {
+      const confirmed = await confirmAlert(handle, input.pending_id!, ctx.turnId, 'watch');
+      return {
+        ...ok(confirmed.watch),
+        summary: `[started auto-booking watch ${confirmed.watch.id} for venue ${confirmed.watch.venueId} on ${confirmed.watch.date}]`,
+      };
+    }
+
+    const data = {
+      handle,
+      chatId: ctx.chatId,
+      venueId: input.venue_id!,
+      venueName: input.venue_name,
+      date: input.date!,
+      partySize: input.party_size!,
+      timeWindow: { start: input.time_start!, end: input.time_end! },
+      seatingType: input.seating_type,
+      timezone: input.timezone,
+      autoBook: input.auto_book ?? false,
+      maxFees: feeLimitsFromInput(input.max_fee),
+    };
+    if (!data.autoBook) return ok(await createWatch(data));
+
+    // Auto-booking places a real reservation later — the user confirms first
+    const pending = await createPendingAlert({ handle, chatId: ctx.chatId, kind: 'watch', watch: data, preparedInTurn: ctx.turnId });
+    return {
+      ...ok(pendingAlertResult(pending, 'resy_watch')),
+      // History keeps the pending id so the confirming turn can find it
+      summary: `[prepared auto-booking watch ${pending.id}: venue ${data.venueId} on ${data.date}, fees ${describeFeeLimits(data.maxFees)} — awaiting confirmation]`,
+    };
+  },
+  summarize(input) {
+    if (input.action === 'create') return `[started watching venue ${input.venue_id} on ${input.date}]`;
+    if (input.action === 'confirm') return `[confirmed watch ${input.pending_id}]`;
+    if (input.action === 'cancel') return `[cancelled watch ${input.watch_id}]`;
+    return `[listed availability watches]`;
+  },
+};
+
+export const resySnipeTool: ToolDefinition<{
+  action: 'create' | 'confirm' | 'list' | 'cancel';
+  venue_id?: number; venue_name?: string; date?: string; party_size?: number;
+  time_start?: string; time_end?: string; seating_type?: string;
+  release_time?: string; days_out?: number; timezone?: string;
+  max_fee?: number; pending_id?: string; snipe_id?: string;
+}> = {
+  schema: {
+    name: 'resy_snipe',
+    description: 'Create, confirm, list, or cancel release snipes. A snipe wakes up seconds before a venue releases inventory and books the first table in the time window. Use for hot spots that drop tables at a fixed time N days out. A new snipe is held until the user confirms it in a later message.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['create', 'confirm', 'list', 'cancel'],
+          description: 'What to do. "create" needs venue_id, date, party_size, time_start, time_end, release_time, days_out. "confirm" needs pending_id. "cancel" needs snipe_id.',
+        },
+        venue_id: {
+          type: 'number',
+          description: 'The Resy venue ID (from resy_search results).',
+        },
+        venue_name: {
+          type: 'string',
+          description: 'Venue name, used in the result text.',
+        },
+        date: {
+          type: 'string',
+          description: 'Reservation date they want (YYYY-MM-DD).',
+        },
+        party_size: {
+          type: 'number',
+          description: 'Number of guests.',
+        },
+        time_start: {
+          type: 'string',
+          description: 'Earliest acceptable time, HH:MM 24h.',
+        },
+        time_end: {
+          type: 'string',
+          description: 'Latest acceptable time, HH:MM 24h.',
+        },
+        seating_type: {
+          type: 'string',
+          description: 'Only book this seating type (e.g., "Dining Room"). Omit for any.',
+        },
+        release_time: {
+          type: 'string',
+          description: 'Time of day the venue releases tables, HH:MM 24h in the venue\'s timezone (e.g., "10:00").',
+        },
+        days_out: {
+          type: 'number',
+          description: 'How many days ahead the venue releases (e.g., 30 means tables for the 31st drop on the 1st).',
+        },
+        timezone: {
+          type: 'string',
+          description: 'IANA timezone of the venue. Defaults to America/New_York.',
+        },
+        max_fee: {
+          type: 'number',
+          description: MAX_FEE_DESCRIPTION,
+        },
+        pending_id: {
+          type: 'string',
+          description: 'The snipe to schedule (from action "create"), once the user has confirmed it.',
+        },
+        snipe_id: {
+          type: 'string',
+          description: 'The snipe to cancel (from action "list" or "create").',
+        },
+      },
+      required: ['action'],
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  needsSender: true,
+  errorLabel: 'Error managing snipe',
+  validate: input => {
+    if (input.action === 'create' && (!input.venue_id || !input.date || !input.party_size || !input.time_start || !input.time_end || !input.release_time || input.days_out === undefined)) {
+      return 'Creating a snipe needs venue_id, date, party_size, time_start, time_end, release_time and days_out.';
+    }
+    return input.action === 'confirm' && !input.pending_id ? 'Confirming a snipe needs pending_id.' : null;
+  },
+  async handle(input, ctx) {
+    const handle = ctx.handle!;
+    if (input.action === 'list') {
+      const snipes = await listSnipes(handle);
+      return ok(snipes.map(snipe => ({
+        snipe_id: snipe.id,
+        venue_id: snipe.venueId,
+        venue_name: snipe.venueName,
+        date: snipe.date,
+        party_size: snipe.partySize,
+        time_window: snipe.timeWindow,
+        release_at: snipe.releaseAt,
+        status: snipe.status,
+        attempts: snipe.attempts.length,
+        booked_time: snipe.bookedTime,
+        miss_reason: snipe.status === 'missed' ? describeMiss(snipe.attempts) : undefined,
+      })));
+    }
+    if (input.action === 'cancel') {
+      const cancelled = input.snipe_id ? await cancelSnipe(handle, input.snipe_id) : false;
+      return cancelled
+        ? ok({ cancelled: true, snipe_id: input.snipe_id })
+        : fail(`No scheduled snipe with id "${input.snipe_id}".`);
+    }
+
+    if (input.action === 'confirm') {
+      // confirmAlert re-checks the release time the snipe was prepared with
+      const confirmed = await confirmAlert(handle, input.pending_id!, ctx.turnId, 'snipe');
+      return {
+        ...ok(confirmed.snipe),
+        summary: `[scheduled snipe ${confirmed.snipe.id} for venue ${confirmed.snipe.venueId} on ${confirmed.snipe.date}]`,
+      };
+    }
+
+    const releaseAt = zonedTimeToUtc(addDays(input.date!, -input.days_out!), input.release_time!, input.timezone || 'America/New_York');
+    if (releaseAt.getTime() <= Date.now()) {
+      return fail(`Tables for ${input.date} were already released at ${releaseAt.toISOString()}. Check availability or set up a watch instead.`);
+    }
+
+    // A snipe books on its own at release time — the user confirms first
+    const pending = await createPendingAlert({
+      handle,
+      chatId: ctx.chatId,
+      kind: 'snipe',
+      snipe: {
+        handle,
+        chatId: ctx.chatId,
+        venueId: input.venue_id!,
+        venueName: input.venue_name,
+        date: input.date!,
+        partySize: input.party_size!,
+        timeWindow: { start: input.time_start!, end: input.time_end! },
+        seatingType: input.seating_type,
+        releaseAt: releaseAt.toISOString(),
+        maxFees: feeLimitsFromInput(input.max_fee),
+      },
+      preparedInTurn: ctx.turnId,
+    });
+    return {
+      ...ok(pendingAlertResult(pending, 'resy_snipe')),
+      summary: `[prepared snipe ${pending.id}: venue ${input.venue_id} on ${input.date}, fees ${describeFeeLimits(pending.snipe!.maxFees)} — awaiting confirmation]`,
+    };
+  },
+  summarize(input) {
+    if (input.action === 'create') return `[prepared snipe for venue ${input.venue_id} on ${input.date}]`;
+    if (input.action === 'confirm') return `[confirmed snipe ${input.pending_id}]`;
+    if (input.action === 'cancel') return `[cancelled snipe ${input.snipe_id}]`;
+    return `[listed snipes]`;
+  },
+};
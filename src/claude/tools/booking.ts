@@ -0,0 +1,307 @@
+import { hasFees, describeTerms, RESY_OCCASIONS, SeatingUnavailableError } from '../../bookings/index.js';
+import type { ResyOccasion } from '../../bookings/index.js';
+import { PROVIDER_IDS } from '../../providers/index.js';
+import { prepareBooking, confirmBooking, TermsChangedError } from '../../pending/index.js';
+import { recordCancellation, listLedgerEntries } from '../../ledger/index.js';
+import { rememberPending, rememberReservation, rememberCancellation, forgetPending } from '../../state/index.js';
+import { acrossProviders, bookingNotesFromInput, describeNotes, seatingFromInput } from './helpers.js';
+import { ok, fail } from './registry.js';
+import type { ToolDefinition } from './types.js';
+
+// ─── Booking, cancelling and the booking log ────────────────────────────────
+
+export const resyPrepareBookingTool: ToolDefinition<{
+  provider?: string; venue_id?: number; venue_name?: string; date?: string; party_size?: number; time?: string;
+  seating_preference?: string[]; avoid_seating?: string[]; payment_method_id?: number; replaces_resy_token?: string;
+  occasion?: ResyOccasion; special_request?: string;
+}> = {
+  schema: {
+    name: 'resy_prepare_booking',
+    description: 'Step 1 of booking (or moving) a reservation. Resolves the exact slot and its fee/deposit terms and holds it for confirmation. Does NOT book anything. Returns a pending_booking_id — show the user the exact details and ask them to confirm.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        provider: {
+          type: 'string',
+          enum: [...PROVIDER_IDS],
+          description: 'Provider to book on (from resy_search results). Defaults to resy. Moves are Resy only.',
+        },
+        venue_id: {
+          type: 'number',
+          description: 'The Resy venue ID (from resy_search results). Required for a new booking; omit when moving a reservation.',
+        },
+        venue_name: {
+          type: 'string',
+          description: 'Venue name, for the confirmation summary.',
+        },
+        date: {
+          type: 'string',
+          description: 'Reservation date (YYYY-MM-DD). When moving, omit to keep the same date.',
+        },
+        party_size: {
+          type: 'number',
+          description: 'Number of guests. When moving, omit to keep the same party size.',
+        },
+        time: {
+          type: 'string',
+          description: 'Desired time in HH:MM 24h format (e.g., "19:00"). New bookings pick the closest available slot; moves need an exact open slot.',
+        },
+        seating_preference: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Acceptable seating types, most wanted first (e.g., ["dining room", "patio"] for "dining room, else patio"). Omit for any.',
+        },
+        avoid_seating: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Seating types that are never acceptable (e.g., ["bar"]).',
+        },
+        payment_method_id: {
+          type: 'number',
+          description: 'Card to charge for any deposit/fees (from resy_payment_methods). Omit for the default card.',
+        },
+        occasion: {
+          type: 'string',
+          enum: [...RESY_OCCASIONS],
+          description: 'Occasion to tag the reservation with. Omit to pre-fill from what you know about the user (e.g. a remembered birthday on this date).',
+        },
+        special_request: {
+          type: 'string',
+          description: 'Note for the venue: allergies, high chair, accessibility, etc. Omit to pre-fill from what you know about the user; pass "" to send none.',
+        },
+        replaces_resy_token: {
+          type: 'string',
+          description: 'To reschedule or change party size: the resy_token of the reservation being moved (from resy_reservations). The new slot is booked before the original is cancelled.',
+        },
+      },
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  needsSender: true,
+  errorLabel: 'Error preparing booking',
+  async handle(input, ctx) {
+    const profile = ctx.chatContext?.senderProfile;
+    const { notes, prefilled } = bookingNotesFromInput(input, profile?.facts ?? [], profile?.noteCategories);
+    let pending;
+    try {
+      pending = await prepareBooking(ctx.providers, {
+        handle: ctx.handle!,
+        chatId: ctx.chatId,
+        turnId: ctx.turnId,
+        provider: ctx.providers.get(input.provider).id,
+        venueId: input.venue_id,
+        venueName: input.venue_name,
+        date: input.date,
+        time: input.time,
+        partySize: input.party_size,
+        seating: seatingFromInput(input),
+        paymentMethodId: input.payment_method_id,
+        notes,
+        replacesResyToken: input.replaces_resy_token,
+      });
+    } catch (error) {
+      if (!(error instanceof SeatingUnavailableError)) throw error;
+      console.log('[claude] resy_prepare_booking: preferred seating unavailable');
+      return fail(JSON.stringify({ status: 'seating_unavailable', available_types: error.availableTypes, message: error.message }));
+    }
+    // Moves without new notes keep the original's
+    const notesSent = pending.kind === 'modify' && !pending.notes ? 'same as the original reservation' : describeNotes(pending.notes);
+    rememberPending(ctx.memory, {
+      id: pending.id, kind: pending.kind, provider: pending.provider, venueId: pending.venueId, venueName: pending.venueName,
+      date: pending.date, time: pending.time, partySize: pending.partySize, seatingType: pending.seatingType, expiresAt: pending.expiresAt,
+    });
+
+    return {
+      ...ok({
+        pending_booking_id: pending.id,
+        kind: pending.kind,
+        provider: pending.provider,
+        venue_name: pending.venueName,
+        date: pending.date,
+        time: pending.time,
+        party_size: pending.partySize,
+        seating_type: pending.seatingType,
+        fees: hasFees(pending.terms) ? describeTerms(pending.terms) : null,
+        terms: pending.terms,
+        payment_method_id: pending.paymentMethodId,
+        occasion: pending.notes?.occasion,
+        special_request: pending.notes?.special_request,
+        prefilled_from_profile: prefilled.length > 0 ? prefilled : undefined,
+        replaces_resy_token: pending.replacesResyToken,
+        expires_at: pending.expiresAt,
+        notes_sent: notesSent,
+        next_step: 'Show the user these exact details (any fees, and the notes going to the venue word for word) and ask them to confirm. Call resy_confirm_booking only after they reply yes.',
+      }),
+      // History keeps the pending id so the confirming turn can find it
+      summary: `[prepared ${pending.kind === 'modify' ? 'move' : 'booking'} ${pending.id}: ${pending.venueName || `venue ${pending.venueId}`}, ${pending.date} ${pending.time} ${pending.seatingType}, party of ${pending.partySize}, notes: ${notesSent} — awaiting confirmation]`,
+    };
+  },
+};
+
+export const resyConfirmBookingTool: ToolDefinition<{ pending_booking_id: string }> = {
+  schema: {
+    name: 'resy_confirm_booking',
+    description: 'Step 2: place the REAL reservation held by resy_prepare_booking. Only call this after the user has replied in a later message confirming the exact details. The server rejects confirmations in the same turn as the prepare.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        pending_booking_id: {
+          type: 'string',
+          description: 'The pending_booking_id returned by resy_prepare_booking.',
+        },
+      },
+      required: ['pending_booking_id'],
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  needsSender: true,
+  errorLabel: 'Error confirming booking',
+  async handle(input, ctx) {
+    // Confirmations are only accepted from a later turn than the prepare
+    let confirmed;
+    try {
+      confirmed = await confirmBooking(ctx.providers, ctx.handle!, input.pending_booking_id, ctx.turnId);
+    } catch (error) {
+      if (!(error instanceof TermsChangedError)) throw error;
+      forgetPending(ctx.memory, input.pending_booking_id);
+      console.log('[claude] resy_confirm_booking: fees changed since prepare');
+      return fail(JSON.stringify({ status: 'terms_changed', fees: describeTerms(error.terms), terms: error.terms, message: error.message }));
+    }
+    forgetPending(ctx.memory, input.pending_booking_id);
+    if (confirmed.kind === 'book') {
+      const { confirmation } = confirmed;
+      ctx.bookingSucceeded = true;
+      rememberReservation(ctx.memory, {
+        provider: confirmation.provider, reservationToken: confirmation.reservation_token, venueName: confirmation.venue_name,
+        date: confirmation.date, time: confirmation.time, partySize: confirmation.party_size, status: 'held', madeHere: true,
+      });
+      return {
+        ...ok(confirmation),
+        summary: `[booked ${confirmation.venue_name} ${confirmation.date} ${confirmation.time} on ${confirmation.provider}, reservation_token ${confirmation.reservation_token}]`,
+      };
+    }
+
+    const { result } = confirmed;
+    if (result.status === 'modified') ctx.bookingSucceeded = true;
+    if (result.new_booking && (result.status === 'modified' || result.status === 'needs_attention')) {
+      const booked = result.new_booking;
+      rememberReservation(ctx.memory, {
+        provider: 'resy', reservationToken: booked.resy_token, venueId: result.original.venue_id, venueName: booked.venue_name,
+        date: booked.date, time: booked.time, partySize: booked.party_size, status: 'held', madeHere: true,
+      });
+    }
+    if (result.status === 'modified') rememberCancellation(ctx.memory, 'resy', result.original.resy_token);
+    return {
+      content: JSON.stringify(result),
+      isError: result.status !== 'modified',
+      summary: `[modified reservation ${result.original.resy_token}: ${result.status}${result.new_booking ? ` → ${result.new_booking.resy_token}` : ''}]`,
+    };
+  },
+};
+
+export const resyCancelTool: ToolDefinition<{ reservation_token: string; provider?: string }> = {
+  schema: {
+    name: 'resy_cancel',
+    description: 'Cancel a reservation using its reservation_token. Get this and the provider from resy_reservations results.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        reservation_token: {
+          type: 'string',
+          description: 'The reservation_token of the reservation to cancel (rr://... format on Resy).',
+        },
+        provider: {
+          type: 'string',
+          enum: [...PROVIDER_IDS],
+          description: 'Provider the reservation is on. Defaults to resy.',
+        },
+      },
+      required: ['reservation_token'],
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  errorLabel: 'Error cancelling reservation',
+  async handle(input, ctx) {
+    const provider = ctx.providers.get(input.provider);
+    const result = await provider.cancel(input.reservation_token);
+    if (result.success && ctx.handle) {
+      await recordCancellation({ handle: ctx.handle, chatId: ctx.chatId, source: 'chat', sourceId: ctx.turnId }, provider.id, input.reservation_token);
+    }
+    if (result.success) rememberCancellation(ctx.memory, provider.id, input.reservation_token);
+    return ok(result);
+  },
+  summarize: () => `[cancelled a reservation]`,
+};
+
+export const resyReservationsTool: ToolDefinition = {
+  schema: {
+    name: 'resy_reservations',
+    description: 'View the user\'s upcoming reservations on every connected provider. Use when someone asks about their bookings, reservations, or upcoming dinner plans.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {},
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  errorLabel: 'Error fetching reservations',
+  async handle(_input, ctx) {
+    const reservations = (await acrossProviders(ctx.providers.list(), 'resy_reservations', provider => provider.listReservations()))
+      .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+    for (const r of [...reservations].reverse()) {
+      rememberReservation(ctx.memory, {
+        provider: r.provider, reservationToken: r.reservation_token, venueId: r.venue_id, venueName: r.venue_name,
+        date: r.date, time: r.time, partySize: r.party_size, status: 'held', madeHere: false,
+      });
+    }
+    return ok(reservations);
+  },
+  summarize: () => `[checked upcoming reservations]`,
+};
+
+export const resyBookingLogTool: ToolDefinition<{ this_chat_only?: boolean; limit?: number }> = {
+  schema: {
+    name: 'resy_booking_log',
+    description: 'List bookings and cancellations YOU made for this user (including watch and snipe auto-bookings), newest first, with the fees they agreed to. Use for "cancel the one you just made", "what did you book for me last week?", or to check whether a reservation came from you.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        this_chat_only: {
+          type: 'boolean',
+          description: 'Only entries made from this chat. Defaults to false.',
+        },
+        limit: {
+          type: 'number',
+          description: 'Max entries to return. Defaults to 10.',
+        },
+      },
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  needsSender: true,
+  errorLabel: 'Error reading booking log',
+  async handle(input, ctx) {
+    const entries = await listLedgerEntries(ctx.handle!, { chatId: input.this_chat_only ? ctx.chatId : undefined });
+    const cancelled = new Set(entries.filter(e => e.action === 'cancel').map(e => `${e.provider}|${e.reservationToken}`));
+    return ok(entries.slice(0, input.limit || 10).map(e => ({
+      action: e.action,
+      provider: e.provider,
+      reservation_token: e.reservationToken,
+      venue_name: e.venueName,
+      date: e.date,
+      time: e.time,
+      party_size: e.partySize,
+      seating_type: e.seatingType,
+      fees: e.agreedTerms && hasFees(e.agreedTerms) ? describeTerms(e.agreedTerms) : undefined,
+      replaces_reservation_token: e.replacesToken,
+      still_held: e.action === 'book' ? !cancelled.has(`${e.provider}|${e.reservationToken}`) : undefined,
+      source: e.source,
+      at: e.createdAt,
+    })));
+  },
+  summarize: () => `[checked booking log]`,
+};
@@ -0,0 +1,99 @@
+import { suggestBookingNotes } from '../../bookings/index.js';
+import type { SeatingPreference, VenueFilters, ResyBookingNotes, ResyOccasion, NoteCategory } from '../../bookings/index.js';
+import { resolveLocation } from '../../geo/index.js';
+import type { GeoPoint } from '../../geo/index.js';
+import type { ReservationProvider } from '../../providers/index.js';
+
+// Input → domain conversions shared by several tools
+
+/**
+ * Booking notes from tool input. New bookings fill unset fields from the
+ * user's remembered facts, in the categories they share; moves leave them
+ * unset so the original's carry over.
+ */
+export function bookingNotesFromInput(
+  input: { date?: string; occasion?: ResyOccasion; special_request?: string; replaces_resy_token?: string },
+  facts: string[],
+  categories?: readonly NoteCategory[],
+): { notes?: ResyBookingNotes; prefilled: string[] } {
+  const explicit: ResyBookingNotes = { occasion: input.occasion, special_request: input.special_request };
+  if (input.replaces_resy_token) {
+    const given = input.occasion !== undefined || input.special_request !== undefined;
+    return { notes: given ? explicit : undefined, prefilled: [] };
+  }
+
+  const suggested = input.date ? suggestBookingNotes(facts, input.date, categories) : {};
+  const prefilled: string[] = [];
+  const notes = { ...explicit };
+  if (notes.occasion === undefined && suggested.occasion) {
+    notes.occasion = suggested.occasion;
+    prefilled.push('occasion');
+  }
+  if (notes.special_request === undefined && suggested.special_request) {
+    notes.special_request = suggested.special_request;
+    prefilled.push('special_request');
+  }
+  return { notes, prefilled };
+}
+
+/** What a booking will send the venue, in words, e.g. `occasion Birthday, request "has a toddler"`. */
+export function describeNotes(notes?: ResyBookingNotes): string {
+  const parts: string[] = [];
+  if (notes?.occasion) parts.push(`occasion ${notes.occasion}`);
+  if (notes?.special_request) parts.push(`request "${notes.special_request}"`);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+export function venueFiltersFromInput(input: {
+  cuisine?: string; price_min?: number; price_max?: number; neighborhood?: string; min_rating?: number;
+  available_date?: string; party_size?: number; time_start?: string; time_end?: string;
+}): VenueFilters {
+  if (input.available_date && !input.party_size) throw new Error('available_date needs a party_size');
+  return {
+    cuisine: input.cuisine || undefined,
+    priceMin: input.price_min,
+    priceMax: input.price_max,
+    neighborhood: input.neighborhood || undefined,
+    minRating: input.min_rating,
+    availability: input.available_date ? {
+      date: input.available_date,
+      partySize: input.party_size!,
+      timeWindow: input.time_start || input.time_end
+        ? { start: input.time_start || '00:00', end: input.time_end || '23:59' }
+        : undefined,
+    } : undefined,
+  };
+}
+
+/**
+ * Search centre for a tool call: explicit coordinates, then a named place
+ * (a shared name resolves near home), then the user's home location.
+ * undefined falls back to the Resy client default.
+ */
+export function geoFromInput(input: { location?: string; lat?: number; lng?: number }, home?: GeoPoint): GeoPoint | undefined {
+  if (input.lat && input.lng) return { lat: input.lat, lng: input.lng };
+  if (input.location) {
+    const resolved = resolveLocation(input.location, home);
+    if (!resolved) throw new Error(`Couldnt place "${input.location}" — try a nearby city or neighborhood, or pass lat/lng`);
+    return { lat: resolved.lat, lng: resolved.lng };
+  }
+  return home && { lat: home.lat, lng: home.lng };
+}
+
+/**
+ * Run a lookup on each provider and merge the results. A Resy failure still
+ * fails the tool; another provider being down only drops its results.
+ */
+export async function acrossProviders<T>(providers: ReservationProvider[], tool: string, lookup: (provider: ReservationProvider) => Promise<T[]>): Promise<T[]> {
+  const results = await Promise.all(providers.map(provider => lookup(provider).catch(error => {
+    if (provider.id === 'resy' || providers.length === 1) throw error;
+    console.warn(`[claude] ${tool}: ${provider.name} unavailable:`, error instanceof Error ? error.message : error);
+    return [];
+  })));
+  return results.flat();
+}
+
+export function seatingFromInput(input: { seating_preference?: string[]; avoid_seating?: string[] }): SeatingPreference | undefined {
+  if (!input.seating_preference?.length && !input.avoid_seating?.length) return undefined;
+  return { preferred: input.seating_preference, avoid: input.avoid_seating };
+}
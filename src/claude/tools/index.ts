@@ -0,0 +1,38 @@
+import { createToolRegistry } from './registry.js';
+import type { AnyToolDefinition } from './registry.js';
+import type { ToolDefinition } from './types.js';
+import { sendReactionTool, sendEffectTool, renameGroupChatTool, rememberUserTool, setHomeLocationTool, setNoteSharingTool, setOpenTableBookingTool, webSearchTool } from './messaging.js';
+import { resySearchTool, resyVenueDetailsTool, resyFindSlotsTool, resyFindSlotsRangeTool, resyCompareAvailabilityTool } from './search.js';
+import { resyPrepareBookingTool, resyConfirmBookingTool, resyCancelTool, resyReservationsTool, resyBookingLogTool } from './booking.js';
+import { resyHistoryTool, resyFavoritesTool, resyProfileTool, resyPaymentMethodsTool, resySignOutTool } from './account.js';
+import { resyWatchTool, resySnipeTool } from './alerts.js';
+
+export type { ToolContext, ToolDefinition, ToolMode, ToolOutput, ToolRequirement } from './types.js';
+export type { ToolRegistry, AnyToolDefinition } from './registry.js';
+export { createToolRegistry, runTool, summarizeToolCall, validateToolInput, ok, fail } from './registry.js';
+
+// Offered to Claude in this order
+export const BUILTIN_TOOLS: AnyToolDefinition[] = [
+  sendReactionTool, sendEffectTool, rememberUserTool, setHomeLocationTool, setNoteSharingTool, setOpenTableBookingTool, webSearchTool,
+  resySearchTool, resyVenueDetailsTool, resyFindSlotsTool, resyFindSlotsRangeTool,
+  resyCompareAvailabilityTool,
+  resyPrepareBookingTool, resyConfirmBookingTool, resyCancelTool,
+  resyReservationsTool, resyBookingLogTool, resyHistoryTool, resyFavoritesTool,
+  resyWatchTool,
+  resySnipeTool,
+  resyProfileTool, resyPaymentMethodsTool,
+  resySignOutTool,
+  renameGroupChatTool,
+];
+
+/** The registry chat() draws from. */
+export const toolRegistry = createToolRegistry(BUILTIN_TOOLS);
+
+/**
+ * Add a deployment-specific tool (or, with replace, override a built-in).
+ * Call at startup, before the first chat().
+ */
+export function registerTool<I>(definition: ToolDefinition<I>, options?: { replace?: boolean }): void {
+  toolRegistry.register(definition, options);
+  console.log(`[claude] Registered tool ${definition.schema.name}`);
+}
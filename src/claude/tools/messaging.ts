@@ -0,0 +1,243 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { setUserName, addUserFact, setHomeLocation, setNoteCategories, setOpenTableOptIn } from '../../state/conversation.js';
+import { NOTE_CATEGORIES, DEFAULT_NOTE_CATEGORIES } from '../../bookings/index.js';
+import type { NoteCategory } from '../../bookings/index.js';
+import { resolveLocation } from '../../geo/index.js';
+import { isOpenTableConfigured } from '../../providers/index.js';
+import type { ReactionType, StandardReactionType } from '../client.js';
+import { ok, fail } from './registry.js';
+import type { ToolDefinition } from './types.js';
+
+// ─── Reply signals and user memory ──────────────────────────────────────────
+
+export const sendReactionTool: ToolDefinition<{ type: ReactionType; emoji?: string }> = {
+  schema: {
+    name: 'send_reaction',
+    description: 'Send an iMessage reaction to the user\'s message. Use standard tapbacks (love, like, laugh, etc.) OR any custom emoji.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        type: {
+          type: 'string',
+          enum: ['love', 'like', 'dislike', 'laugh', 'emphasize', 'question', 'custom'],
+          description: 'The reaction type. Use "custom" to send any emoji.',
+        },
+        emoji: {
+          type: 'string',
+          description: 'Required when type is "custom". The emoji to react with.',
+        },
+      },
+      required: ['type'],
+    },
+  },
+  mode: 'signal',
+  async handle(input, ctx) {
+    if (input.type === 'custom' && input.emoji) {
+      ctx.reaction = { type: 'custom', emoji: input.emoji };
+    } else if (input.type !== 'custom') {
+      ctx.reaction = { type: input.type as StandardReactionType };
+    }
+  },
+};
+
+export const sendEffectTool: ToolDefinition<{ effect_type: 'screen' | 'bubble'; effect: string }> = {
+  schema: {
+    name: 'send_effect',
+    description: 'Add an iMessage effect to your text response. ONLY use when the user explicitly asks for an effect. You MUST also write a text message.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        effect_type: {
+          type: 'string',
+          enum: ['screen', 'bubble'],
+          description: 'Whether this is a full-screen effect or a bubble effect',
+        },
+        effect: {
+          type: 'string',
+          enum: ['confetti', 'fireworks', 'lasers', 'sparkles', 'celebration', 'hearts', 'love', 'balloons', 'happy_birthday', 'echo', 'spotlight', 'slam', 'loud', 'gentle', 'invisible_ink'],
+          description: 'The specific effect to use',
+        },
+      },
+      required: ['effect_type', 'effect'],
+    },
+  },
+  mode: 'signal',
+  async handle(input, ctx) {
+    ctx.effect = { type: input.effect_type, name: input.effect };
+  },
+};
+
+export const renameGroupChatTool: ToolDefinition<{ name: string }> = {
+  schema: {
+    name: 'rename_group_chat',
+    description: 'Rename the current group chat. ONLY use when someone EXPLICITLY asks to rename/name the chat.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        name: {
+          type: 'string',
+          description: 'The new name for the group chat',
+        },
+      },
+      required: ['name'],
+    },
+  },
+  mode: 'signal',
+  requires: ['group_chat'],
+  async handle(input, ctx) {
+    ctx.renameChat = input.name;
+  },
+};
+
+export const rememberUserTool: ToolDefinition<{ handle?: string; name?: string; fact?: string }> = {
+  schema: {
+    name: 'remember_user',
+    description: 'Save NEW information about someone. ONLY use when you learn genuinely NEW info. NEVER re-save info already shown in the system prompt. CRITICAL: You MUST write a text response too.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        handle: {
+          type: 'string',
+          description: 'The phone number/handle of the person this info is about.',
+        },
+        name: {
+          type: 'string',
+          description: 'The person\'s name if they shared it.',
+        },
+        fact: {
+          type: 'string',
+          description: 'An interesting fact about them worth remembering.',
+        },
+      },
+    },
+  },
+  mode: 'signal',
+  async handle(input, ctx) {
+    const targetHandle = input.handle || ctx.handle;
+    if (!targetHandle) return;
+
+    let nameChanged = false;
+    let factChanged = false;
+
+    if (input.name) {
+      nameChanged = await setUserName(targetHandle, input.name);
+    }
+    if (input.fact) {
+      factChanged = await addUserFact(targetHandle, input.fact);
+    }
+
+    if (nameChanged || factChanged) {
+      const isForSender = !input.handle || input.handle === ctx.handle;
+      ctx.rememberedUser = {
+        name: nameChanged ? input.name : undefined,
+        fact: factChanged ? input.fact : undefined,
+        isForSender
+      };
+    }
+  },
+};
+
+export const setHomeLocationTool: ToolDefinition<{ location: string; lat?: number; lng?: number }> = {
+  schema: {
+    name: 'set_home_location',
+    description: 'Save where the user is based (city or neighborhood). Restaurant searches and availability checks default to it from then on. Use when they tell you where they live or want to search from by default.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        location: {
+          type: 'string',
+          description: 'City or neighborhood, e.g. "williamsburg", "silver lake", "austin".',
+        },
+        lat: {
+          type: 'number',
+          description: 'Latitude, only if the location couldnt be resolved by name.',
+        },
+        lng: {
+          type: 'number',
+          description: 'Longitude, only if the location couldnt be resolved by name.',
+        },
+      },
+      required: ['location'],
+    },
+  },
+  mode: 'data',
+  errorLabel: 'Error saving home location',
+  async handle(input, ctx) {
+    if (!ctx.handle) throw new Error('No sender to save a home location for');
+    const resolved = input.lat !== undefined && input.lng !== undefined
+      ? { name: input.location, lat: input.lat, lng: input.lng }
+      : resolveLocation(input.location, ctx.homeLocation);
+    if (!resolved) {
+      return fail(`Couldnt place "${input.location}". Ask for a nearby city or neighborhood, or pass lat/lng.`);
+    }
+    await setHomeLocation(ctx.handle, resolved);
+    ctx.homeLocation = resolved;
+    return ok(resolved);
+  },
+  summarize: input => `[set home location to ${input.location}]`,
+};
+
+export const setNoteSharingTool: ToolDefinition<{ categories: NoteCategory[] }> = {
+  schema: {
+    name: 'set_booking_note_sharing',
+    description: `Set which remembered details may be pre-filled into the notes sent to a venue when booking. Pass the full list the user is ok sharing; [] shares nothing. Defaults to ${DEFAULT_NOTE_CATEGORIES.join(', ')} — allergies and pregnancy are only shared once the user opts in.`,
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        categories: {
+          type: 'array',
+          items: { type: 'string', enum: [...NOTE_CATEGORIES] },
+          description: 'Every category the user agreed to share.',
+        },
+      },
+      required: ['categories'],
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  needsSender: true,
+  errorLabel: 'Error saving note sharing',
+  async handle(input, ctx) {
+    const categories = NOTE_CATEGORIES.filter(category => input.categories.includes(category));
+    await setNoteCategories(ctx.handle!, categories);
+    if (ctx.chatContext?.senderProfile) ctx.chatContext.senderProfile.noteCategories = categories;
+    return ok({ categories });
+  },
+  summarize: input => `[set booking note sharing to ${input.categories.join(', ') || 'none'}]`,
+};
+
+export const setOpenTableBookingTool: ToolDefinition<{ enabled: boolean }> = {
+  schema: {
+    name: 'set_opentable_booking',
+    description: 'Turn OpenTable on or off for this user. OpenTable bookings are made in their name and under the phone number theyre texting from, so only enable it once they say thats ok. Takes effect from their next message.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        enabled: {
+          type: 'boolean',
+          description: 'true once the user agrees to book OpenTable tables in their name and phone number, false to stop.',
+        },
+      },
+      required: ['enabled'],
+    },
+  },
+  mode: 'data',
+  enabled: () => isOpenTableConfigured(),
+  needsSender: true,
+  errorLabel: 'Error saving OpenTable setting',
+  async handle(input, ctx) {
+    await setOpenTableOptIn(ctx.handle!, input.enabled);
+    if (ctx.chatContext?.senderProfile) ctx.chatContext.senderProfile.openTableOptIn = input.enabled;
+    return ok({ enabled: input.enabled });
+  },
+  summarize: input => `[${input.enabled ? 'enabled' : 'disabled'} opentable booking]`,
+};
+
+// Web search uses a special tool type and runs on Anthropic's side
+export const webSearchTool: ToolDefinition = {
+  schema: {
+    type: 'web_search_20250305',
+    name: 'web_search',
+  } as unknown as Anthropic.Tool,
+  mode: 'server',
+};
@@ -0,0 +1,125 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import { describeResyError } from '../../bookings/index.js';
+import type { ToolContext, ToolDefinition, ToolOutput } from './types.js';
+
+// Handlers are typed per tool. Stored ones take never, so nothing can call a
+// handler directly — input reaches it through runTool once it has validated.
+export type AnyToolDefinition = ToolDefinition<never>;
+
+export interface ToolRegistry {
+  /** Add a tool. Names are unique; pass replace to swap out a built-in. */
+  register<I>(definition: ToolDefinition<I>, options?: { replace?: boolean }): void;
+  get(name: string): AnyToolDefinition | undefined;
+  list(): AnyToolDefinition[];
+  /** Tools to offer Claude in this chat, in registration order. */
+  availableFor(ctx: ToolContext): AnyToolDefinition[];
+}
+
+export function ok(data: unknown): ToolOutput {
+  return { content: typeof data === 'string' ? data : JSON.stringify(data) };
+}
+
+export function fail(message: string): ToolOutput {
+  return { content: message, isError: true };
+}
+
+export function createToolRegistry(definitions: AnyToolDefinition[] = []): ToolRegistry {
+  const tools = new Map<string, AnyToolDefinition>();
+
+  const registry: ToolRegistry = {
+    register(definition, options = {}) {
+      const { name } = definition.schema;
+      if (tools.has(name) && !options.replace) {
+        throw new Error(`Tool "${name}" is already registered`);
+      }
+      tools.set(name, definition);
+    },
+
+    get(name) {
+      return tools.get(name);
+    },
+
+    list() {
+      return [...tools.values()];
+    },
+
+    availableFor(ctx) {
+      return registry.list().filter(definition => {
+        for (const requirement of definition.requires ?? []) {
+          if (requirement === 'resy' && !ctx.resyAuthToken) return false;
+          if (requirement === 'group_chat' && !ctx.chatContext?.isGroupChat) return false;
+        }
+        return definition.enabled?.(ctx) ?? true;
+      });
+    },
+  };
+
+  for (const definition of definitions) registry.register(definition);
+  return registry;
+}
+
+function typeMatches(type: unknown, value: unknown): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default: return true;
+  }
+}
+
+/**
+ * Check tool input against the top level of its JSON schema: required fields,
+ * types and enums. Returns the first problem, or null.
+ */
+export function validateToolInput(schema: Anthropic.Tool.InputSchema, input: unknown): string | null {
+  if (!typeMatches('object', input)) return 'input must be an object';
+  const values = input as Record<string, unknown>;
+
+  for (const field of (schema.required as string[] | undefined) ?? []) {
+    if (values[field] === undefined || values[field] === null) return `${field} is required`;
+  }
+
+  const properties = (schema.properties ?? {}) as Record<string, { type?: string; enum?: unknown[] }>;
+  for (const [field, value] of Object.entries(values)) {
+    const property = properties[field];
+    if (!property || value === undefined || value === null) continue;
+    if (!typeMatches(property.type, value)) return `${field} must be ${property.type === 'integer' ? 'an' : 'a'} ${property.type}`;
+    if (property.enum && !property.enum.includes(value)) return `${field} must be one of ${property.enum.join(', ')}`;
+  }
+  return null;
+}
+
+/** The history line for a call Claude made, or null when the tool keeps none. */
+export function summarizeToolCall(definition: AnyToolDefinition, input: unknown): string | null {
+  return definition.summarize?.(input as never) ?? null;
+}
+
+/**
+ * Validate and run one tool call. Never throws: bad input and handler errors
+ * come back as is_error results Claude can read and recover from.
+ */
+export async function runTool(definition: AnyToolDefinition, input: unknown, ctx: ToolContext): Promise<ToolOutput> {
+  const { name } = definition.schema;
+
+  const invalid = validateToolInput(definition.schema.input_schema, input);
+  if (invalid) {
+    console.warn(`[claude] ${name} rejected input: ${invalid}`);
+    return fail(`Invalid input for ${name}: ${invalid}`);
+  }
+  // Matches the tool's schema from here on, which is what its input type describes
+  const checked = input as never;
+  const problem = definition.validate?.(checked);
+  if (problem) return fail(problem);
+  if (definition.needsSender && !ctx.handle) return fail('Could not determine user identity.');
+
+  try {
+    return (await definition.handle?.(checked, ctx)) ?? ok('ok');
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[claude] ${name} error:`, msg);
+    return fail(`${definition.errorLabel ?? `Error running ${name}`}: ${describeResyError(error)}`);
+  }
+}
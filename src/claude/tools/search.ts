@@ -0,0 +1,341 @@
+import { getVenue, findSlotsInRange, compareAvailability, describeSeatingPreference, getReservationHistory, rankVenuesByHistory } from '../../bookings/index.js';
+import { PROVIDER_IDS } from '../../providers/index.js';
+import { rememberVenues, rememberSlots } from '../../state/index.js';
+import { acrossProviders, geoFromInput, seatingFromInput, venueFiltersFromInput } from './helpers.js';
+import { ok } from './registry.js';
+import type { ToolDefinition } from './types.js';
+
+// ─── Search and availability ────────────────────────────────────────────────
+
+export const resySearchTool: ToolDefinition<{
+  query: string; provider?: string; location?: string; lat?: number; lng?: number;
+  cuisine?: string; price_min?: number; price_max?: number; neighborhood?: string; min_rating?: number;
+  available_date?: string; party_size?: number; time_start?: string; time_end?: string;
+}> = {
+  schema: {
+    name: 'resy_search',
+    description: 'Search for restaurants on Resy. Use when someone asks about finding a place to eat or a restaurant. Returns venue IDs needed for checking availability. Structured filters (cuisine, price, neighborhood, rating, open on a date) return only venues that match all of them; with available_date each result carries its open available_times. Also searches other connected providers (e.g. OpenTable) — every result carries its provider.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        provider: {
+          type: 'string',
+          enum: [...PROVIDER_IDS],
+          description: 'Only search this provider. Omit to search all connected providers.',
+        },
+        query: {
+          type: 'string',
+          description: 'Search keyword (e.g., "italian", "sushi", "steakhouse", "Carbone"). Omit when the filters say it all.',
+        },
+        location: {
+          type: 'string',
+          description: 'City or neighborhood to search around (e.g. "williamsburg", "silver lake", "austin"). Omit to use the user\'s home location.',
+        },
+        lat: {
+          type: 'number',
+          description: 'Latitude, only for places location cant resolve. Defaults to the user\'s home location, else NYC.',
+        },
+        lng: {
+          type: 'number',
+          description: 'Longitude, only for places location cant resolve. Defaults to the user\'s home location, else NYC.',
+        },
+        cuisine: {
+          type: 'string',
+          description: 'Only venues tagged with this cuisine (e.g. "Thai").',
+        },
+        price_min: {
+          type: 'number',
+          description: 'Minimum price range, 1 ($) to 4 ($$$$).',
+        },
+        price_max: {
+          type: 'number',
+          description: 'Maximum price range, 1 ($) to 4 ($$$$). "cheap" is usually 1-2.',
+        },
+        neighborhood: {
+          type: 'string',
+          description: 'Only venues in this neighborhood (e.g. "East Village").',
+        },
+        min_rating: {
+          type: 'number',
+          description: 'Minimum Resy rating (out of 5).',
+        },
+        available_date: {
+          type: 'string',
+          description: 'Only venues with an open table on this date (YYYY-MM-DD). Needs party_size.',
+        },
+        party_size: {
+          type: 'number',
+          description: 'Party size for the available_date check.',
+        },
+        time_start: {
+          type: 'string',
+          description: 'Earliest acceptable time for the available_date check (HH:MM, 24h).',
+        },
+        time_end: {
+          type: 'string',
+          description: 'Latest acceptable time for the available_date check (HH:MM, 24h).',
+        },
+      },
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  errorLabel: 'Error searching restaurants',
+  async handle(input, ctx) {
+    const geo = geoFromInput(input, ctx.homeLocation);
+    const filters = venueFiltersFromInput(input);
+    const searched = input.provider ? [ctx.providers.get(input.provider)] : ctx.providers.list();
+    const [results, history] = await Promise.all([
+      acrossProviders(searched, 'resy_search', provider => provider.search(input.query ?? '', geo, filters)),
+      // Ranking signal only — a history failure shouldn't sink the search
+      searched.some(p => p.id === 'resy')
+        ? getReservationHistory(ctx.resyAuthToken!).catch(error => {
+            console.warn('[claude] resy_search: history unavailable for ranking:', error instanceof Error ? error.message : error);
+            return null;
+          })
+        : null,
+    ]);
+    // History is Resy's, and venue IDs are only unique within a provider
+    const ranked = history
+      ? [...rankVenuesByHistory(results.filter(v => v.provider === 'resy'), history.reservations), ...results.filter(v => v.provider !== 'resy')]
+      : results;
+    rememberVenues(ctx.memory, ranked);
+    return ok(ranked);
+  },
+  summarize(input) {
+    const extras = [input.cuisine, input.neighborhood, input.available_date && `open ${input.available_date}`].filter(Boolean);
+    return `[searched resy for "${input.query ?? ''}"${extras.length ? ` (${extras.join(', ')})` : ''}]`;
+  },
+};
+
+export const resyVenueDetailsTool: ToolDefinition<{ venue_id: number }> = {
+  schema: {
+    name: 'resy_venue_details',
+    description: 'Get a Resy venue\'s full profile: address, coordinates, timezone, phone, description, cancellation and deposit policy, and bookable seating types. Use for "where is it", "whats their cancellation policy", "do they have a bar", etc.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        venue_id: {
+          type: 'number',
+          description: 'The Resy venue ID (from resy_search results).',
+        },
+      },
+      required: ['venue_id'],
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  errorLabel: 'Error fetching venue details',
+  async handle(input, ctx) {
+    const venue = await getVenue(ctx.resyAuthToken!, input.venue_id);
+    rememberVenues(ctx.memory, [{ ...venue, provider: 'resy' }]);
+    return ok(venue);
+  },
+  summarize: input => `[looked up venue ${input.venue_id} details]`,
+};
+
+export const resyFindSlotsTool: ToolDefinition<{
+  provider?: string; venue_id: number; date: string; party_size: number; lat?: number; lng?: number;
+  seating_preference?: string[]; avoid_seating?: string[];
+}> = {
+  schema: {
+    name: 'resy_find_slots',
+    description: 'Find available time slots at a venue for a given date and party size. Returns config tokens needed for booking.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        provider: {
+          type: 'string',
+          enum: [...PROVIDER_IDS],
+          description: 'Provider the venue is on (from resy_search results). Defaults to resy.',
+        },
+        venue_id: {
+          type: 'number',
+          description: 'The Resy venue ID (from resy_search results).',
+        },
+        date: {
+          type: 'string',
+          description: 'Date to check (YYYY-MM-DD format).',
+        },
+        party_size: {
+          type: 'number',
+          description: 'Number of guests.',
+        },
+        seating_preference: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Acceptable seating types, most wanted first (e.g., ["dining room", "patio"] for "dining room, else patio"). Omit for any.',
+        },
+        avoid_seating: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Seating types that are never acceptable (e.g., ["bar"]).',
+        },
+        lat: {
+          type: 'number',
+          description: 'Latitude. Defaults to the user\'s home location, else NYC.',
+        },
+        lng: {
+          type: 'number',
+          description: 'Longitude. Defaults to the user\'s home location, else NYC.',
+        },
+      },
+      required: ['venue_id', 'date', 'party_size'],
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  errorLabel: 'Error finding slots',
+  async handle(input, ctx) {
+    const geo = geoFromInput(input, ctx.homeLocation);
+    const seating = seatingFromInput(input);
+    const provider = ctx.providers.get(input.provider);
+    const slots = await provider.findSlots(input.venue_id, input.date, input.party_size, { geo, seating, cached: true });
+    rememberSlots(ctx.memory, {
+      provider: provider.id, venueId: input.venue_id, date: input.date, partySize: input.party_size,
+      times: slots.map(s => `${s.time} ${s.type}`),
+    });
+    return slots.length === 0 && seating
+      ? ok(`No open tables in the requested seating (${describeSeatingPreference(seating)}). Call again without a seating preference to see what else is open, and tell the user before offering other seating.`)
+      : ok(slots);
+  },
+  summarize: input => `[checked slots: venue ${input.venue_id}, ${input.date}, party of ${input.party_size}]`,
+};
+
+export const resyFindSlotsRangeTool: ToolDefinition<{
+  venue_id: number; start_date: string; end_date: string; party_size: number;
+  time_start?: string; time_end?: string; seating_type?: string; lat?: number; lng?: number;
+}> = {
+  schema: {
+    name: 'resy_find_slots_range',
+    description: 'Find available time slots at a Resy venue across a range of dates (up to 14 days) in one call, optionally within a time window and seating type. Returns only days with matching slots, grouped by seating type. Use this instead of calling resy_find_slots once per day.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        venue_id: {
+          type: 'number',
+          description: 'The Resy venue ID (from resy_search results).',
+        },
+        start_date: {
+          type: 'string',
+          description: 'First date to check (YYYY-MM-DD).',
+        },
+        end_date: {
+          type: 'string',
+          description: 'Last date to check, inclusive (YYYY-MM-DD).',
+        },
+        party_size: {
+          type: 'number',
+          description: 'Number of guests.',
+        },
+        time_start: {
+          type: 'string',
+          description: 'Earliest acceptable time, HH:MM 24h. Omit for any time.',
+        },
+        time_end: {
+          type: 'string',
+          description: 'Latest acceptable time, HH:MM 24h. Omit for any time.',
+        },
+        seating_type: {
+          type: 'string',
+          description: 'Only include this seating type (e.g., "Dining Room"). Omit for any.',
+        },
+        lat: {
+          type: 'number',
+          description: 'Latitude. Defaults to the user\'s home location, else NYC.',
+        },
+        lng: {
+          type: 'number',
+          description: 'Longitude. Defaults to the user\'s home location, else NYC.',
+        },
+      },
+      required: ['venue_id', 'start_date', 'end_date', 'party_size'],
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  errorLabel: 'Error finding slots',
+  async handle(input, ctx) {
+    const geo = geoFromInput(input, ctx.homeLocation);
+    const timeWindow = input.time_start || input.time_end
+      ? { start: input.time_start || '00:00', end: input.time_end || '23:59' }
+      : undefined;
+    const range = await findSlotsInRange(
+      ctx.resyAuthToken!, input.venue_id, input.start_date, input.end_date, input.party_size,
+      { timeWindow, seatingType: input.seating_type }, geo,
+    );
+    for (const day of range.days) {
+      rememberSlots(ctx.memory, {
+        provider: 'resy', venueId: input.venue_id, date: day.date, partySize: input.party_size,
+        times: Object.entries(day.times).flatMap(([type, times]) => times.map(time => `${time} ${type}`)).sort(),
+      });
+    }
+    return ok(range);
+  },
+  summarize: input => `[checked slots: venue ${input.venue_id}, ${input.start_date} to ${input.end_date}, party of ${input.party_size}]`,
+};
+
+export const resyCompareAvailabilityTool: ToolDefinition<{
+  venues: Array<{ venue_id: number; name?: string }>; date: string; party_size: number; time: string; seating_type?: string;
+}> = {
+  schema: {
+    name: 'resy_compare_availability',
+    description: 'Check several Resy venues (up to 10) for the same date and party size in one call. Returns venues ranked by how close their nearest slot is to the desired time, plus which are fully booked. Only the first 10 venues are checked; "truncated" counts any left out. Use instead of calling resy_find_slots once per venue.',
+    input_schema: {
+      type: 'object' as const,
+      properties: {
+        venues: {
+          type: 'array',
+          description: 'Venues to compare (from resy_search results).',
+          items: {
+            type: 'object',
+            properties: {
+              venue_id: { type: 'number', description: 'The Resy venue ID.' },
+              name: { type: 'string', description: 'Venue name.' },
+            },
+            required: ['venue_id'],
+          },
+        },
+        date: {
+          type: 'string',
+          description: 'Date to check (YYYY-MM-DD).',
+        },
+        party_size: {
+          type: 'number',
+          description: 'Number of guests.',
+        },
+        time: {
+          type: 'string',
+          description: 'Desired time in HH:MM 24h format (e.g., "20:00").',
+        },
+        seating_type: {
+          type: 'string',
+          description: 'Only consider this seating type (e.g., "Dining Room"). Omit for any.',
+        },
+      },
+      required: ['venues', 'date', 'party_size', 'time'],
+    },
+  },
+  mode: 'data',
+  requires: ['resy'],
+  errorLabel: 'Error comparing availability',
+  async handle(input, ctx) {
+    const comparison = await compareAvailability(
+      ctx.resyAuthToken!,
+      input.venues.map(v => ({ venueId: v.venue_id, name: v.name })),
+      input.date, input.party_size, input.time,
+      { criteria: { seatingType: input.seating_type }, geo: geoFromInput({}, ctx.homeLocation) },
+    );
+    for (const venue of [...comparison.ranked, ...comparison.fully_booked]) {
+      rememberSlots(ctx.memory, {
+        provider: 'resy', venueId: venue.venue_id, venueName: venue.venue_name, date: comparison.date, partySize: comparison.party_size,
+        times: venue.closest_time ? [`${venue.closest_time} ${venue.seating_type ?? ''}`.trim(), ...(venue.other_times ?? [])] : [],
+      });
+    }
+    return ok(comparison);
+  },
+  summarize(input) {
+    const names = input.venues.map(v => v.name || `venue ${v.venue_id}`).join(', ');
+    return `[compared availability: ${names} on ${input.date} around ${input.time}, party of ${input.party_size}]`;
+  },
+};
@@ -0,0 +1,60 @@
+import type Anthropic from '@anthropic-ai/sdk';
+import type { ProviderSet } from '../../providers/index.js';
+import type { UserProfile, WorkingMemory } from '../../state/index.js';
+import type { ChatContext, MessageEffect, Reaction } from '../client.js';
+
+/**
+ * How the agent loop treats a tool call:
+ * - data:   runs inside the tool-use loop; Claude reads the result before replying
+ * - signal: side effects on the reply (reactions, effects, renames); run once after
+ *           the loop for every call in the turn, Claude just gets "ok"
+ * - server: executed by the Anthropic API itself (web search); never dispatched here
+ */
+export type ToolMode = 'data' | 'signal' | 'server';
+
+/** Conditions a chat must meet for the tool to be offered at all. */
+export type ToolRequirement = 'resy' | 'group_chat';
+
+/**
+ * Everything a handler can see for one chat() call. Handlers write back through
+ * the mutable fields; chat() reads them once the loop is done.
+ */
+export interface ToolContext {
+  chatId: string;
+  turnId: string; // identifies the user message; pending bookings compare against it
+  handle?: string; // sender, when known
+  chatContext?: ChatContext;
+  resyAuthToken: string | null;
+  providers: ProviderSet;
+  memory: WorkingMemory; // this chat's venues, slots and reservations — handlers record what they show or do
+
+  homeLocation?: UserProfile['homeLocation']; // set_home_location updates it for later calls this turn
+  bookingSucceeded: boolean; // triggers the auto-celebration effect
+  reaction: Reaction | null;
+  effect: MessageEffect | null;
+  renameChat: string | null;
+  rememberedUser: { name?: string; fact?: string; isForSender?: boolean } | null;
+}
+
+export interface ToolOutput {
+  content: string;
+  isError?: boolean;
+  summary?: string; // history line for this call; wins over the tool's summarize()
+}
+
+export interface ToolDefinition<I = Record<string, unknown>> {
+  schema: Anthropic.Tool; // name, description and input_schema exactly as Claude sees them
+  mode: ToolMode;
+  requires?: ToolRequirement[];
+  /** Extra availability check beyond requires, e.g. a feature flag. */
+  enabled?(ctx: ToolContext): boolean;
+  /** The call needs a known sender; without one it fails before handle() runs. */
+  needsSender?: boolean;
+  /** Cross-field checks the JSON schema can't express. Returns the error Claude sees, or null. */
+  validate?(input: I): string | null;
+  handle?(input: I, ctx: ToolContext): Promise<ToolOutput | void>;
+  /** Prefix for thrown errors, e.g. "Error searching restaurants". */
+  errorLabel?: string;
+  /** One-line bracketed note kept in history so later turns know what was done. */
+  summarize?(input: I): string | null;
+}
@@ -11,12 +11,15 @@ import express from 'express';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { DynamoDBClient, ScanCommand } from '@aws-sdk/client-dynamodb';
+import type { ScanCommandOutput } from '@aws-sdk/client-dynamodb';
 import { unmarshall } from '@aws-sdk/util-dynamodb';
 import {
   CloudWatchLogsClient,
   FilterLogEventsCommand,
   DescribeLogStreamsCommand,
 } from '@aws-sdk/client-cloudwatch-logs';
+import { totalUsage, usageBy } from './usage/index.js';
+import type { UsageRecord } from './usage/index.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const app = express();
@@ -217,6 +220,42 @@ app.get('/api/errors', async (_req, res) => {
   }
 });
 
+// Usage records since an ISO time, across every page of the scan
+async function scanUsage(since: string): Promise<UsageRecord[]> {
+  const records: UsageRecord[] = [];
+  let startKey: ScanCommandOutput['LastEvaluatedKey'];
+  do {
+    const scan = await ddb.send(new ScanCommand({
+      TableName: TABLE_NAME,
+      FilterExpression: 'begins_with(SK, :usage) AND createdAt >= :since',
+      ExpressionAttributeValues: { ':usage': { S: 'USAGE#' }, ':since': { S: since } },
+      ExclusiveStartKey: startKey,
+    }));
+    records.push(...(scan.Items ?? []).map((i) => unmarshall(i) as UsageRecord));
+    startKey = scan.LastEvaluatedKey;
+  } while (startKey);
+  return records;
+}
+
+app.get('/api/usage', async (_req, res) => {
+  try {
+    const today = new Date().toISOString().slice(0, 10);
+    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+    const week = await scanUsage(weekAgo);
+
+    res.json({
+      today: totalUsage(week.filter((r) => r.createdAt.startsWith(today))),
+      week: totalUsage(week),
+      byModel: usageBy(week, (r) => r.model),
+      byPurpose: usageBy(week, (r) => r.purpose),
+      topUsers: usageBy(week, (r) => r.handle).slice(0, 10).map((u) => ({ ...u, key: redactPhone(u.key) })),
+      topChats: usageBy(week, (r) => r.chatId).slice(0, 10),
+    });
+  } catch (err: any) {
+    res.status(500).json({ error: err.message });
+  }
+});
+
 // ── HTML Dashboard ───────────────────────────────────────────────────────────
 
 app.get('/', (_req, res) => {
@@ -652,6 +691,68 @@ app.get('/', (_req, res) => {
         </div>
       </div>
     </div>
+
+    <!-- Claude usage -->
+    <div class="section-header" style="margin-top:1.5rem"><h2>Claude Usage</h2></div>
+    <div class="stats-row">
+      <div class="stat-card">
+        <div class="label">Cost Today</div>
+        <div class="value accent" id="usage-cost-today">—</div>
+        <div class="sub">UTC day, estimated</div>
+      </div>
+      <div class="stat-card">
+        <div class="label">Cost 7d</div>
+        <div class="value" id="usage-cost-week">—</div>
+        <div class="sub">estimated</div>
+      </div>
+      <div class="stat-card">
+        <div class="label">Calls 7d</div>
+        <div class="value" id="usage-calls-week">—</div>
+        <div class="sub">api requests</div>
+      </div>
+      <div class="stat-card">
+        <div class="label">Input 7d</div>
+        <div class="value" id="usage-input-week">—</div>
+        <div class="sub" id="usage-cache-week">tokens</div>
+      </div>
+      <div class="stat-card">
+        <div class="label">Output 7d</div>
+        <div class="value" id="usage-output-week">—</div>
+        <div class="sub">tokens</div>
+      </div>
+      <div class="stat-card">
+        <div class="label">Calls Today</div>
+        <div class="value" id="usage-calls-today">—</div>
+        <div class="sub">api requests</div>
+      </div>
+    </div>
+    <div class="bottom-grid" style="margin-top:0">
+      <div>
+        <div class="section-header"><h2>Top Users (7d)</h2></div>
+        <div class="card">
+          <table>
+            <thead><tr><th>Phone</th><th>Calls</th><th>Tokens</th><th>Cost</th></tr></thead>
+            <tbody id="usage-users-body"><tr><td colspan="4" class="loading">Loading</td></tr></tbody>
+          </table>
+        </div>
+      </div>
+      <div>
+        <div class="section-header"><h2>Top Chats (7d)</h2></div>
+        <div class="card">
+          <table>
+            <thead><tr><th>Chat</th><th>Calls</th><th>Tokens</th><th>Cost</th></tr></thead>
+            <tbody id="usage-chats-body"><tr><td colspan="4" class="loading">Loading</td></tr></tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+    <div class="section-header" style="margin-top:1.5rem"><h2>By Model &amp; Purpose (7d)</h2></div>
+    <div class="card">
+      <table>
+        <thead><tr><th>Model / Purpose</th><th>Calls</th><th>Tokens</th><th>Cost</th></tr></thead>
+        <tbody id="usage-breakdown-body"><tr><td colspan="4" class="loading">Loading</td></tr></tbody>
+      </table>
+    </div>
   </div>
 
   <script>
@@ -782,8 +883,48 @@ app.get('/', (_req, res) => {
       } catch (e) { console.error('Errors fetch failed:', e); }
     }
 
+    function usd(n) { return '$' + (n < 1 ? n.toFixed(3) : n.toFixed(2)); }
+    function tokens(n) { return n >= 1e6 ? (n / 1e6).toFixed(1) + 'M' : n >= 1e3 ? (n / 1e3).toFixed(1) + 'k' : String(n); }
+
+    function usageRows(rows, mono) {
+      return rows.map(u =>
+        '<tr>'
+        + '<td style="' + (mono ? 'font-family:Geist Mono,monospace;font-size:0.8rem;' : '') + 'color:#E7E7E7">' + escHtml(u.key) + '</td>'
+        + '<td>' + u.calls + '</td>'
+        + '<td>' + tokens(u.inputTokens + u.outputTokens + u.cacheWriteTokens + u.cacheReadTokens) + '</td>'
+        + '<td>' + usd(u.costUsd) + '</td>'
+        + '</tr>'
+      ).join('');
+    }
+
+    async function fetchUsage() {
+      try {
+        const r = await fetch('/api/usage');
+        const d = await r.json();
+        document.getElementById('usage-cost-today').textContent = usd(d.today.costUsd);
+        document.getElementById('usage-calls-today').textContent = d.today.calls;
+        document.getElementById('usage-cost-week').textContent = usd(d.week.costUsd);
+        document.getElementById('usage-calls-week').textContent = d.week.calls;
+        document.getElementById('usage-input-week').textContent = tokens(d.week.inputTokens);
+        document.getElementById('usage-cache-week').textContent =
+          'tokens, ' + tokens(d.week.cacheReadTokens) + ' cached';
+        document.getElementById('usage-output-week').textContent = tokens(d.week.outputTokens);
+
+        const users = document.getElementById('usage-users-body');
+        users.innerHTML = d.topUsers.length ? usageRows(d.topUsers, true)
+          : '<tr><td colspan="4" class="empty">No usage in the last 7d</td></tr>';
+        const chats = document.getElementById('usage-chats-body');
+        chats.innerHTML = d.topChats.length ? usageRows(d.topChats, true)
+          : '<tr><td colspan="4" class="empty">No usage in the last 7d</td></tr>';
+        const breakdown = document.getElementById('usage-breakdown-body');
+        const rows = [...d.byModel, ...d.byPurpose];
+        breakdown.innerHTML = rows.length ? usageRows(rows, false)
+          : '<tr><td colspan="4" class="empty">No usage in the last 7d</td></tr>';
+      } catch (e) { console.error('Usage fetch failed:', e); }
+    }
+
     function refreshAll() {
-      fetchStats(); fetchLogs(); fetchSignups(); fetchErrors();
+      fetchStats(); fetchLogs(); fetchSignups(); fetchErrors(); fetchUsage();
       document.getElementById('refresh-info').textContent =
         'Last refresh ' + estShort(Date.now()) + ' ET';
     }
@@ -50,44 +50,177 @@ export async function deleteItem(pk: string, sk: string): Promise<void> {
   );
 }
 
-export async function updateItem(
+/**
+ * Delete an item and return what was there. Of several concurrent calls only
+ * one gets the item back; the rest get null — use it to claim single-use items.
+ */
+export async function takeItem<T>(pk: string, sk: string): Promise<T | null> {
+  const { Attributes } = await docClient.send(
+    new DeleteCommand({ TableName: TABLE_NAME, Key: { PK: pk, SK: sk }, ReturnValues: 'ALL_OLD' }),
+  );
+  return (Attributes as T) ?? null;
+}
+
+/**
+ * putItem, applied only while every `expected` attribute of the stored item
+ * still holds the given value. Returns false, writing nothing, when one
+ * doesn't (or the item is gone).
+ */
+export async function putItemIf(
   pk: string,
   sk: string,
-  updates: Record<string, unknown>,
-): Promise<void> {
-  const keys = Object.keys(updates);
-  if (keys.length === 0) return;
+  data: Record<string, unknown>,
+  expected: Record<string, unknown>,
+  ttlSeconds?: number,
+): Promise<boolean> {
+  const item: Record<string, unknown> = { PK: pk, SK: sk, ...data };
+  if (ttlSeconds) {
+    item.TTL = Math.floor(Date.now() / 1000) + ttlSeconds;
+  }
+  const names: Record<string, string> = {};
+  const values: Record<string, unknown> = {};
+  const conditions: string[] = [];
+  for (const key of Object.keys(expected)) {
+    names[`#${key}`] = key;
+    values[`:expected_${key}`] = expected[key];
+    conditions.push(`#${key} = :expected_${key}`);
+  }
 
-  const expNames: Record<string, string> = {};
-  const expValues: Record<string, unknown> = {};
+  try {
+    await docClient.send(
+      new PutCommand({
+        TableName: TABLE_NAME,
+        Item: item,
+        ConditionExpression: conditions.join(' AND '),
+        ExpressionAttributeNames: names,
+        ExpressionAttributeValues: values,
+      }),
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') return false;
+    throw error;
+  }
+  return true;
+}
+
+function setExpression(updates: Record<string, unknown>) {
+  const names: Record<string, string> = {};
+  const values: Record<string, unknown> = {};
   const setClauses: string[] = [];
 
-  for (const key of keys) {
+  for (const key of Object.keys(updates)) {
     const safeKey = `#${key}`;
     const safeVal = `:${key}`;
-    expNames[safeKey] = key;
-    expValues[safeVal] = updates[key];
+    names[safeKey] = key;
+    values[safeVal] = updates[key];
     setClauses.push(`${safeKey} = ${safeVal}`);
   }
+  return { expression: `SET ${setClauses.join(', ')}`, names, values };
+}
+
+export async function updateItem(
+  pk: string,
+  sk: string,
+  updates: Record<string, unknown>,
+): Promise<void> {
+  if (Object.keys(updates).length === 0) return;
+  const set = setExpression(updates);
 
   await docClient.send(
     new UpdateCommand({
       TableName: TABLE_NAME,
       Key: { PK: pk, SK: sk },
-      UpdateExpression: `SET ${setClauses.join(', ')}`,
-      ExpressionAttributeNames: expNames,
-      ExpressionAttributeValues: expValues,
+      UpdateExpression: set.expression,
+      ExpressionAttributeNames: set.names,
+      ExpressionAttributeValues: set.values,
     }),
   );
 }
 
-export async function queryByPk<T>(pk: string): Promise<T[]> {
-  const { Items } = await docClient.send(
-    new QueryCommand({
-      TableName: TABLE_NAME,
-      KeyConditionExpression: 'PK = :pk',
-      ExpressionAttributeValues: { ':pk': pk },
-    }),
-  );
-  return (Items as T[]) ?? [];
+/**
+ * updateItem, applied only while every `expected` attribute still holds the
+ * given value. Returns false, changing nothing, when one doesn't — the caller
+ * lost a race.
+ */
+export async function updateItemIf(
+  pk: string,
+  sk: string,
+  updates: Record<string, unknown>,
+  expected: Record<string, unknown>,
+): Promise<boolean> {
+  const set = setExpression(updates);
+  const conditions: string[] = [];
+  for (const key of Object.keys(expected)) {
+    set.names[`#${key}`] = key;
+    set.values[`:expected_${key}`] = expected[key];
+    conditions.push(`#${key} = :expected_${key}`);
+  }
+
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: { PK: pk, SK: sk },
+        UpdateExpression: set.expression,
+        ConditionExpression: conditions.join(' AND '),
+        ExpressionAttributeNames: set.names,
+        ExpressionAttributeValues: set.values,
+      }),
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') return false;
+    throw error;
+  }
+  return true;
+}
+
+/**
+ * Push an existing item's TTL out to ttlSeconds from now. Does nothing when
+ * the item isn't there, rather than creating an empty one.
+ */
+export async function refreshTtl(pk: string, sk: string, ttlSeconds: number): Promise<void> {
+  try {
+    await docClient.send(
+      new UpdateCommand({
+        TableName: TABLE_NAME,
+        Key: { PK: pk, SK: sk },
+        UpdateExpression: 'SET #ttl = :ttl',
+        ConditionExpression: 'attribute_exists(PK)',
+        ExpressionAttributeNames: { '#ttl': 'TTL' },
+        ExpressionAttributeValues: { ':ttl': Math.floor(Date.now() / 1000) + ttlSeconds },
+      }),
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ConditionalCheckFailedException') return;
+    throw error;
+  }
+}
+
+/**
+ * Every item under a partition (with an SK prefix, just those), following
+ * LastEvaluatedKey across pages. newestFirst reads in descending SK order;
+ * limit stops once that many items are in hand.
+ */
+export async function queryByPk<T>(
+  pk: string,
+  skPrefix?: string,
+  options: { newestFirst?: boolean; limit?: number } = {},
+): Promise<T[]> {
+  const items: T[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const { Items, LastEvaluatedKey } = await docClient.send(
+      new QueryCommand({
+        TableName: TABLE_NAME,
+        KeyConditionExpression: skPrefix ? 'PK = :pk AND begins_with(SK, :sk)' : 'PK = :pk',
+        ExpressionAttributeValues: skPrefix ? { ':pk': pk, ':sk': skPrefix } : { ':pk': pk },
+        ...(options.newestFirst && { ScanIndexForward: false }),
+        ...(options.limit && { Limit: options.limit - items.length }),
+        ...(startKey && { ExclusiveStartKey: startKey }),
+      }),
+    );
+    items.push(...((Items as T[]) ?? []));
+    startKey = LastEvaluatedKey;
+  } while (startKey && !(options.limit && items.length >= options.limit));
+  return items;
 }
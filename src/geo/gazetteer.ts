@@ -0,0 +1,233 @@
+import type { GeoPoint, Place, ResolvedLocation } from './types.js';
+
+// Centroids are approximate — Resy only uses them to centre a search
+const CITIES: Place[] = [
+  { name: 'New York', city: 'New York', lat: 40.7128, lng: -73.9876, aliases: ['nyc', 'new york city', 'manhattan'] },
+  { name: 'Brooklyn', city: 'New York', lat: 40.6782, lng: -73.9442 },
+  { name: 'Queens', city: 'New York', lat: 40.7282, lng: -73.7949 },
+  { name: 'Los Angeles', city: 'Los Angeles', lat: 34.0522, lng: -118.2437, aliases: ['la', 'l a'] },
+  { name: 'San Francisco', city: 'San Francisco', lat: 37.7749, lng: -122.4194, aliases: ['sf', 'san fran'] },
+  { name: 'Oakland', city: 'Oakland', lat: 37.8044, lng: -122.2712 },
+  { name: 'Chicago', city: 'Chicago', lat: 41.8781, lng: -87.6298 },
+  { name: 'Austin', city: 'Austin', lat: 30.2672, lng: -97.7431 },
+  { name: 'Dallas', city: 'Dallas', lat: 32.7767, lng: -96.797 },
+  { name: 'Houston', city: 'Houston', lat: 29.7604, lng: -95.3698 },
+  { name: 'Miami', city: 'Miami', lat: 25.7617, lng: -80.1918 },
+  { name: 'Miami Beach', city: 'Miami Beach', lat: 25.7907, lng: -80.13 },
+  { name: 'Washington', city: 'Washington', lat: 38.9072, lng: -77.0369, aliases: ['dc', 'washington dc', 'd c'] },
+  { name: 'Boston', city: 'Boston', lat: 42.3601, lng: -71.0589 },
+  { name: 'Philadelphia', city: 'Philadelphia', lat: 39.9526, lng: -75.1652, aliases: ['philly'] },
+  { name: 'Seattle', city: 'Seattle', lat: 47.6062, lng: -122.3321 },
+  { name: 'Portland', city: 'Portland', region: 'Oregon', lat: 45.5152, lng: -122.6784 },
+  { name: 'Portland', city: 'Portland', region: 'Maine', lat: 43.6591, lng: -70.2568 },
+  { name: 'Denver', city: 'Denver', lat: 39.7392, lng: -104.9903 },
+  { name: 'Atlanta', city: 'Atlanta', lat: 33.749, lng: -84.388, aliases: ['atl'] },
+  { name: 'Nashville', city: 'Nashville', lat: 36.1627, lng: -86.7816 },
+  { name: 'New Orleans', city: 'New Orleans', lat: 29.9511, lng: -90.0715, aliases: ['nola'] },
+  { name: 'Las Vegas', city: 'Las Vegas', lat: 36.1699, lng: -115.1398, aliases: ['vegas'] },
+  { name: 'San Diego', city: 'San Diego', lat: 32.7157, lng: -117.1611 },
+  { name: 'Charleston', city: 'Charleston', lat: 32.7765, lng: -79.9311 },
+  { name: 'Minneapolis', city: 'Minneapolis', lat: 44.9778, lng: -93.265 },
+  { name: 'Detroit', city: 'Detroit', lat: 42.3314, lng: -83.0458 },
+  { name: 'Phoenix', city: 'Phoenix', lat: 33.4484, lng: -112.074 },
+  { name: 'Scottsdale', city: 'Scottsdale', lat: 33.4942, lng: -111.9261 },
+  { name: 'Honolulu', city: 'Honolulu', lat: 21.3069, lng: -157.8583 },
+  { name: 'London', city: 'London', lat: 51.5074, lng: -0.1278 },
+  { name: 'Paris', city: 'Paris', lat: 48.8566, lng: 2.3522 },
+  { name: 'Toronto', city: 'Toronto', lat: 43.6532, lng: -79.3832 },
+  { name: 'Mexico City', city: 'Mexico City', lat: 19.4326, lng: -99.1332, aliases: ['cdmx'] },
+  { name: 'Venice', city: 'Venice', region: 'Italy', lat: 45.4408, lng: 12.3155 },
+];
+
+const NEIGHBORHOODS: Place[] = [
+  // New York
+  { name: 'East Village', city: 'New York', lat: 40.7265, lng: -73.9815 },
+  { name: 'West Village', city: 'New York', lat: 40.7358, lng: -74.0036 },
+  { name: 'Greenwich Village', city: 'New York', lat: 40.7336, lng: -73.9991 },
+  { name: 'SoHo', city: 'New York', lat: 40.7233, lng: -74.003 },
+  { name: 'NoHo', city: 'New York', lat: 40.7289, lng: -73.9925 },
+  { name: 'Nolita', city: 'New York', lat: 40.7223, lng: -73.9955 },
+  { name: 'Tribeca', city: 'New York', lat: 40.7163, lng: -74.0086 },
+  { name: 'Lower East Side', city: 'New York', lat: 40.715, lng: -73.9843, aliases: ['les'] },
+  { name: 'Chinatown', city: 'New York', lat: 40.7158, lng: -73.997 },
+  { name: 'Flatiron', city: 'New York', lat: 40.7411, lng: -73.9897, aliases: ['flatiron district'] },
+  { name: 'Gramercy', city: 'New York', lat: 40.7368, lng: -73.9845 },
+  { name: 'Chelsea', city: 'New York', lat: 40.7465, lng: -74.0014 },
+  { name: 'Meatpacking District', city: 'New York', lat: 40.7411, lng: -74.0078, aliases: ['meatpacking'] },
+  { name: 'Midtown', city: 'New York', lat: 40.7549, lng: -73.984 },
+  { name: 'Hell\'s Kitchen', city: 'New York', lat: 40.7638, lng: -73.9918, aliases: ['hells kitchen'] },
+  { name: 'Upper West Side', city: 'New York', lat: 40.787, lng: -73.9754, aliases: ['uws'] },
+  { name: 'Upper East Side', city: 'New York', lat: 40.7736, lng: -73.9566, aliases: ['ues'] },
+  { name: 'Harlem', city: 'New York', lat: 40.8116, lng: -73.9465 },
+  { name: 'Financial District', city: 'New York', lat: 40.7075, lng: -74.0113, aliases: ['fidi'] },
+  { name: 'Williamsburg', city: 'New York', lat: 40.7081, lng: -73.9571 },
+  { name: 'Greenpoint', city: 'New York', lat: 40.7304, lng: -73.951 },
+  { name: 'Bushwick', city: 'New York', lat: 40.6944, lng: -73.9213 },
+  { name: 'DUMBO', city: 'New York', lat: 40.7033, lng: -73.9881 },
+  { name: 'Brooklyn Heights', city: 'New York', lat: 40.696, lng: -73.9936 },
+  { name: 'Cobble Hill', city: 'New York', lat: 40.686, lng: -73.996 },
+  { name: 'Carroll Gardens', city: 'New York', lat: 40.6795, lng: -73.9991 },
+  { name: 'Park Slope', city: 'New York', lat: 40.671, lng: -73.9814 },
+  { name: 'Fort Greene', city: 'New York', lat: 40.6892, lng: -73.9749 },
+  { name: 'Prospect Heights', city: 'New York', lat: 40.6775, lng: -73.9692 },
+  { name: 'Crown Heights', city: 'New York', lat: 40.6694, lng: -73.9422 },
+  { name: 'Red Hook', city: 'New York', lat: 40.6734, lng: -74.0083 },
+  { name: 'Astoria', city: 'New York', lat: 40.7644, lng: -73.9235 },
+  { name: 'Long Island City', city: 'New York', lat: 40.7447, lng: -73.9485, aliases: ['lic'] },
+  { name: 'Jackson Heights', city: 'New York', lat: 40.7557, lng: -73.8831 },
+  { name: 'Flushing', city: 'New York', lat: 40.7675, lng: -73.833 },
+  // Los Angeles
+  { name: 'Silver Lake', city: 'Los Angeles', lat: 34.0869, lng: -118.2702, aliases: ['silverlake'] },
+  { name: 'Echo Park', city: 'Los Angeles', lat: 34.0782, lng: -118.2606 },
+  { name: 'Los Feliz', city: 'Los Angeles', lat: 34.1066, lng: -118.2848 },
+  { name: 'Highland Park', city: 'Los Angeles', lat: 34.1115, lng: -118.1924 },
+  { name: 'Downtown LA', city: 'Los Angeles', lat: 34.0407, lng: -118.2468, aliases: ['dtla', 'downtown los angeles'] },
+  { name: 'Arts District', city: 'Los Angeles', lat: 34.0403, lng: -118.2353 },
+  { name: 'West Hollywood', city: 'Los Angeles', lat: 34.09, lng: -118.3617, aliases: ['weho'] },
+  { name: 'Hollywood', city: 'Los Angeles', lat: 34.0928, lng: -118.3287 },
+  { name: 'Koreatown', city: 'Los Angeles', lat: 34.0618, lng: -118.3004, aliases: ['ktown'] },
+  { name: 'Venice', city: 'Los Angeles', lat: 33.985, lng: -118.4695 },
+  { name: 'Santa Monica', city: 'Los Angeles', lat: 34.0195, lng: -118.4912 },
+  { name: 'Beverly Hills', city: 'Los Angeles', lat: 34.0736, lng: -118.4004 },
+  { name: 'Culver City', city: 'Los Angeles', lat: 34.0211, lng: -118.3965 },
+  { name: 'Pasadena', city: 'Los Angeles', lat: 34.1478, lng: -118.1445 },
+  // San Francisco
+  { name: 'Mission District', city: 'San Francisco', lat: 37.7599, lng: -122.4148, aliases: ['the mission', 'mission'] },
+  { name: 'Hayes Valley', city: 'San Francisco', lat: 37.7759, lng: -122.4245 },
+  { name: 'North Beach', city: 'San Francisco', lat: 37.8061, lng: -122.4103 },
+  { name: 'Marina', city: 'San Francisco', lat: 37.8037, lng: -122.4368, aliases: ['the marina'] },
+  { name: 'Nob Hill', city: 'San Francisco', lat: 37.793, lng: -122.4161 },
+  { name: 'SoMa', city: 'San Francisco', lat: 37.7785, lng: -122.4056 },
+  { name: 'Castro', city: 'San Francisco', lat: 37.7609, lng: -122.435, aliases: ['the castro'] },
+  { name: 'Noe Valley', city: 'San Francisco', lat: 37.7502, lng: -122.4337 },
+  // Chicago
+  { name: 'West Loop', city: 'Chicago', lat: 41.8827, lng: -87.6471 },
+  { name: 'River North', city: 'Chicago', lat: 41.8924, lng: -87.6341 },
+  { name: 'Wicker Park', city: 'Chicago', lat: 41.9088, lng: -87.6796 },
+  { name: 'Logan Square', city: 'Chicago', lat: 41.9234, lng: -87.7083 },
+  { name: 'Lincoln Park', city: 'Chicago', lat: 41.9214, lng: -87.6513 },
+  { name: 'Fulton Market', city: 'Chicago', lat: 41.8866, lng: -87.6522 },
+  // Elsewhere
+  { name: 'South Congress', city: 'Austin', lat: 30.2496, lng: -97.7494, aliases: ['soco'] },
+  { name: 'East Austin', city: 'Austin', lat: 30.2624, lng: -97.7197 },
+  { name: 'Wynwood', city: 'Miami', lat: 25.8005, lng: -80.1993 },
+  { name: 'Brickell', city: 'Miami', lat: 25.7617, lng: -80.1918 },
+  { name: 'Little Havana', city: 'Miami', lat: 25.7654, lng: -80.2194 },
+  { name: 'Georgetown', city: 'Washington', lat: 38.9097, lng: -77.0654 },
+  { name: 'Capitol Hill', city: 'Washington', lat: 38.8898, lng: -76.9905 },
+  { name: 'Capitol Hill', city: 'Seattle', lat: 47.6253, lng: -122.3222 },
+  { name: 'Georgetown', city: 'Seattle', lat: 47.5467, lng: -122.3225 },
+  { name: 'Ballard', city: 'Seattle', lat: 47.6687, lng: -122.3847 },
+  { name: 'Back Bay', city: 'Boston', lat: 42.3503, lng: -71.081 },
+  { name: 'South End', city: 'Boston', lat: 42.3388, lng: -71.0765 },
+  { name: 'Fishtown', city: 'Philadelphia', lat: 39.9727, lng: -75.1296 },
+  { name: 'East Nashville', city: 'Nashville', lat: 36.1866, lng: -86.7426 },
+  { name: 'French Quarter', city: 'New Orleans', lat: 29.9584, lng: -90.0644 },
+];
+
+// Trailing qualifiers people add that don't change the match ("austin tx", "williamsburg brooklyn")
+const QUALIFIERS = new Set([
+  'ny', 'nyc', 'new york', 'brooklyn', 'queens', 'manhattan', 'ca', 'california', 'la', 'sf',
+  'il', 'tx', 'texas', 'fl', 'florida', 'dc', 'ma', 'pa', 'wa', 'or', 'co', 'ga', 'tn', 'nv', 'az',
+  'mn', 'mi', 'sc', 'hi', 'me', 'usa', 'us', 'uk', 'chicago', 'los angeles', 'san francisco', 'miami', 'austin',
+  'seattle', 'washington', 'oregon', 'maine', 'italy',
+]);
+
+// State codes that pick out a region (only the ones a same-named place needs)
+const STATE_CODES: Record<string, string> = { or: 'oregon', me: 'maine' };
+
+// Of several same-named places, one this close to the user's home is the one they mean
+const HOME_REGION_KM = 150;
+
+/**
+ * Thrown when a name matches more than one place ("Portland") and nothing
+ * picks one out. Carries the candidates so the user can be asked.
+ */
+export class AmbiguousLocationError extends Error {
+  constructor(name: string, public readonly candidates: ResolvedLocation[]) {
+    super(`"${name}" could be ${candidates.map(c => c.name).join(' or ')}. Ask which one they mean, or pass it with the city or state (e.g. "${candidates[0].name}").`);
+    this.name = 'AmbiguousLocationError';
+  }
+}
+
+function normalize(name: string): string {
+  return name
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/['’.]/g, '')
+    .replace(/[^a-z0-9,]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const INDEX = new Map<string, Place[]>();
+for (const place of [...CITIES, ...NEIGHBORHOODS]) {
+  for (const key of [place.name, ...(place.aliases ?? [])]) {
+    const places = INDEX.get(normalize(key)) ?? [];
+    if (!places.includes(place)) INDEX.set(normalize(key), [...places, place]);
+  }
+}
+
+function displayName(place: Place): string {
+  const name = place.city === place.name ? place.name : `${place.name}, ${place.city}`;
+  return place.region ? `${name}, ${place.region}` : name;
+}
+
+function toResolved(place: Place): ResolvedLocation {
+  return { name: displayName(place), lat: place.lat, lng: place.lng };
+}
+
+// "dc", "washington", "maine" or "me" — does the qualifier describe where this place is?
+function inRegion(place: Place, qualifier: string): boolean {
+  const city = CITIES.find(c => c.name === place.city && c.region === place.region);
+  const names = [place.city, ...(city?.aliases ?? []), ...(place.region ? [place.region] : [])].map(normalize);
+  return names.includes(qualifier) || (!!place.region && STATE_CODES[qualifier] === normalize(place.region));
+}
+
+function lookup(key: string): Place[] {
+  const exact = INDEX.get(key);
+  if (exact) return exact;
+  // Peel qualifiers off the end: "silver lake los angeles" → "silver lake".
+  // When the name is shared, the qualifier picks between them
+  const words = key.split(' ');
+  for (let cut = words.length - 1; cut >= 1; cut--) {
+    const tail = words.slice(cut).join(' ');
+    if (!QUALIFIERS.has(tail)) continue;
+    const places = INDEX.get(words.slice(0, cut).join(' '));
+    if (!places) continue;
+    const narrowed = places.filter(place => inRegion(place, tail));
+    return narrowed.length > 0 ? narrowed : places;
+  }
+  return [];
+}
+
+// Great-circle distance, plenty accurate for "is this near home"
+function distanceKm(a: GeoPoint, b: GeoPoint): number {
+  const rad = (deg: number) => deg * Math.PI / 180;
+  const h = Math.sin(rad(b.lat - a.lat) / 2) ** 2
+    + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(rad(b.lng - a.lng) / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Resolve a city or neighborhood name ("williamsburg", "Silver Lake, LA",
+ * "austin tx") to coordinates. Returns null for places we don't know —
+ * callers should ask for something more specific rather than guess.
+ *
+ * A name shared by several places ("Portland", "Capitol Hill") resolves to the
+ * one near `near` (the user's home) if there is one; otherwise it throws
+ * AmbiguousLocationError.
+ */
+export function resolveLocation(name: string, near?: GeoPoint): ResolvedLocation | null {
+  const key = normalize(name);
+  if (!key) return null;
+
+  let places = lookup(key.replace(/,/g, ' ').replace(/\s+/g, ' ').trim());
+  if (places.length === 0) places = lookup(key.split(',')[0].trim());
+  if (places.length === 0) return null;
+  if (places.length === 1) return toResolved(places[0]);
+
+  const nearby = near ? places.filter(place => distanceKm(place, near) <= HOME_REGION_KM) : [];
+  if (nearby.length === 1) return toResolved(nearby[0]);
+  throw new AmbiguousLocationError(name, places.map(toResolved));
+}
@@ -0,0 +1,2 @@
+export { resolveLocation, AmbiguousLocationError } from './gazetteer.js';
+export type { GeoPoint, Place, ResolvedLocation } from './types.js';
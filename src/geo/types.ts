@@ -0,0 +1,20 @@
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * A named point in the offline gazetteer. Neighborhoods carry their city;
+ * a city's own entry has city === name.
+ */
+export interface Place extends GeoPoint {
+  name: string;
+  city: string;
+  aliases?: string[]; // extra spellings, lowercase ("silverlake", "nyc")
+  region?: string;    // state or country, to tell same-named places apart ("Oregon")
+}
+
+/** A place name resolved to coordinates, e.g. a user's saved home location. */
+export interface ResolvedLocation extends GeoPoint {
+  name: string; // display form, e.g. "Williamsburg, New York"
+}
@@ -19,7 +19,7 @@ import {
   extractAudioUrls,
 } from '../webhook/types.js';
 import { sendMessage, markAsRead, startTyping, sendReaction, shareContactCard, getChat, renameGroupChat } from '../linq/client.js';
-import { chat, getGroupChatAction, getTextForEffect } from '../claude/client.js';
+import { chat, compactChat, flushUsage, getGroupChatAction, getTextForEffect } from '../claude/client.js';
 import { getUserProfile, setUserName, addMessage } from '../state/conversation.js';
 import {
   getUser, createUser, loadUserContext, consumeJustOnboarded,
@@ -61,6 +61,9 @@ export const handler: SQSHandler = async (event) => {
       console.error(`[processor] Error processing record:`, error);
       // Let the message go to DLQ on failure
       throw error;
+    } finally {
+      // Usage is written in the background; land it before the sandbox freezes
+      await flushUsage();
     }
   }
 };
@@ -316,6 +319,7 @@ async function processRecord(record: SQSRecord): Promise<void> {
     service,
     bookingsCredentials: userCtx.bookingsCredentials,
     justOnboarded,
+    messageId,
   });
   console.log(`[timing] claude: ${Date.now() - start}ms`);
 
@@ -329,7 +333,7 @@ async function processRecord(record: SQSRecord): Promise<void> {
 
   let finalText = responseText;
   if (!finalText && effect) {
-    finalText = await getTextForEffect(effect.name);
+    finalText = await getTextForEffect(effect.name, { chatId, handle: from });
   }
   if (!finalText && renameChat && isGroupChat) {
     finalText = `renamed the chat to "${renameChat}" 😎`;
@@ -353,5 +357,8 @@ async function processRecord(record: SQSRecord): Promise<void> {
     }
   }
 
+  // The reply is out; long chats fold older turns into their summary now
+  await compactChat(chatId, { chatId, handle: from });
+
   console.log(`[processor] Done for ${redactPhone(from)} (${Date.now() - start}ms)`);
 }
@@ -0,0 +1,20 @@
+/**
+ * Lambda #4 — "Sniper"
+ *
+ * Triggered every minute by EventBridge. Picks up snipes whose venue releases
+ * inventory before the next tick, sleeps until just before the drop, then
+ * races to book.
+ *
+ * Timeout: 180s (up to ~70s of waiting + 60s release window)
+ */
+
+import type { ScheduledHandler } from 'aws-lambda';
+import { runDueSnipes } from '../snipes/index.js';
+
+export const handler: ScheduledHandler = async () => {
+  const start = Date.now();
+  const ran = await runDueSnipes();
+  if (ran > 0) {
+    console.log(`[sniper] Ran ${ran} snipe(s) (${Date.now() - start}ms)`);
+  }
+};
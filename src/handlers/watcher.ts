@@ -0,0 +1,17 @@
+/**
+ * Lambda #3 — "Watcher"
+ *
+ * Triggered by an EventBridge schedule. Re-checks availability for every
+ * active watch and alerts (or auto-books for) users when a table opens up.
+ *
+ * Timeout: 120s (one Resy find per active watch)
+ */
+
+import type { ScheduledHandler } from 'aws-lambda';
+import { pollWatches } from '../watches/index.js';
+
+export const handler: ScheduledHandler = async () => {
+  const start = Date.now();
+  await pollWatches();
+  console.log(`[watcher] Done (${Date.now() - start}ms)`);
+};
@@ -3,12 +3,14 @@ import path from 'node:path';
 import express from 'express';
 import { createWebhookHandler } from './webhook/handler.js';
 import { sendMessage, markAsRead, startTyping, sendReaction, shareContactCard, getChat, renameGroupChat } from './linq/client.js';
-import { chat, getGroupChatAction, getTextForEffect } from './claude/client.js';
+import { chat, compactChat, getGroupChatAction, getTextForEffect } from './claude/client.js';
 import { getUserProfile, addMessage } from './state/conversation.js';
 import { authRoutes, getUser, createUser, loadUserContext, consumeJustOnboarded, setPendingOTP, getPendingOTP, clearPendingOTP, setPendingChallenge, getPendingChallenge, clearPendingChallenge, setCredentials, clearSignedOut } from './auth/index.js';
 import { sendResyOTP, verifyResyOTP, completeResyChallenge } from './bookings/index.js';
 import { redactPhone } from './utils/redact.js';
 import { putItem } from './db/dynamodb.js';
+import { pollWatches } from './watches/index.js';
+import { runDueSnipes } from './snipes/index.js';
 
 // Clean up LLM response formatting quirks before sending
 function cleanResponse(text: string): string {
@@ -312,6 +314,7 @@ app.post(
       service,
       bookingsCredentials: userCtx.bookingsCredentials,
       justOnboarded,
+      messageId,
     });
     console.log(`[timing] claude: ${Date.now() - start}ms`);
     console.log(`[debug] responseText: ${responseText ? `"${responseText.substring(0, 50)}..."` : 'null'}, effect: ${effect ? JSON.stringify(effect) : 'null'}, renameChat: ${renameChat || 'null'}`);
@@ -333,7 +336,7 @@ app.post(
     let finalText = responseText;
     if (!finalText && effect) {
       console.log(`[main] Claude sent effect without text, getting message from Haiku...`);
-      finalText = await getTextForEffect(effect.name);
+      finalText = await getTextForEffect(effect.name, { chatId, handle: from });
       console.log(`[timing] effect text followup: ${Date.now() - start}ms`);
     }
 
@@ -382,11 +385,25 @@ app.post(
     }
 
     console.log(`[main] Reply sent to ${redactPhone(from)}`);
+
+    // The reply is out; long chats fold older turns into their summary now
+    await compactChat(chatId, { chatId, handle: from });
   })
 );
 
+// Watches and snipes run in-process locally (Lambda uses the scheduled watcher/sniper functions)
+const WATCH_POLL_INTERVAL_MS = 5 * 60 * 1000;
+const SNIPE_TICK_MS = 60 * 1000;
+
 // Only start Express server when NOT running inside Lambda
 if (!process.env.AWS_LAMBDA_FUNCTION_NAME) {
+  setInterval(() => {
+    pollWatches().catch(err => console.error('[main] Watch poll failed:', err));
+  }, WATCH_POLL_INTERVAL_MS);
+  setInterval(() => {
+    runDueSnipes().catch(err => console.error('[main] Snipe tick failed:', err));
+  }, SNIPE_TICK_MS);
+
   app.listen(PORT, () => {
     console.log(`
 ╔═══════════════════════════════════════════════════════╗
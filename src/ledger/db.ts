@@ -0,0 +1,106 @@
+import crypto from 'node:crypto';
+import type { LedgerEntry, LedgerOrigin, LedgerQuery, NewLedgerEntry } from './types.js';
+import type { BookingConfirmation, ProviderId } from '../providers/types.js';
+import { putItem, queryByPk } from '../db/dynamodb.js';
+import { redactPhone } from '../utils/redact.js';
+
+// Under the user's partition, SK sorted by time so a prefix query is chronological.
+// No TTL — the ledger is the audit trail.
+const USER_PK = (handle: string) => `USER#${handle}`;
+const LEDGER_SK = (createdAt: string, id: string) => `LEDGER#${createdAt}#${id}`;
+
+/**
+ * Append an entry. The ledger is a record, not a gate: a failed write is
+ * logged and returns null rather than failing the booking it describes.
+ */
+export async function recordLedgerEntry(data: NewLedgerEntry): Promise<LedgerEntry | null> {
+  const entry: LedgerEntry = {
+    ...data,
+    id: crypto.randomBytes(4).toString('hex'),
+    createdAt: new Date().toISOString(),
+  };
+  try {
+    await putItem(USER_PK(entry.handle), LEDGER_SK(entry.createdAt, entry.id), entry as unknown as Record<string, unknown>);
+  } catch (error) {
+    console.error(`[ledger] Failed to record ${entry.action} ${entry.reservationToken}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+  console.log(`[ledger] Recorded ${entry.action} ${entry.reservationToken} for ${redactPhone(entry.handle)} (${entry.source} ${entry.sourceId})`);
+  return entry;
+}
+
+/** A book entry from a provider confirmation. */
+export function bookingEntry(
+  origin: LedgerOrigin,
+  confirmation: BookingConfirmation,
+  extra: Pick<NewLedgerEntry, 'venueId' | 'paymentMethodId' | 'replacesToken'> = {},
+): NewLedgerEntry {
+  return {
+    ...origin,
+    action: 'book',
+    provider: confirmation.provider,
+    reservationToken: confirmation.reservation_token,
+    venueName: confirmation.venue_name,
+    date: confirmation.date,
+    time: confirmation.time.slice(0, 5),
+    partySize: confirmation.party_size,
+    seatingType: confirmation.type,
+    agreedTerms: confirmation.agreed_terms,
+    ...extra,
+  };
+}
+
+/**
+ * A user's ledger, newest first.
+ */
+export async function listLedgerEntries(handle: string, query: LedgerQuery = {}): Promise<LedgerEntry[]> {
+  // SKs sort by time, so an unfiltered limit is read straight off the newest end
+  const filtered = !!(query.chatId || query.action || query.since || query.until);
+  const entries = (await queryByPk<LedgerEntry>(USER_PK(handle), 'LEDGER#', { newestFirst: true, limit: filtered ? undefined : query.limit }))
+    .filter(e => (!query.chatId || e.chatId === query.chatId)
+      && (!query.action || e.action === query.action)
+      && (!query.since || e.createdAt >= query.since)
+      && (!query.until || e.createdAt < query.until))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  return query.limit ? entries.slice(0, query.limit) : entries;
+}
+
+/** Every entry for one reservation, newest first — its booking and any cancellation. */
+export async function findLedgerEntries(handle: string, reservationToken: string): Promise<LedgerEntry[]> {
+  return (await listLedgerEntries(handle)).filter(e => e.reservationToken === reservationToken);
+}
+
+/**
+ * The most recent booking the agent made that hasn't since been cancelled
+ * ("cancel the one you just made"). Optionally limited to one chat.
+ */
+export async function latestActiveBooking(handle: string, chatId?: string): Promise<LedgerEntry | null> {
+  const entries = await listLedgerEntries(handle, { chatId });
+  const cancelled = new Set(entries.filter(e => e.action === 'cancel').map(e => `${e.provider}|${e.reservationToken}`));
+  return entries.find(e => e.action === 'book' && !cancelled.has(`${e.provider}|${e.reservationToken}`)) ?? null;
+}
+
+/**
+ * Record a cancellation, copying venue and time from the agent's own booking
+ * of that reservation when there is one.
+ */
+export async function recordCancellation(origin: LedgerOrigin, provider: ProviderId, reservationToken: string): Promise<LedgerEntry | null> {
+  let booked: LedgerEntry | undefined;
+  try {
+    booked = (await findLedgerEntries(origin.handle, reservationToken)).find(e => e.action === 'book' && e.provider === provider);
+  } catch (error) {
+    console.warn('[ledger] Booking lookup failed, recording cancel without details:', error instanceof Error ? error.message : error);
+  }
+  return recordLedgerEntry({
+    ...origin,
+    action: 'cancel',
+    provider,
+    reservationToken,
+    venueId: booked?.venueId,
+    venueName: booked?.venueName,
+    date: booked?.date,
+    time: booked?.time,
+    partySize: booked?.partySize,
+    seatingType: booked?.seatingType,
+  });
+}
@@ -0,0 +1,2 @@
+export type { LedgerEntry, NewLedgerEntry, LedgerAction, LedgerSource, LedgerOrigin, LedgerQuery } from './types.js';
+export { recordLedgerEntry, recordCancellation, bookingEntry, listLedgerEntries, findLedgerEntries, latestActiveBooking } from './db.js';
@@ -0,0 +1,43 @@
+import type { BookingTerms, ProviderId } from '../providers/types.js';
+
+export type LedgerAction = 'book' | 'cancel';
+export type LedgerSource = 'chat' | 'watch' | 'snipe';
+
+/** Who a ledger entry is for, and what triggered it. */
+export interface LedgerOrigin {
+  handle: string;
+  chatId: string;
+  source: LedgerSource;
+  sourceId: string;            // chat: the user message id; watch/snipe: its id
+}
+
+/**
+ * One booking or cancellation the agent made. Append-only — a cancel is a new
+ * entry with the same reservationToken, never an update to the booking.
+ */
+export interface LedgerEntry extends LedgerOrigin {
+  id: string;
+  action: LedgerAction;
+  provider: ProviderId;
+  reservationToken: string;    // resy_token on Resy
+  venueId?: number;
+  venueName?: string;          // always set on bookings; cancels copy it from the agent's booking when there is one
+  date?: string;               // YYYY-MM-DD
+  time?: string;               // HH:MM, venue-local
+  partySize?: number;
+  seatingType?: string;
+  agreedTerms?: BookingTerms;  // bookings: the fees the user agreed to
+  paymentMethodId?: number;
+  replacesToken?: string;      // bookings that moved an earlier reservation
+  createdAt: string;
+}
+
+export type NewLedgerEntry = Omit<LedgerEntry, 'id' | 'createdAt'>;
+
+export interface LedgerQuery {
+  chatId?: string;
+  action?: LedgerAction;
+  since?: string;              // ISO, inclusive
+  until?: string;              // ISO, exclusive
+  limit?: number;
+}
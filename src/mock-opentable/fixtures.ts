@@ -0,0 +1,49 @@
+// Fixture data for the local OpenTable stand-in. Shapes mirror the raw payloads
+// providers/opentable.ts reads, not our mapped types.
+
+export const MOCK_OPENTABLE_API_KEY = 'mock-opentable-key';
+
+export interface MockRestaurant {
+  rid: number;
+  name: string;
+  slug: string;
+  city: string;
+  state: string;
+  neighborhood: string;
+  lat: number;
+  lng: number;
+  timezone: string;
+  cuisines: string[];
+  priceBand: number;
+  rating: number;
+  areas: string[];
+  cancellationFee?: number; // card hold for late cancels / no-shows
+}
+
+// Mostly places that aren't on the mock Resy, plus one that is fully booked
+// there (Carbone) so cross-provider fallbacks can be exercised
+export const MOCK_RESTAURANTS: MockRestaurant[] = [
+  {
+    rid: 7001, name: 'Via Carota', slug: 'via-carota', city: 'New York', state: 'NY', neighborhood: 'West Village',
+    lat: 40.7334, lng: -74.0037, timezone: 'America/New_York',
+    cuisines: ['Italian'], priceBand: 3, rating: 4.7, areas: ['Dining Room', 'Bar'],
+  },
+  {
+    rid: 7002, name: 'Gramercy Tavern', slug: 'gramercy-tavern', city: 'New York', state: 'NY', neighborhood: 'Flatiron',
+    lat: 40.7385, lng: -73.9885, timezone: 'America/New_York',
+    cuisines: ['American'], priceBand: 4, rating: 4.8, areas: ['Dining Room', 'Tavern'], cancellationFee: 50,
+  },
+  {
+    rid: 7003, name: 'Carbone', slug: 'carbone-new-york', city: 'New York', state: 'NY', neighborhood: 'Greenwich Village',
+    lat: 40.7279, lng: -74.0001, timezone: 'America/New_York',
+    cuisines: ['Italian'], priceBand: 4, rating: 4.6, areas: ['Dining Room'],
+  },
+  {
+    rid: 7004, name: 'Republique', slug: 'republique', city: 'Los Angeles', state: 'CA', neighborhood: 'Hancock Park',
+    lat: 34.0642, lng: -118.3437, timezone: 'America/Los_Angeles',
+    cuisines: ['French'], priceBand: 3, rating: 4.6, areas: ['Dining Room', 'Patio'],
+  },
+];
+
+/** Bookable times each evening, before per-day gaps are knocked out. */
+export const SERVICE_TIMES = ['17:30', '18:00', '18:30', '19:00', '19:30', '20:00', '20:30', '21:00', '21:30'];
@@ -0,0 +1,17 @@
+/**
+ * Local OpenTable stand-in for development.
+ *
+ * Usage: npm run mock:opentable → http://localhost:3200
+ * Then run the agent with OPENTABLE_BASE_URL=http://localhost:3200 and
+ * OPENTABLE_API_KEY=mock-opentable-key.
+ */
+
+import { createMockOpenTableApp } from './server.js';
+import { MOCK_OPENTABLE_API_KEY } from './fixtures.js';
+
+const PORT = Number(process.env.MOCK_OPENTABLE_PORT) || 3200;
+
+createMockOpenTableApp().listen(PORT, () => {
+  console.log(`[mock-opentable] Listening on http://localhost:${PORT}`);
+  console.log(`[mock-opentable] API key: ${MOCK_OPENTABLE_API_KEY}`);
+});
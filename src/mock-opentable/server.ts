@@ -0,0 +1,259 @@
+/**
+ * Local OpenTable stand-in. Serves the partner endpoints providers/opentable.ts
+ * calls, backed by fixtures and in-memory state. Point the agent at it with
+ * OPENTABLE_BASE_URL and OPENTABLE_API_KEY.
+ */
+
+import express from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import { MOCK_OPENTABLE_API_KEY, MOCK_RESTAURANTS, SERVICE_TIMES } from './fixtures.js';
+import type { MockRestaurant } from './fixtures.js';
+
+interface MockBooking {
+  confirmationNumber: string;
+  rid: number;
+  dateTime: string; // YYYY-MM-DDTHH:MM
+  partySize: number;
+  area: string;
+  phone: string;
+  firstName?: string;
+  lastName?: string;
+  occasion?: string;
+  specialRequest?: string;
+  cancelledAt?: string;
+}
+
+interface SlotRef {
+  rid: number;
+  dateTime: string;
+  area: string;
+}
+
+export interface MockOpenTableState {
+  bookings: MockBooking[];
+}
+
+const DEFAULT_LIMIT = 20;
+
+function restaurantById(rid: number): MockRestaurant | undefined {
+  return MOCK_RESTAURANTS.find(r => r.rid === rid);
+}
+
+// Small stable hash so the same restaurant/day always has the same gaps
+function hash(text: string): number {
+  let h = 0;
+  for (const ch of text) h = (h * 31 + ch.charCodeAt(0)) | 0;
+  return Math.abs(h);
+}
+
+function slotKey(ref: SlotRef): string {
+  return `${ref.rid}|${ref.dateTime}|${ref.area}`;
+}
+
+function encodeHash(ref: SlotRef): string {
+  return Buffer.from(JSON.stringify(ref)).toString('base64url');
+}
+
+function decodeHash(slotHash: string): SlotRef | null {
+  try {
+    return JSON.parse(Buffer.from(slotHash, 'base64url').toString('utf8')) as SlotRef;
+  } catch {
+    return null;
+  }
+}
+
+function rawRestaurant(restaurant: MockRestaurant) {
+  return {
+    rid: restaurant.rid,
+    name: restaurant.name,
+    city: restaurant.city,
+    state: restaurant.state,
+    neighborhood: restaurant.neighborhood,
+    cuisines: restaurant.cuisines,
+    price_band: restaurant.priceBand,
+    rating: restaurant.rating,
+    profile_url: `https://www.opentable.com/r/${restaurant.slug}`,
+    timezone: restaurant.timezone,
+  };
+}
+
+function rawBooking(booking: MockBooking) {
+  const restaurant = restaurantById(booking.rid)!;
+  return {
+    confirmation_number: booking.confirmationNumber,
+    rid: booking.rid,
+    restaurant_name: restaurant.name,
+    profile_url: rawRestaurant(restaurant).profile_url,
+    date_time: booking.dateTime,
+    party_size: booking.partySize,
+    area: booking.area,
+    status: booking.cancelledAt ? 'cancelled' : 'confirmed',
+    occasion: booking.occasion,
+    special_request: booking.specialRequest,
+  };
+}
+
+export function createMockOpenTableState(): MockOpenTableState {
+  return { bookings: [] };
+}
+
+/**
+ * Open slots for a restaurant on a day: every service time and area, minus a
+ * deterministic set of gaps and anything already booked.
+ */
+export function openSlots(state: MockOpenTableState, restaurant: MockRestaurant, date: string, partySize: number): SlotRef[] {
+  if (partySize > 10) return [];
+  const held = new Set(state.bookings.filter(b => !b.cancelledAt).map(b => slotKey(b)));
+  return SERVICE_TIMES.flatMap(time => restaurant.areas.map(area => ({ rid: restaurant.rid, dateTime: `${date}T${time}`, area })))
+    .filter(ref => hash(`${slotKey(ref)}|${partySize}`) % 4 !== 0)
+    .filter(ref => !held.has(slotKey(ref)));
+}
+
+function requireApiKey(req: Request, res: Response, next: NextFunction): void {
+  if (req.header('authorization') !== `Bearer ${MOCK_OPENTABLE_API_KEY}`) {
+    res.status(401).json({ error: 'invalid_api_key' });
+    return;
+  }
+  next();
+}
+
+export function createMockOpenTableApp(state: MockOpenTableState = createMockOpenTableState()): express.Express {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    console.log(`[mock-opentable] ${req.method} ${req.path}`);
+    next();
+  });
+  app.use(requireApiKey);
+
+  // ── Restaurants and availability ────────────────────────────────────────────
+
+  app.get('/v1/restaurants', (req, res) => {
+    const query = String(req.query.q ?? '').trim().toLowerCase();
+    const lat = Number(req.query.lat ?? 40.7128);
+    const lng = Number(req.query.lng ?? -73.9876);
+    const limit = Number(req.query.limit ?? DEFAULT_LIMIT);
+
+    const restaurants = MOCK_RESTAURANTS
+      .filter(r => !query || [r.name, r.neighborhood, r.city, ...r.cuisines].some(text => text.toLowerCase().includes(query)))
+      .sort((a, b) => Math.hypot(a.lat - lat, a.lng - lng) - Math.hypot(b.lat - lat, b.lng - lng))
+      .slice(0, limit)
+      .map(rawRestaurant);
+    res.json({ restaurants });
+  });
+
+  app.get('/v1/restaurants/:rid', (req, res) => {
+    const restaurant = restaurantById(Number(req.params.rid));
+    if (!restaurant) {
+      res.status(404).json({ error: 'restaurant_not_found' });
+      return;
+    }
+    res.json({
+      ...rawRestaurant(restaurant),
+      policies: {
+        cancellation_fee: restaurant.cancellationFee ?? null,
+        cancellation_policy: restaurant.cancellationFee
+          ? `A $${restaurant.cancellationFee} per person fee applies to cancellations within 24 hours and no-shows.`
+          : undefined,
+      },
+    });
+  });
+
+  app.get('/v1/restaurants/:rid/availability', (req, res) => {
+    const restaurant = restaurantById(Number(req.params.rid));
+    const date = String(req.query.date ?? '');
+    const partySize = Number(req.query.party_size ?? 2);
+    if (!restaurant) {
+      res.status(404).json({ error: 'restaurant_not_found' });
+      return;
+    }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      res.status(400).json({ error: 'date must be YYYY-MM-DD' });
+      return;
+    }
+    const slots = openSlots(state, restaurant, date, partySize).map(ref => ({
+      date_time: ref.dateTime, area: ref.area, slot_hash: encodeHash(ref),
+    }));
+    res.json({ timezone: restaurant.timezone, slots });
+  });
+
+  // ── Reservations ────────────────────────────────────────────────────────────
+
+  app.post('/v1/reservations', (req, res) => {
+    const body = req.body as {
+      rid?: number; slot_hash?: string; party_size?: number;
+      diner?: { first_name?: string; last_name?: string; phone?: string };
+      occasion?: string; special_request?: string;
+    };
+    const ref = body.slot_hash ? decodeHash(body.slot_hash) : null;
+    const restaurant = ref && restaurantById(ref.rid);
+    if (!ref || !restaurant || ref.rid !== body.rid) {
+      res.status(400).json({ error: 'invalid_slot_hash' });
+      return;
+    }
+    if (!body.diner?.phone || !body.party_size) {
+      res.status(400).json({ error: 'diner.phone and party_size are required' });
+      return;
+    }
+    const stillOpen = openSlots(state, restaurant, ref.dateTime.slice(0, 10), body.party_size)
+      .some(s => slotKey(s) === slotKey(ref));
+    if (!stillOpen) {
+      res.status(409).json({ error: 'slot_unavailable' });
+      return;
+    }
+
+    const booking: MockBooking = {
+      confirmationNumber: `OT-${100_000 + state.bookings.length}`,
+      ...ref,
+      partySize: body.party_size,
+      phone: body.diner.phone,
+      firstName: body.diner.first_name,
+      lastName: body.diner.last_name,
+      occasion: body.occasion,
+      specialRequest: body.special_request,
+    };
+    state.bookings.push(booking);
+    console.log(`[mock-opentable] Booked ${booking.confirmationNumber}: restaurant ${ref.rid} ${ref.dateTime} for ${booking.partySize}`);
+    res.status(201).json(rawBooking(booking));
+  });
+
+  app.get('/v1/reservations', (req, res) => {
+    const phone = String(req.query.phone ?? '');
+    if (!phone) {
+      res.status(400).json({ error: 'phone is required' });
+      return;
+    }
+    const reservations = state.bookings
+      .filter(b => b.phone === phone)
+      .sort((a, b) => a.dateTime.localeCompare(b.dateTime))
+      .map(rawBooking);
+    res.json({ reservations });
+  });
+
+  app.post('/v1/reservations/:confirmationNumber/cancel', (req, res) => {
+    const phone = String((req.body as { phone?: string } | undefined)?.phone ?? '');
+    if (!phone) {
+      res.status(400).json({ error: 'phone is required' });
+      return;
+    }
+    // Someone else's booking looks the same as a missing one
+    const booking = state.bookings.find(b => b.confirmationNumber === req.params.confirmationNumber && b.phone === phone);
+    if (!booking) {
+      res.status(404).json({ error: 'reservation_not_found' });
+      return;
+    }
+    if (booking.cancelledAt) {
+      res.status(409).json({ error: 'already_cancelled' });
+      return;
+    }
+    booking.cancelledAt = new Date().toISOString();
+    console.log(`[mock-opentable] Cancelled ${booking.confirmationNumber}`);
+    res.json(rawBooking(booking));
+  });
+
+  app.use((req, res) => {
+    res.status(404).json({ error: `Mock OpenTable has no route for ${req.method} ${req.path}` });
+  });
+
+  return app;
+}
@@ -0,0 +1,102 @@
+// Fixture data for the local Resy stand-in. Shapes mirror the raw payloads
+// bookings/client.ts reads, not our mapped types.
+
+export const MOCK_AUTH_TOKEN = 'mock-resy-token';
+export const MOCK_OTP_CODE = '123456';
+// Send this as the auth token to exercise the expired-session path
+export const MOCK_EXPIRED_TOKEN = 'expired';
+
+export interface MockVenue {
+  id: number;
+  name: string;
+  slug: string;
+  city: string;
+  citySlug: string;
+  region: string;
+  neighborhood: string;
+  address: string;
+  postalCode: string;
+  lat: number;
+  lng: number;
+  timeZone: string;
+  cuisine: string[];
+  priceRange: number;
+  rating: number;
+  seatingTypes: string[];
+  description: string;
+  soldOut?: boolean;       // never has tables
+  depositFee?: number;     // charged on booking
+  cancellationFee?: number;
+}
+
+export const MOCK_VENUES: MockVenue[] = [
+  {
+    id: 1001, name: 'Lilia', slug: 'lilia', city: 'New York', citySlug: 'new-york-ny', region: 'NY',
+    neighborhood: 'Williamsburg', address: '567 Union Ave', postalCode: '11211',
+    lat: 40.7175, lng: -73.9522, timeZone: 'America/New_York',
+    cuisine: ['Italian'], priceRange: 3, rating: 4.8, seatingTypes: ['Dining Room', 'Bar'],
+    description: 'Wood-fired Italian in a converted auto-body shop.',
+  },
+  {
+    id: 1002, name: 'Soothr', slug: 'soothr', city: 'New York', citySlug: 'new-york-ny', region: 'NY',
+    neighborhood: 'East Village', address: '204 E 13th St', postalCode: '10003',
+    lat: 40.7326, lng: -73.9877, timeZone: 'America/New_York',
+    cuisine: ['Thai'], priceRange: 2, rating: 4.6, seatingTypes: ['Dining Room', 'Outdoor Patio'],
+    description: 'Bangkok-style noodles and grilled meats.',
+  },
+  {
+    id: 1003, name: 'Carbone', slug: 'carbone', city: 'New York', citySlug: 'new-york-ny', region: 'NY',
+    neighborhood: 'Greenwich Village', address: '181 Thompson St', postalCode: '10012',
+    lat: 40.7279, lng: -74.0001, timeZone: 'America/New_York',
+    cuisine: ['Italian'], priceRange: 4, rating: 4.7, seatingTypes: ['Dining Room'],
+    description: 'Red-sauce Italian-American. Always booked.', soldOut: true,
+  },
+  {
+    id: 1004, name: 'Le Bernardin', slug: 'le-bernardin', city: 'New York', citySlug: 'new-york-ny', region: 'NY',
+    neighborhood: 'Midtown', address: '155 W 51st St', postalCode: '10019',
+    lat: 40.7615, lng: -73.9818, timeZone: 'America/New_York',
+    cuisine: ['Seafood', 'French'], priceRange: 4, rating: 4.9, seatingTypes: ['Dining Room', 'Lounge'],
+    description: 'Seafood tasting menus.', depositFee: 100, cancellationFee: 100,
+  },
+  {
+    id: 2001, name: 'Kismet', slug: 'kismet', city: 'Los Angeles', citySlug: 'los-angeles-ca', region: 'CA',
+    neighborhood: 'Los Feliz', address: '4648 Hollywood Blvd', postalCode: '90027',
+    lat: 34.1017, lng: -118.2905, timeZone: 'America/Los_Angeles',
+    cuisine: ['Mediterranean'], priceRange: 2, rating: 4.5, seatingTypes: ['Dining Room', 'Patio'],
+    description: 'Bright Middle Eastern plates.',
+  },
+  {
+    id: 3001, name: 'Odd Duck', slug: 'odd-duck', city: 'Austin', citySlug: 'austin-tx', region: 'TX',
+    neighborhood: 'South Lamar', address: '1201 S Lamar Blvd', postalCode: '78704',
+    lat: 30.2545, lng: -97.7631, timeZone: 'America/Chicago',
+    cuisine: ['American'], priceRange: 2, rating: 4.6, seatingTypes: ['Dining Room', 'Bar'],
+    description: 'Farm-to-table small plates.',
+  },
+];
+
+export const MOCK_USER = {
+  first_name: 'Dev',
+  last_name: 'Diner',
+  em_address: 'dev@example.com',
+  mobile_number: '+15555550100',
+  date_created: '2021-03-14T12:00:00Z',
+  resy_select: false,
+  profile_image_url: null,
+  payment_methods: [
+    { id: 501, is_default: true, type: 'card', card_type: 'Visa', display: '4242', exp_month: 12, exp_year: 2030 },
+    { id: 502, is_default: false, type: 'card', card_type: 'Amex', display: '0005', exp_month: 6, exp_year: 2029 },
+  ],
+};
+
+export const MOCK_FAVORITE_IDS = [1002, 2001];
+
+/** Past reservations seeded into history (venue id, day, time, party). */
+export const MOCK_PAST_RESERVATIONS: Array<{ venueId: number; day: string; time: string; partySize: number; noShow?: boolean }> = [
+  { venueId: 1001, day: '2025-11-08', time: '19:30', partySize: 2 },
+  { venueId: 1002, day: '2026-01-17', time: '20:00', partySize: 4 },
+  { venueId: 1001, day: '2026-02-14', time: '21:00', partySize: 2 },
+  { venueId: 2001, day: '2026-04-02', time: '18:30', partySize: 2, noShow: true },
+];
+
+/** Bookable times each evening, before per-day gaps are knocked out. */
+export const SERVICE_TIMES = ['17:00', '17:30', '18:00', '18:30', '19:00', '19:30', '20:00', '20:30', '21:00', '21:30', '22:00'];
@@ -0,0 +1,17 @@
+/**
+ * Local Resy stand-in for development.
+ *
+ * Usage: npm run mock:resy → http://localhost:3100
+ * Then run the agent with RESY_BASE_URL=http://localhost:3100 and
+ * RESY_AUTH_TOKEN=mock-resy-token (or sign in with any number and code 123456).
+ */
+
+import { createMockResyApp } from './server.js';
+import { MOCK_AUTH_TOKEN, MOCK_OTP_CODE } from './fixtures.js';
+
+const PORT = Number(process.env.MOCK_RESY_PORT) || 3100;
+
+createMockResyApp().listen(PORT, () => {
+  console.log(`[mock-resy] Listening on http://localhost:${PORT}`);
+  console.log(`[mock-resy] Auth token: ${MOCK_AUTH_TOKEN} — OTP code: ${MOCK_OTP_CODE}`);
+});
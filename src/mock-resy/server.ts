@@ -0,0 +1,396 @@
+/**
+ * Local Resy stand-in. Serves the endpoints bookings/client.ts calls, backed
+ * by fixtures and in-memory state, so conversations and book/cancel flows can
+ * run offline. Point the agent at it with RESY_BASE_URL.
+ */
+
+import express from 'express';
+import type { Request, Response, NextFunction } from 'express';
+import {
+  MOCK_AUTH_TOKEN, MOCK_OTP_CODE, MOCK_EXPIRED_TOKEN, MOCK_VENUES, MOCK_USER,
+  MOCK_FAVORITE_IDS, MOCK_PAST_RESERVATIONS, SERVICE_TIMES,
+} from './fixtures.js';
+import type { MockVenue } from './fixtures.js';
+
+interface MockReservation {
+  resyToken: string;
+  reservationId: number;
+  venueId: number;
+  day: string;
+  time: string;
+  partySize: number;
+  type: string;
+  occasion?: string;
+  specialRequest?: string;
+  cancelledAt?: string;
+  noShow?: boolean;
+}
+
+interface SlotRef {
+  venueId: number;
+  day: string;
+  time: string;
+  type: string;
+  partySize: number;
+}
+
+export interface MockResyState {
+  reservations: MockReservation[];
+  favorites: Set<number>;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+
+function venueById(id: number): MockVenue | undefined {
+  return MOCK_VENUES.find(v => v.id === id);
+}
+
+// Small stable hash so the same venue/day always has the same gaps
+function hash(text: string): number {
+  let h = 0;
+  for (const ch of text) h = (h * 31 + ch.charCodeAt(0)) | 0;
+  return Math.abs(h);
+}
+
+function slotKey(ref: Omit<SlotRef, 'partySize'>): string {
+  return `${ref.venueId}|${ref.day}|${ref.time}|${ref.type}`;
+}
+
+function encodeToken(ref: SlotRef): string {
+  return Buffer.from(JSON.stringify(ref)).toString('base64url');
+}
+
+function decodeToken(token: string): SlotRef | null {
+  try {
+    return JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as SlotRef;
+  } catch {
+    return null;
+  }
+}
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+function rawLocation(venue: MockVenue) {
+  return { locality: venue.city, region: venue.region, neighborhood: venue.neighborhood, url_slug: venue.citySlug };
+}
+
+function rawHit(venue: MockVenue) {
+  return {
+    id: { resy: venue.id }, name: venue.name, url_slug: venue.slug, location: rawLocation(venue),
+    cuisine: venue.cuisine, price_range: venue.priceRange, rating: venue.rating,
+  };
+}
+
+function distance(venue: MockVenue, lat: number, lng: number): number {
+  return Math.hypot(venue.lat - lat, venue.lng - lng);
+}
+
+export function createMockResyState(): MockResyState {
+  const reservations = MOCK_PAST_RESERVATIONS.map((past, i): MockReservation => ({
+    resyToken: `mock-rr-past-${i + 1}`,
+    reservationId: 9000 + i,
+    venueId: past.venueId,
+    day: past.day,
+    time: past.time,
+    partySize: past.partySize,
+    type: venueById(past.venueId)?.seatingTypes[0] ?? 'Dining Room',
+    noShow: past.noShow,
+  }));
+  return { reservations, favorites: new Set(MOCK_FAVORITE_IDS) };
+}
+
+/**
+ * Open slots for a venue on a day: every service time and seating type, minus
+ * a deterministic set of gaps and anything already booked.
+ */
+export function openSlots(state: MockResyState, venue: MockVenue, day: string, partySize: number): SlotRef[] {
+  if (venue.soldOut || partySize > 8) return [];
+  const held = new Set(state.reservations.filter(r => !r.cancelledAt).map(r => slotKey(r)));
+  return SERVICE_TIMES.flatMap(time => venue.seatingTypes.map(type => ({ venueId: venue.id, day, time, type, partySize })))
+    .filter(ref => hash(`${slotKey(ref)}|${partySize}`) % 3 !== 0)
+    .filter(ref => !held.has(slotKey(ref)));
+}
+
+function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  const token = req.header('x-resy-auth-token');
+  if (!token) {
+    res.status(401).send('Missing x-resy-auth-token');
+    return;
+  }
+  if (token === MOCK_EXPIRED_TOKEN) {
+    res.status(419).send('Unauthorized');
+    return;
+  }
+  next();
+}
+
+export function createMockResyApp(state: MockResyState = createMockResyState()): express.Express {
+  const app = express();
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+  app.use((req, _res, next) => {
+    console.log(`[mock-resy] ${req.method} ${req.path}`);
+    next();
+  });
+
+  // ── Mobile OTP auth ─────────────────────────────────────────────────────────
+
+  app.post('/3/auth/mobile', (req, res) => {
+    const { mobile_number: mobile, code } = req.body as { mobile_number?: string; code?: string };
+    if (!mobile) {
+      res.status(400).send('mobile_number required');
+      return;
+    }
+    if (code === undefined) {
+      res.json({ sent: true });
+      return;
+    }
+    if (code !== MOCK_OTP_CODE) {
+      res.status(400).send('Invalid code');
+      return;
+    }
+    res.json({
+      mobile_claim: { claim_token: `mock-claim-${mobile}` },
+      challenge: {
+        challenge_id: 'mock-challenge',
+        first_name: MOCK_USER.first_name,
+        properties: [{ name: 'em_address', type: 'email', message: 'Email address' }],
+      },
+    });
+  });
+
+  app.post('/3/auth/challenge', (req, res) => {
+    const { claim_token: claim, em_address: email } = req.body as Record<string, string | undefined>;
+    if (!claim?.startsWith('mock-claim-') || !email) {
+      res.status(400).send('Challenge failed');
+      return;
+    }
+    res.json({ token: MOCK_AUTH_TOKEN });
+  });
+
+  app.post('/3/auth/mobile/claim', (req, res) => {
+    const { claim_token: claim } = req.body as Record<string, string | undefined>;
+    if (!claim?.startsWith('mock-claim-')) {
+      res.status(400).send('Invalid claim token');
+      return;
+    }
+    res.json({ token: MOCK_AUTH_TOKEN });
+  });
+
+  // ── Venues and availability ─────────────────────────────────────────────────
+
+  app.post('/3/venuesearch/search', requireAuth, (req, res) => {
+    const body = req.body as {
+      query?: string;
+      geo?: { latitude?: number; longitude?: number };
+      per_page?: number;
+      slot_filter?: { day?: string; party_size?: number };
+    };
+    const query = (body.query ?? '').trim().toLowerCase();
+    const lat = body.geo?.latitude ?? 40.7128;
+    const lng = body.geo?.longitude ?? -73.9876;
+    const filter = body.slot_filter;
+
+    const hits = MOCK_VENUES
+      .filter(v => !query || [v.name, v.neighborhood, v.city, ...v.cuisine].some(text => text.toLowerCase().includes(query)))
+      .filter(v => !filter?.day || openSlots(state, v, filter.day, filter.party_size ?? 2).length > 0)
+      .sort((a, b) => distance(a, lat, lng) - distance(b, lat, lng))
+      .slice(0, body.per_page ?? DEFAULT_PAGE_SIZE)
+      .map(rawHit);
+    res.json({ search: { hits } });
+  });
+
+  app.get('/3/venue', requireAuth, (req, res) => {
+    const venue = venueById(Number(req.query.id));
+    if (!venue) {
+      res.status(404).send('Venue not found');
+      return;
+    }
+    res.json({
+      id: { resy: venue.id },
+      name: venue.name,
+      url_slug: venue.slug,
+      type: 'Restaurant',
+      cuisine: venue.cuisine,
+      price_range_id: venue.priceRange,
+      rating: { average: venue.rating },
+      tagline: venue.description,
+      contact: { phone_number: '+1 555 555 0199', url: `https://example.com/${venue.slug}` },
+      location: {
+        ...rawLocation(venue),
+        address_1: venue.address,
+        postal_code: venue.postalCode,
+        latitude: venue.lat,
+        longitude: venue.lng,
+        time_zone: venue.timeZone,
+      },
+      content: [{ name: 'about', title: 'About', body: venue.description }],
+      templates: Object.fromEntries(venue.seatingTypes.map((type, i) => [`t${i}`, { name: type }])),
+      cancellation_policy: venue.cancellationFee
+        ? `Cancel at least 24 hours ahead to avoid a $${venue.cancellationFee} fee.`
+        : 'Cancel any time before your reservation.',
+      deposit_policy: venue.depositFee ? `A $${venue.depositFee} deposit is charged when booking.` : undefined,
+    });
+  });
+
+  app.get('/4/find', requireAuth, (req, res) => {
+    const venue = venueById(Number(req.query.venue_id));
+    const day = String(req.query.day ?? '');
+    const partySize = Number(req.query.party_size ?? 2);
+    if (!venue || !day) {
+      res.json({ results: { venues: [] } });
+      return;
+    }
+    const slots = openSlots(state, venue, day, partySize).map(ref => ({
+      config: { token: encodeToken(ref), type: ref.type },
+      date: { start: `${day} ${ref.time}:00`, end: `${day} ${ref.time}:00` },
+    }));
+    res.json({ results: { venues: [{ venue: { location: { time_zone: venue.timeZone } }, slots }] } });
+  });
+
+  app.get('/3/details', requireAuth, (req, res) => {
+    const ref = decodeToken(String(req.query.config_id ?? ''));
+    const venue = ref && venueById(ref.venueId);
+    if (!ref || !venue) {
+      res.status(404).send('Config not found');
+      return;
+    }
+    res.json({
+      book_token: { value: encodeToken({ ...ref, partySize: Number(req.query.party_size ?? ref.partySize) }), date_expires: new Date(Date.now() + 5 * 60_000).toISOString() },
+      venue: { name: venue.name, venue_url_slug: venue.slug, location: { url_slug: venue.citySlug } },
+      config: { type: ref.type },
+      cancellation: {
+        fee: venue.cancellationFee ? { amount: venue.cancellationFee, date_cut_off: `${ref.day}T${ref.time}:00` } : null,
+        display: { policy: venue.cancellationFee ? [`$${venue.cancellationFee} fee if cancelled within 24 hours.`] : [] },
+      },
+      payment: {
+        deposit_fee: venue.depositFee ?? null,
+        config: { type: venue.depositFee ? 'deposit' : 'free' },
+        display: { description: venue.depositFee ? [`$${venue.depositFee} deposit charged at booking.`] : [] },
+      },
+    });
+  });
+
+  // ── Booking ─────────────────────────────────────────────────────────────────
+
+  app.post('/3/book', requireAuth, (req, res) => {
+    const body = req.body as Record<string, string | undefined>;
+    const ref = body.book_token ? decodeToken(body.book_token) : null;
+    if (!ref || !venueById(ref.venueId)) {
+      res.status(400).send('Invalid book_token');
+      return;
+    }
+    let paymentId: number | undefined;
+    try {
+      paymentId = (JSON.parse(body.struct_payment_method ?? '{}') as { id?: number }).id;
+    } catch { /* handled below */ }
+    if (!MOCK_USER.payment_methods.some(pm => pm.id === paymentId)) {
+      res.status(400).send('Invalid payment method');
+      return;
+    }
+    const stillOpen = openSlots(state, venueById(ref.venueId)!, ref.day, ref.partySize)
+      .some(s => slotKey(s) === slotKey(ref));
+    if (!stillOpen) {
+      res.status(412).send('This slot is no longer available');
+      return;
+    }
+
+    const reservationId = 10_000 + state.reservations.length;
+    const reservation: MockReservation = {
+      resyToken: `mock-rr-${reservationId}`,
+      reservationId,
+      ...ref,
+      occasion: body.occasion,
+      specialRequest: body.special_request,
+    };
+    state.reservations.push(reservation);
+    console.log(`[mock-resy] Booked ${reservation.resyToken}: venue ${ref.venueId} ${ref.day} ${ref.time} for ${ref.partySize}`);
+    res.status(201).json({
+      resy_token: reservation.resyToken,
+      reservation_id: reservationId,
+      date: ref.day,
+      time_slot: ref.time,
+      num_seats: ref.partySize,
+    });
+  });
+
+  app.post('/3/cancel', requireAuth, (req, res) => {
+    const token = (req.body as { resy_token?: string }).resy_token;
+    const reservation = state.reservations.find(r => r.resyToken === token);
+    if (!reservation) {
+      res.status(404).send('Reservation not found');
+      return;
+    }
+    if (reservation.cancelledAt) {
+      res.status(400).send('Reservation already cancelled');
+      return;
+    }
+    reservation.cancelledAt = new Date().toISOString();
+    console.log(`[mock-resy] Cancelled ${reservation.resyToken}`);
+    res.json({ payment: { transaction: { refund: 1 } } });
+  });
+
+  // ── User ────────────────────────────────────────────────────────────────────
+
+  app.get('/3/user/reservations', requireAuth, (req, res) => {
+    const type = req.query.type === 'past' ? 'past' : 'upcoming';
+    const limit = Number(req.query.limit ?? DEFAULT_PAGE_SIZE);
+    const offset = Number(req.query.offset ?? 0);
+    const now = today();
+
+    const matching = state.reservations
+      .filter(r => type === 'upcoming' ? !r.cancelledAt && r.day >= now : r.cancelledAt || r.day < now)
+      .sort((a, b) => type === 'upcoming'
+        ? `${a.day} ${a.time}`.localeCompare(`${b.day} ${b.time}`)
+        : `${b.day} ${b.time}`.localeCompare(`${a.day} ${a.time}`));
+    const page = matching.slice(offset, offset + limit);
+
+    res.json({
+      reservations: page.map(r => ({
+        resy_token: r.resyToken,
+        reservation_id: r.reservationId,
+        venue: { id: { resy: r.venueId } },
+        day: r.day,
+        time_slot: r.time,
+        num_seats: r.partySize,
+        config: { type: r.type },
+        occasion: r.occasion ?? null,
+        special_request: r.specialRequest ?? null,
+        status: type === 'past' ? { finished: r.cancelledAt || r.noShow ? 0 : 1, no_show: r.noShow ? 1 : 0 } : undefined,
+        cancellation: r.cancelledAt ? { date_cancelled: r.cancelledAt } : null,
+      })),
+      venues: Object.fromEntries(page.map(r => [r.venueId, { name: venueById(r.venueId)?.name }])),
+      metadata: { total: matching.length },
+    });
+  });
+
+  app.get('/2/user', requireAuth, (_req, res) => {
+    res.json({ ...MOCK_USER, num_bookings: state.reservations.length });
+  });
+
+  app.get('/3/user/favorites', requireAuth, (_req, res) => {
+    const venues = MOCK_VENUES.filter(v => state.favorites.has(v.id)).map(v => ({
+      ...rawHit(v), price_range_id: v.priceRange,
+    }));
+    res.json({ results: { venues } });
+  });
+
+  app.post('/3/user/favorites', requireAuth, (req, res) => {
+    const { venue_id: venueId, favorite } = req.body as { venue_id?: string; favorite?: string };
+    if (!venueById(Number(venueId))) {
+      res.status(404).send('Venue not found');
+      return;
+    }
+    if (favorite === '1') state.favorites.add(Number(venueId));
+    else state.favorites.delete(Number(venueId));
+    res.json({});
+  });
+
+  app.use((req, res) => {
+    res.status(404).send(`Mock Resy has no route for ${req.method} ${req.path}`);
+  });
+
+  return app;
+}
@@ -0,0 +1,54 @@
+/**
+ * Watches that auto-book and release snipes book with nobody watching, so they
+ * get the same two steps as a booking: the tool parks the request, and only a
+ * later user turn can start the job.
+ */
+
+import { createWatch } from '../watches/index.js';
+import type { AvailabilityWatch } from '../watches/index.js';
+import { createSnipe } from '../snipes/index.js';
+import type { ReservationSnipe } from '../snipes/index.js';
+import { getPendingAlert, claimPendingAlert } from './db.js';
+import type { PendingAlert } from './types.js';
+
+export type ConfirmedAlert =
+  | { kind: 'watch'; watch: AvailabilityWatch }
+  | { kind: 'snipe'; snipe: ReservationSnipe };
+
+/**
+ * Start a parked watch or snipe. Rejects if it is unknown, expired, belongs to
+ * someone else, was set up in this same turn, or isn't the expected kind.
+ */
+export async function confirmAlert<K extends PendingAlert['kind']>(
+  handle: string,
+  id: string,
+  turnId: string,
+  kind: K,
+): Promise<Extract<ConfirmedAlert, { kind: K }>> {
+  const prepared = await getPendingAlert(handle, id);
+  if (!prepared) {
+    throw new Error(`No pending watch or snipe "${id}" for this user — it may have expired. Set it up again.`);
+  }
+  if (prepared.kind !== kind) {
+    throw new Error(`"${id}" is a ${prepared.kind}. Confirm it with resy_${prepared.kind}.`);
+  }
+  if (prepared.preparedInTurn === turnId) {
+    throw new Error('This was set up in the current turn. Ask the user to confirm and wait for their reply before confirming.');
+  }
+
+  // Single use — a retried confirm must never start two jobs, so only the
+  // confirm that claims the item goes on
+  const pending = await claimPendingAlert(handle, id);
+  if (!pending) {
+    throw new Error(`Pending ${kind} "${id}" was already confirmed or has expired. List them with resy_${kind} before setting it up again.`);
+  }
+
+  if (pending.kind === 'watch') {
+    return { kind: 'watch', watch: await createWatch(pending.watch!) } as Extract<ConfirmedAlert, { kind: K }>;
+  }
+  const snipe = pending.snipe!;
+  if (new Date(snipe.releaseAt).getTime() <= Date.now()) {
+    throw new Error(`Tables for ${snipe.date} were released at ${snipe.releaseAt}, before this was confirmed. Check availability or set up a watch instead.`);
+  }
+  return { kind: 'snipe', snipe: await createSnipe(snipe) } as Extract<ConfirmedAlert, { kind: K }>;
+}
@@ -0,0 +1,81 @@
+import crypto from 'node:crypto';
+import type { PendingBooking, NewPendingBooking, PendingAlert, NewPendingAlert } from './types.js';
+import { getItem, putItem, deleteItem, takeItem } from '../db/dynamodb.js';
+import { redactPhone } from '../utils/redact.js';
+
+const USER_PK = (handle: string) => `USER#${handle}`;
+const PENDING_SK = (id: string) => `PENDING_BOOKING#${id}`;
+const PENDING_ALERT_SK = (id: string) => `PENDING_ALERT#${id}`;
+
+// Long enough to ask "want me to book it?" and get an answer, short enough
+// that a stale slot can't be confirmed hours later
+export const PENDING_BOOKING_TTL_S = 15 * 60;
+
+export async function createPendingBooking(data: NewPendingBooking): Promise<PendingBooking> {
+  const now = new Date();
+  const pending: PendingBooking = {
+    ...data,
+    id: crypto.randomBytes(4).toString('hex'),
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + PENDING_BOOKING_TTL_S * 1000).toISOString(),
+  };
+  await putItem(USER_PK(pending.handle), PENDING_SK(pending.id), pending as unknown as Record<string, unknown>, PENDING_BOOKING_TTL_S);
+  console.log(`[pending] Prepared ${pending.kind} ${pending.id} for ${redactPhone(pending.handle)}: venue ${pending.venueId} ${pending.date} ${pending.time}`);
+  return pending;
+}
+
+/**
+ * Fetch a user's pending booking. Returns null if missing or past its expiry
+ * (DynamoDB TTL deletes lazily, so expiry is checked here too).
+ */
+export async function getPendingBooking(handle: string, id: string): Promise<PendingBooking | null> {
+  const pending = await getItem<PendingBooking>(USER_PK(handle), PENDING_SK(id));
+  if (!pending || new Date(pending.expiresAt).getTime() <= Date.now()) return null;
+  return pending;
+}
+
+export async function deletePendingBooking(handle: string, id: string): Promise<void> {
+  await deleteItem(USER_PK(handle), PENDING_SK(id));
+}
+
+/**
+ * Atomically remove a pending booking for the caller about to act on it.
+ * Returns null when another confirm got there first or it has expired.
+ */
+export async function claimPendingBooking(handle: string, id: string): Promise<PendingBooking | null> {
+  const pending = await takeItem<PendingBooking>(USER_PK(handle), PENDING_SK(id));
+  if (!pending || new Date(pending.expiresAt).getTime() <= Date.now()) return null;
+  return pending;
+}
+
+/** Park an auto-booking watch or snipe until the user confirms. Same lifetime as a pending booking. */
+export async function createPendingAlert(data: NewPendingAlert): Promise<PendingAlert> {
+  const now = new Date();
+  const pending: PendingAlert = {
+    ...data,
+    id: crypto.randomBytes(4).toString('hex'),
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + PENDING_BOOKING_TTL_S * 1000).toISOString(),
+  };
+  await putItem(USER_PK(pending.handle), PENDING_ALERT_SK(pending.id), pending as unknown as Record<string, unknown>, PENDING_BOOKING_TTL_S);
+  const job = pending.watch ?? pending.snipe;
+  console.log(`[pending] Prepared ${pending.kind} ${pending.id} for ${redactPhone(pending.handle)}: venue ${job?.venueId} ${job?.date}`);
+  return pending;
+}
+
+export async function getPendingAlert(handle: string, id: string): Promise<PendingAlert | null> {
+  const pending = await getItem<PendingAlert>(USER_PK(handle), PENDING_ALERT_SK(id));
+  if (!pending || new Date(pending.expiresAt).getTime() <= Date.now()) return null;
+  return pending;
+}
+
+export async function deletePendingAlert(handle: string, id: string): Promise<void> {
+  await deleteItem(USER_PK(handle), PENDING_ALERT_SK(id));
+}
+
+/** claimPendingBooking for a parked watch or snipe. */
+export async function claimPendingAlert(handle: string, id: string): Promise<PendingAlert | null> {
+  const pending = await takeItem<PendingAlert>(USER_PK(handle), PENDING_ALERT_SK(id));
+  if (!pending || new Date(pending.expiresAt).getTime() <= Date.now()) return null;
+  return pending;
+}
@@ -0,0 +1,203 @@
+/**
+ * Two-step booking: prepare resolves an exact slot and parks it; confirm books
+ * it, but only from a later user turn than the one that prepared it. This is
+ * what stops a single model turn from placing a reservation on its own.
+ */
+
+import { pickClosestSlot, feesWithin, describeTerms } from '../bookings/index.js';
+import type { ResyModificationResult, SeatingPreference } from '../bookings/index.js';
+import type { BookingConfirmation, BookingNotes, BookingTerms, ProviderId, ProviderSet, ReservationProvider, TimeSlot } from '../providers/index.js';
+import { recordLedgerEntry, bookingEntry } from '../ledger/index.js';
+import type { LedgerOrigin } from '../ledger/index.js';
+import { createPendingBooking, getPendingBooking, claimPendingBooking } from './db.js';
+import type { PendingBooking } from './types.js';
+
+export interface PrepareBookingRequest {
+  handle: string;
+  chatId: string;
+  turnId: string;
+  provider?: ProviderId;      // defaults to Resy
+  venueId?: number;           // required for a new booking
+  venueName?: string;
+  date?: string;              // modify: defaults to the original's
+  time?: string;              // new booking: closest slot wins; modify: must be exact
+  partySize?: number;
+  seating?: SeatingPreference; // ranked; throws SeatingUnavailableError if only other seating is open
+  paymentMethodId?: number;
+  notes?: BookingNotes;
+  replacesResyToken?: string; // set to move an existing reservation
+}
+
+/**
+ * Thrown instead of booking when the slot's fees went up after the user
+ * agreed to them. Carries the new terms so they can be shown.
+ */
+export class TermsChangedError extends Error {
+  constructor(public readonly agreedTerms: BookingTerms, public readonly terms: BookingTerms) {
+    super(`Not booked: the fees changed since the user agreed to them (was ${describeTerms(agreedTerms)}, now ${describeTerms(terms)}). Show the user the new terms and prepare the booking again if they still want it.`);
+    this.name = 'TermsChangedError';
+  }
+}
+
+export type ConfirmedBooking =
+  | { kind: 'book'; confirmation: BookingConfirmation }
+  | { kind: 'modify'; result: ResyModificationResult };
+
+async function resolveNewBooking(provider: ReservationProvider, req: PrepareBookingRequest) {
+  if (!req.venueId || !req.date || !req.partySize) {
+    throw new Error('A new booking needs venue_id, date and party_size.');
+  }
+  const slots = await provider.findSlots(req.venueId, req.date, req.partySize);
+  if (slots.length === 0) {
+    throw new Error(`No available slots for ${req.partySize} on ${req.date}. The restaurant may be fully booked.`);
+  }
+  return { slot: pickClosestSlot(slots, req.time, req.seating), venueId: req.venueId, venueName: req.venueName };
+}
+
+async function resolveModification(provider: ReservationProvider, req: PrepareBookingRequest & { replacesResyToken: string }) {
+  if (!provider.modify) {
+    throw new Error(`${provider.name} reservations can't be moved automatically. Cancel it and book the new time instead.`);
+  }
+  const original = (await provider.listReservations()).find(r => r.reservation_token === req.replacesResyToken);
+  if (!original) {
+    throw new Error('Could not find that reservation among your upcoming bookings.');
+  }
+  if (!original.venue_id) {
+    throw new Error(`${provider.name} didn't return a venue ID for your ${original.venue_name} reservation, so it can't be moved automatically.`);
+  }
+
+  const date = req.date || original.date;
+  const time = (req.time || original.time).slice(0, 5);
+  const partySize = req.partySize || original.party_size;
+  if (date === original.date && time === original.time.slice(0, 5) && partySize === original.party_size) {
+    throw new Error('That is the same date, time and party size as the existing reservation.');
+  }
+
+  const slots = await provider.findSlots(original.venue_id, date, partySize);
+  const atTime = slots.filter(s => s.time === time);
+  if (atTime.length === 0) {
+    const nearby = slots.map(s => s.time).slice(0, 6).join(', ');
+    throw new Error(`No ${time} slot for ${partySize} on ${date}.${nearby ? ` Open times: ${nearby}.` : ' Nothing is open that day.'}`);
+  }
+  return { slot: pickClosestSlot(atTime, time, req.seating), venueId: original.venue_id, venueName: original.venue_name };
+}
+
+/**
+ * Resolve the exact slot (and its fee terms) and store it for confirmation.
+ * Nothing is booked or cancelled here.
+ */
+export async function prepareBooking(providers: ProviderSet, req: PrepareBookingRequest): Promise<PendingBooking> {
+  const provider = providers.get(req.provider);
+  const { slot, venueId, venueName } = req.replacesResyToken
+    ? await resolveModification(provider, { ...req, replacesResyToken: req.replacesResyToken })
+    : await resolveNewBooking(provider, req);
+
+  const terms = await provider.getBookingTerms(slot);
+
+  return createPendingBooking({
+    handle: req.handle,
+    chatId: req.chatId,
+    kind: req.replacesResyToken ? 'modify' : 'book',
+    provider: provider.id,
+    venueId,
+    venueName,
+    date: slot.date,
+    time: slot.time,
+    partySize: slot.party_size,
+    seatingType: slot.type,
+    terms,
+    paymentMethodId: req.paymentMethodId,
+    notes: req.notes,
+    replacesResyToken: req.replacesResyToken,
+    preparedInTurn: req.turnId,
+  });
+}
+
+// Same time AND same seating — never silently swap the dining room for the bar
+function findPreparedSlot(slots: TimeSlot[], pending: PendingBooking): TimeSlot | undefined {
+  return slots.find(s => s.time === pending.time && s.type.toLowerCase() === pending.seatingType.toLowerCase());
+}
+
+/**
+ * Ledger the net effect of a move: the new booking, and the original's
+ * cancellation once it's gone. Rolled back or unchanged moves left nothing new.
+ */
+async function recordModification(origin: LedgerOrigin, pending: PendingBooking, result: ResyModificationResult): Promise<void> {
+  const { original, new_booking: booked } = result;
+  if (!booked) return;
+  await recordLedgerEntry(bookingEntry(origin, { ...booked, provider: pending.provider, reservation_token: booked.resy_token }, {
+    venueId: pending.venueId,
+    paymentMethodId: pending.paymentMethodId,
+    replacesToken: original.resy_token,
+  }));
+  if (result.status !== 'modified') return;
+  await recordLedgerEntry({
+    ...origin,
+    action: 'cancel',
+    provider: pending.provider,
+    reservationToken: original.resy_token,
+    venueId: original.venue_id,
+    venueName: original.venue_name,
+    date: original.date,
+    time: original.time.slice(0, 5),
+    partySize: original.party_size,
+    seatingType: original.type,
+  });
+}
+
+/**
+ * Book a prepared slot. Rejects if the pending booking is unknown, expired,
+ * belongs to someone else, or was prepared in this same turn, and throws
+ * TermsChangedError if its fees rose since the user agreed. Whatever gets
+ * booked or cancelled is written to the ledger against turnId.
+ */
+export async function confirmBooking(providers: ProviderSet, handle: string, id: string, turnId: string): Promise<ConfirmedBooking> {
+  const prepared = await getPendingBooking(handle, id);
+  if (!prepared) {
+    throw new Error(`No pending booking "${id}" for this user — it may have expired. Prepare it again.`);
+  }
+  if (prepared.preparedInTurn === turnId) {
+    throw new Error('This booking was prepared in the current turn. Ask the user to confirm and wait for their reply before confirming.');
+  }
+
+  const provider = providers.get(prepared.provider);
+
+  // Single use — a retried confirm must never book twice. Only the confirm
+  // that claims the item goes on; one racing it (another chat, a redelivery)
+  // finds it gone
+  const pending = await claimPendingBooking(handle, id);
+  if (!pending) {
+    throw new Error(`Pending booking "${id}" was already confirmed or has expired. Check resy_reservations before preparing it again.`);
+  }
+
+  // The user agreed to the terms they were shown. Re-read them for the exact
+  // slot and refuse if anything costs more now; the ceiling goes to the
+  // provider too, so a rise during the booking itself is still caught
+  const slot = findPreparedSlot(await provider.findSlots(pending.venueId, pending.date, pending.partySize), pending);
+  if (!slot) {
+    throw new Error(`The ${pending.time} ${pending.seatingType} table on ${pending.date} is no longer available.`);
+  }
+  const terms = await provider.getBookingTerms(slot);
+  if (!feesWithin(terms, pending.terms)) {
+    console.log(`[pending] Fees on ${id} rose since prepare (${describeTerms(terms)}) — not booking`);
+    throw new TermsChangedError(pending.terms, terms);
+  }
+  const options = { paymentMethodId: pending.paymentMethodId, maxFees: pending.terms, notes: pending.notes };
+  const origin: LedgerOrigin = { handle, chatId: pending.chatId, source: 'chat', sourceId: turnId };
+
+  if (pending.kind === 'modify') {
+    if (!provider.modify) throw new Error(`${provider.name} reservations can't be moved automatically.`);
+    const result = await provider.modify(pending.replacesResyToken!, {
+      day: pending.date,
+      time: pending.time,
+      partySize: pending.partySize,
+      seatingType: pending.seatingType,
+    }, options);
+    await recordModification(origin, pending, result);
+    return { kind: 'modify', result };
+  }
+
+  const confirmation = await provider.book(slot, options);
+  await recordLedgerEntry(bookingEntry(origin, confirmation, { venueId: pending.venueId, paymentMethodId: pending.paymentMethodId }));
+  return { kind: 'book', confirmation };
+}
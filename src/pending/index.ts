@@ -0,0 +1,6 @@
+export type { PendingBooking, NewPendingBooking, PendingBookingKind, PendingAlert, NewPendingAlert, PendingAlertKind } from './types.js';
+export { createPendingBooking, getPendingBooking, deletePendingBooking, claimPendingBooking, createPendingAlert, getPendingAlert, deletePendingAlert, claimPendingAlert, PENDING_BOOKING_TTL_S } from './db.js';
+export { prepareBooking, confirmBooking, TermsChangedError } from './flow.js';
+export type { PrepareBookingRequest, ConfirmedBooking } from './flow.js';
+export { confirmAlert } from './alerts.js';
+export type { ConfirmedAlert } from './alerts.js';
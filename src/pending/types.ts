@@ -0,0 +1,53 @@
+import type { BookingTerms, BookingNotes, ProviderId } from '../providers/types.js';
+import type { NewAvailabilityWatch } from '../watches/index.js';
+import type { NewReservationSnipe } from '../snipes/index.js';
+
+export type PendingBookingKind = 'book' | 'modify';
+
+/**
+ * A resolved slot the user has been asked to confirm. Created by
+ * resy_prepare_booking, consumed by resy_confirm_booking on a later turn.
+ */
+export interface PendingBooking {
+  id: string;
+  handle: string;             // only this user can confirm it
+  chatId: string;
+  kind: PendingBookingKind;
+  provider: ProviderId;       // which platform to book on
+  venueId: number;
+  venueName?: string;
+  date: string;               // YYYY-MM-DD
+  time: string;               // HH:MM — the exact slot, not a preference
+  partySize: number;
+  seatingType: string;
+  terms: BookingTerms;        // what the user is agreeing to
+  paymentMethodId?: number;
+  notes?: BookingNotes;       // unset on a move = keep the original's notes
+  replacesResyToken?: string; // modify: the reservation being moved (Resy only)
+  preparedInTurn: string;     // message id of the turn that prepared it
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type NewPendingBooking = Omit<PendingBooking, 'id' | 'createdAt' | 'expiresAt'>;
+
+export type PendingAlertKind = 'watch' | 'snipe';
+
+/**
+ * A job that would book on its own — an auto-booking watch or a snipe — that
+ * the user has been asked to confirm. Created by resy_watch / resy_snipe,
+ * started by their "confirm" action on a later turn.
+ */
+export interface PendingAlert {
+  id: string;
+  handle: string;               // only this user can confirm it
+  chatId: string;
+  kind: PendingAlertKind;
+  watch?: NewAvailabilityWatch; // kind 'watch' — includes the fee limits the user agreed to
+  snipe?: NewReservationSnipe;  // kind 'snipe' — likewise
+  preparedInTurn: string;       // message id of the turn that set it up
+  createdAt: string;
+  expiresAt: string;
+}
+
+export type NewPendingAlert = Omit<PendingAlert, 'id' | 'createdAt' | 'expiresAt'>;
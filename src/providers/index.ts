@@ -0,0 +1,8 @@
+export type {
+  ProviderId, ReservationProvider, Venue, TimeSlot, BookingConfirmation, Reservation, CancellationResult,
+  BookingTerms, BookingNotes, ProviderBookingOptions, SlotSearchOptions, ReservationChanges, Diner,
+} from './types.js';
+export { createProviders, PROVIDER_IDS } from './registry.js';
+export type { ProviderSet, ProviderCredentials } from './registry.js';
+export { createResyProvider } from './resy.js';
+export { createOpenTableProvider, isOpenTableConfigured, OpenTableApiError } from './opentable.js';
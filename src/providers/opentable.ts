@@ -0,0 +1,277 @@
+/**
+ * OpenTable, over its partner REST API. Bookings are made in the diner's name
+ * and phone number rather than a stored account, so there is no sign-in —
+ * the provider is on whenever OPENTABLE_BASE_URL and OPENTABLE_API_KEY are set
+ * and the user has agreed to book that way.
+ */
+
+import { applySeatingPreference, filterSlots, hasFees, feesWithin, describeTerms, matchesVenueFilters } from '../bookings/index.js';
+import type { VenueFilters } from '../bookings/index.js';
+import type { GeoPoint } from '../geo/index.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import type { BookingTerms, Diner, ReservationProvider, Reservation, TimeSlot, Venue } from './types.js';
+
+const OPENTABLE_BASE_URL = process.env.OPENTABLE_BASE_URL || '';
+const OPENTABLE_API_KEY = process.env.OPENTABLE_API_KEY || '';
+const REQUEST_TIMEOUT_MS = 10_000;
+const SEARCH_LIMIT = 20;
+const MAX_AVAILABILITY_CHECKS = 10;
+const AVAILABILITY_CONCURRENCY = 3;
+
+// Same defaults as the Resy client
+const DEFAULT_LAT = 40.7128;
+const DEFAULT_LNG = -73.9876;
+
+export function isOpenTableConfigured(): boolean {
+  return !!(OPENTABLE_BASE_URL && OPENTABLE_API_KEY);
+}
+
+/**
+ * Non-2xx OpenTable response. The raw body is logged where it's thrown;
+ * message is safe to hand to Claude.
+ */
+export class OpenTableApiError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = 'OpenTableApiError';
+  }
+}
+
+function userMessageFor(status: number): string {
+  if (status === 404) return 'OpenTable couldnt find that restaurant or reservation.';
+  if (status === 409) return 'That OpenTable slot was just taken. Check availability again.';
+  if (status === 429) return 'OpenTable is rate-limiting requests right now. Wait a minute before trying again.';
+  return 'OpenTable returned an unexpected error. Try again, or try a different time or restaurant.';
+}
+
+async function openTableFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const res = await fetch(`${OPENTABLE_BASE_URL}${path}`, {
+    ...init,
+    headers: {
+      'authorization': `Bearer ${OPENTABLE_API_KEY}`,
+      'accept': 'application/json',
+      ...(init.body ? { 'content-type': 'application/json' } : {}),
+    },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    const body = await res.text();
+    console.error(`[opentable] ${init.method ?? 'GET'} ${path} failed: ${res.status} ${body}`);
+    throw new OpenTableApiError(res.status, userMessageFor(res.status));
+  }
+  return res;
+}
+
+// ── Raw payloads ────────────────────────────────────────────────────────────
+
+interface RawRestaurant {
+  rid: number;
+  name: string;
+  city: string;
+  state: string;
+  neighborhood?: string;
+  cuisines: string[];
+  price_band: number;
+  rating?: number;
+  profile_url: string;
+  timezone?: string;
+  policies?: { cancellation_fee?: number; cancellation_policy?: string };
+}
+
+interface RawSlot {
+  date_time: string; // venue-local, YYYY-MM-DDTHH:MM
+  area: string;
+  slot_hash: string;
+}
+
+interface RawReservation {
+  confirmation_number: string;
+  rid: number;
+  restaurant_name: string;
+  profile_url?: string;
+  date_time: string;
+  party_size: number;
+  area: string;
+  status: 'confirmed' | 'cancelled';
+  occasion?: string;
+  special_request?: string;
+}
+
+function toVenue(raw: RawRestaurant): Venue {
+  return {
+    provider: 'opentable',
+    venue_id: raw.rid,
+    name: raw.name,
+    location: { city: raw.city, state: raw.state, neighborhood: raw.neighborhood },
+    cuisine: raw.cuisines,
+    price_range: raw.price_band,
+    rating: raw.rating,
+    url: raw.profile_url,
+  };
+}
+
+function splitDateTime(dateTime: string): { date: string; time: string } {
+  return { date: dateTime.slice(0, 10), time: dateTime.slice(11, 16) };
+}
+
+function toReservation(raw: RawReservation): Reservation {
+  return {
+    provider: 'opentable',
+    reservation_token: raw.confirmation_number,
+    venue_id: raw.rid,
+    venue_name: raw.restaurant_name,
+    ...splitDateTime(raw.date_time),
+    party_size: raw.party_size,
+    type: raw.area,
+    occasion: raw.occasion,
+    special_request: raw.special_request,
+  };
+}
+
+// ── Provider ────────────────────────────────────────────────────────────────
+
+async function getRestaurant(rid: number): Promise<RawRestaurant> {
+  const res = await openTableFetch(`/v1/restaurants/${rid}`);
+  return await res.json() as RawRestaurant;
+}
+
+async function fetchSlots(rid: number, date: string, partySize: number): Promise<TimeSlot[]> {
+  console.log(`[opentable] Finding slots for restaurant ${rid} on ${date}, party of ${partySize}`);
+  const params = new URLSearchParams({ date, party_size: String(partySize) });
+  const res = await openTableFetch(`/v1/restaurants/${rid}/availability?${params}`);
+  const data = await res.json() as { timezone?: string; slots: RawSlot[] };
+
+  return (data.slots || []).map(slot => ({
+    provider: 'opentable',
+    venue_id: rid,
+    config_token: slot.slot_hash,
+    ...splitDateTime(slot.date_time),
+    party_size: partySize,
+    type: slot.area,
+    timezone: data.timezone,
+  }));
+}
+
+async function search(query: string, geo?: GeoPoint, filters: VenueFilters = {}): Promise<Venue[]> {
+  const params = new URLSearchParams({
+    q: query,
+    lat: String(geo?.lat ?? DEFAULT_LAT),
+    lng: String(geo?.lng ?? DEFAULT_LNG),
+    limit: String(SEARCH_LIMIT),
+  });
+  console.log(`[opentable] Searching for "${query}" near (${params.get('lat')}, ${params.get('lng')})`);
+
+  const res = await openTableFetch(`/v1/restaurants?${params}`);
+  const venues = ((await res.json() as { restaurants: RawRestaurant[] }).restaurants || [])
+    .map(toVenue)
+    .filter(venue => matchesVenueFilters(venue, filters));
+
+  const { availability } = filters;
+  if (!availability) return venues;
+
+  // No slot filter on search, so check the first few candidates directly
+  const checked = await mapWithConcurrency(venues.slice(0, MAX_AVAILABILITY_CHECKS), AVAILABILITY_CONCURRENCY, async (venue): Promise<Venue | null> => {
+    try {
+      const open = filterSlots(await fetchSlots(venue.venue_id, availability.date, availability.partySize), { timeWindow: availability.timeWindow });
+      return open.length > 0 ? { ...venue, available_times: [...new Set(open.map(s => s.time))] } : null;
+    } catch (error) {
+      console.warn(`[opentable] Availability check failed for ${venue.name}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  });
+  return checked.filter((venue): venue is Venue => venue !== null);
+}
+
+async function getBookingTerms(slot: TimeSlot): Promise<BookingTerms> {
+  const { policies } = await getRestaurant(slot.venue_id!);
+  return {
+    cancellation_fee: policies?.cancellation_fee || undefined,
+    policy_text: policies?.cancellation_policy ? [policies.cancellation_policy] : [],
+    // The card, if any, is collected by OpenTable when the diner confirms by text
+    requires_payment_method: false,
+  };
+}
+
+/** OpenTable for one diner. Bookings and the reservation list are tied to diner.phone. */
+export function createOpenTableProvider(diner: Diner): ReservationProvider {
+  async function listReservations(): Promise<Reservation[]> {
+    console.log('[opentable] Fetching diner reservations');
+    const res = await openTableFetch(`/v1/reservations?${new URLSearchParams({ phone: diner.phone })}`);
+    const today = new Date().toISOString().slice(0, 10);
+    return ((await res.json() as { reservations: RawReservation[] }).reservations || [])
+      .filter(r => r.status === 'confirmed' && r.date_time.slice(0, 10) >= today)
+      .map(toReservation);
+  }
+
+  return {
+    id: 'opentable',
+    name: 'OpenTable',
+    search,
+
+    async findSlots(venueId, date, partySize, options = {}) {
+      const slots = await fetchSlots(venueId, date, partySize);
+      return options.seating ? applySeatingPreference(slots, options.seating) : slots;
+    },
+
+    getBookingTerms,
+
+    async book(slot, options = {}) {
+      if (!slot.venue_id) throw new Error('OpenTable slots need a venue_id to book.');
+
+      // Fees can appear between prepare and confirm; same consent rule as Resy
+      const terms = await getBookingTerms(slot);
+      if (hasFees(terms) && !options.acceptFees && !(options.maxFees && feesWithin(terms, options.maxFees))) {
+        throw new Error(`Not booked: this slot has fees the user hasn't agreed to (${describeTerms(terms)}). Show the user these terms and only retry once they agree.`);
+      }
+
+      console.log(`[opentable] Booking restaurant ${slot.venue_id} ${slot.date} ${slot.time} for ${slot.party_size}`);
+      const res = await openTableFetch('/v1/reservations', {
+        method: 'POST',
+        body: JSON.stringify({
+          rid: slot.venue_id,
+          slot_hash: slot.config_token,
+          party_size: slot.party_size,
+          diner: { first_name: diner.firstName, last_name: diner.lastName, phone: diner.phone },
+          occasion: options.notes?.occasion,
+          special_request: options.notes?.special_request || undefined,
+        }),
+      });
+      const booked = await res.json() as RawReservation;
+      console.log(`[opentable] Booked ${booked.confirmation_number}`);
+
+      return {
+        provider: 'opentable',
+        reservation_token: booked.confirmation_number,
+        venue_name: booked.restaurant_name,
+        venue_url: booked.profile_url,
+        ...splitDateTime(booked.date_time),
+        party_size: booked.party_size,
+        type: booked.area,
+        agreed_terms: terms,
+        occasion: options.notes?.occasion,
+        special_request: booked.special_request,
+      };
+    },
+
+    async cancel(reservationToken) {
+      console.log(`[opentable] Cancelling reservation: ${reservationToken}`);
+      try {
+        // The partner key can cancel any booking, so only touch this diner's own
+        const mine = (await listReservations()).some(r => r.reservation_token === reservationToken);
+        if (!mine) {
+          return { provider: 'opentable', reservation_token: reservationToken, success: false, error: 'That isnt one of your upcoming OpenTable reservations.' };
+        }
+        await openTableFetch(`/v1/reservations/${encodeURIComponent(reservationToken)}/cancel`, {
+          method: 'POST',
+          body: JSON.stringify({ phone: diner.phone }),
+        });
+        return { provider: 'opentable', reservation_token: reservationToken, success: true };
+      } catch (error) {
+        console.error('[opentable] Cancel error:', error);
+        return { provider: 'opentable', reservation_token: reservationToken, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    },
+
+    listReservations,
+  };
+}
@@ -0,0 +1,35 @@
+import { createResyProvider } from './resy.js';
+import { createOpenTableProvider, isOpenTableConfigured } from './opentable.js';
+import type { Diner, ProviderId, ReservationProvider } from './types.js';
+
+export const PROVIDER_IDS: readonly ProviderId[] = ['resy', 'opentable'];
+
+export interface ProviderCredentials {
+  resyAuthToken?: string | null;
+  diner?: Diner; // needed by providers that book in the diner's name
+}
+
+/** The providers one user can search and book on, in search-result order. */
+export interface ProviderSet {
+  list(): ReservationProvider[];
+  /** Throws if the provider is unknown or not connected for this user. Defaults to Resy. */
+  get(id?: string): ReservationProvider;
+}
+
+export function createProviders(credentials: ProviderCredentials): ProviderSet {
+  const providers: ReservationProvider[] = [];
+  if (credentials.resyAuthToken) providers.push(createResyProvider(credentials.resyAuthToken));
+  if (credentials.diner && isOpenTableConfigured()) providers.push(createOpenTableProvider(credentials.diner));
+
+  return {
+    list: () => [...providers],
+    get(id = 'resy') {
+      if (!(PROVIDER_IDS as readonly string[]).includes(id)) {
+        throw new Error(`Unknown provider "${id}". Use one of: ${PROVIDER_IDS.join(', ')}.`);
+      }
+      const provider = providers.find(p => p.id === id);
+      if (!provider) throw new Error(`${id} isnt connected for this user.`);
+      return provider;
+    },
+  };
+}
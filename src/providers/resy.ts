@@ -0,0 +1,53 @@
+import {
+  searchRestaurants, findSlots, getBookingTerms, bookSlot, cancelReservation, getReservations, modifyReservation,
+} from '../bookings/index.js';
+import type { ResyTimeSlot, ResyVenue } from '../bookings/index.js';
+import type { ReservationProvider, TimeSlot, Venue } from './types.js';
+
+function toVenue(venue: ResyVenue): Venue {
+  return { ...venue, provider: 'resy' };
+}
+
+// Back to the wire shape — bookings/client.ts doesn't know about providers
+function toResySlot({ provider: _provider, venue_id: _venueId, ...slot }: TimeSlot): ResyTimeSlot {
+  return slot;
+}
+
+/** The Resy account behind authToken, as a ReservationProvider. */
+export function createResyProvider(authToken: string): ReservationProvider {
+  return {
+    id: 'resy',
+    name: 'Resy',
+
+    async search(query, geo, filters) {
+      return (await searchRestaurants(authToken, query, geo, filters)).map(toVenue);
+    },
+
+    async findSlots(venueId, date, partySize, options = {}) {
+      const slots = await findSlots(authToken, venueId, date, partySize, options.geo, options.seating, { cached: options.cached });
+      return slots.map(slot => ({ ...slot, provider: 'resy' }));
+    },
+
+    getBookingTerms(slot) {
+      return getBookingTerms(authToken, toResySlot(slot));
+    },
+
+    async book(slot, options) {
+      const confirmation = await bookSlot(authToken, toResySlot(slot), options);
+      return { ...confirmation, provider: 'resy', reservation_token: confirmation.resy_token };
+    },
+
+    async cancel(reservationToken) {
+      const result = await cancelReservation(authToken, reservationToken);
+      return { ...result, provider: 'resy', reservation_token: result.resy_token };
+    },
+
+    async listReservations() {
+      return (await getReservations(authToken)).map(r => ({ ...r, provider: 'resy', reservation_token: r.resy_token }));
+    },
+
+    modify(reservationToken, changes, options) {
+      return modifyReservation(authToken, reservationToken, changes, undefined, options);
+    },
+  };
+}
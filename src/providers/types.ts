@@ -0,0 +1,113 @@
+import type {
+  BookingOptions, ResyBookingTerms, ResyBookingNotes, ResyModificationResult, SeatingPreference, VenueFilters,
+} from '../bookings/index.js';
+import type { GeoPoint } from '../geo/index.js';
+
+export type ProviderId = 'resy' | 'opentable';
+
+// Fee terms, guest notes and booking options were already provider-neutral
+// in shape, so providers share the Resy definitions rather than copies
+export type BookingTerms = ResyBookingTerms;
+export type BookingNotes = ResyBookingNotes;
+export type ProviderBookingOptions = BookingOptions;
+
+/** A bookable restaurant. venue_id is only unique within its provider. */
+export interface Venue {
+  provider: ProviderId;
+  venue_id: number;
+  name: string;
+  location: {
+    city: string;
+    state: string;
+    neighborhood?: string;
+  };
+  cuisine: string[];
+  price_range: number; // 1-4
+  rating?: number;
+  url: string;
+  available_times?: string[]; // HH:MM, only when searched with an availability filter
+}
+
+export interface TimeSlot {
+  provider: ProviderId;
+  venue_id?: number;   // set by providers whose booking call needs it
+  config_token: string; // provider's opaque handle for this slot
+  date: string;        // YYYY-MM-DD
+  time: string;        // HH:MM (24h), venue-local wall clock
+  party_size: number;
+  type: string;        // seating, e.g. "Dining Room", "Bar"
+  timezone?: string;
+  utc_offset?: string;
+}
+
+export interface BookingConfirmation {
+  provider: ProviderId;
+  reservation_token: string; // pass to cancel
+  venue_name: string;
+  venue_url?: string;
+  date: string;
+  time: string;
+  party_size: number;
+  type: string;
+  agreed_terms: BookingTerms;
+  occasion?: BookingNotes['occasion'];
+  special_request?: string;
+}
+
+export interface Reservation {
+  provider: ProviderId;
+  reservation_token: string;
+  venue_id?: number;
+  venue_name: string;
+  date: string;
+  time: string;
+  party_size: number;
+  type: string;
+  occasion?: string;
+  special_request?: string;
+}
+
+export interface CancellationResult {
+  provider: ProviderId;
+  reservation_token: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface SlotSearchOptions {
+  geo?: GeoPoint;
+  seating?: SeatingPreference;
+  cached?: boolean; // browsing only — never when about to book
+}
+
+export interface ReservationChanges {
+  day?: string;
+  time?: string;
+  partySize?: number;
+  seatingType?: string;
+}
+
+/**
+ * One reservation platform. Everything the booking flow and the shared tools
+ * need goes through here; platform-only features (watches, snipes, history,
+ * favorites) still call their own clients directly.
+ */
+export interface ReservationProvider {
+  readonly id: ProviderId;
+  readonly name: string; // display name, e.g. "OpenTable"
+  search(query: string, geo?: GeoPoint, filters?: VenueFilters): Promise<Venue[]>;
+  findSlots(venueId: number, date: string, partySize: number, options?: SlotSearchOptions): Promise<TimeSlot[]>;
+  getBookingTerms(slot: TimeSlot): Promise<BookingTerms>;
+  book(slot: TimeSlot, options?: ProviderBookingOptions): Promise<BookingConfirmation>;
+  cancel(reservationToken: string): Promise<CancellationResult>;
+  listReservations(): Promise<Reservation[]>;
+  /** Book-new-then-cancel-old. Unset where the platform can't do it safely. */
+  modify?(reservationToken: string, changes: ReservationChanges, options?: ProviderBookingOptions): Promise<ResyModificationResult>;
+}
+
+/** Who is booking — platforms without a stored account book in the diner's name. */
+export interface Diner {
+  phone: string;
+  firstName?: string;
+  lastName?: string;
+}
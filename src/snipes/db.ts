@@ -0,0 +1,87 @@
+import crypto from 'node:crypto';
+import type { ReservationSnipe, NewReservationSnipe } from './types.js';
+import { putItem, queryByPk, updateItem, updateItemIf } from '../db/dynamodb.js';
+import { redactPhone } from '../utils/redact.js';
+
+// Same layout as watches: one partition for the scheduler, handle in SK for per-user listing
+const SNIPES_PK = 'SNIPES';
+const SNIPE_SK = (handle: string, id: string) => `SNIPE#${handle}#${id}`;
+
+// Keep finished snipes (and their attempt logs) for a week after the release
+const SNIPE_RETENTION_S = 7 * 24 * 60 * 60;
+
+// Snipes claimed before leases existed count as abandoned this long after release
+const UNLEASED_GRACE_MS = 10 * 60 * 1000;
+
+export async function createSnipe(data: NewReservationSnipe): Promise<ReservationSnipe> {
+  const snipe: ReservationSnipe = {
+    ...data,
+    id: crypto.randomBytes(4).toString('hex'),
+    status: 'scheduled',
+    createdAt: new Date().toISOString(),
+    attempts: [],
+  };
+  const ttl = Math.max(60, Math.floor((new Date(snipe.releaseAt).getTime() - Date.now()) / 1000) + SNIPE_RETENTION_S);
+  await putItem(SNIPES_PK, SNIPE_SK(snipe.handle, snipe.id), snipe as unknown as Record<string, unknown>, ttl);
+  console.log(`[snipes] Created snipe ${snipe.id} for ${redactPhone(snipe.handle)}: venue ${snipe.venueId} on ${snipe.date}, release ${snipe.releaseAt}`);
+  return snipe;
+}
+
+/**
+ * List snipes, optionally for a single user. Finished snipes are included so
+ * users can ask why one missed.
+ */
+export async function listSnipes(handle?: string): Promise<ReservationSnipe[]> {
+  const prefix = handle ? `SNIPE#${handle}#` : 'SNIPE#';
+  return queryByPk<ReservationSnipe>(SNIPES_PK, prefix);
+}
+
+/**
+ * Scheduled snipes whose release is at or before `until`.
+ */
+export async function listDueSnipes(until: Date): Promise<ReservationSnipe[]> {
+  const snipes = await listSnipes();
+  return snipes.filter(s => s.status === 'scheduled' && new Date(s.releaseAt).getTime() <= until.getTime());
+}
+
+/**
+ * Running snipes whose lease ran out — the tick that claimed them timed out
+ * or crashed before finishing.
+ */
+export async function listAbandonedSnipes(now: Date): Promise<ReservationSnipe[]> {
+  const snipes = await listSnipes();
+  return snipes.filter(s => s.status === 'running' && (s.leaseUntil
+    ? new Date(s.leaseUntil).getTime() < now.getTime()
+    : new Date(s.releaseAt).getTime() + UNLEASED_GRACE_MS < now.getTime()));
+}
+
+type SnipeUpdate = Partial<Pick<ReservationSnipe, 'status' | 'leaseUntil' | 'attempts' | 'bookedTime' | 'resyToken'>>;
+
+export async function updateSnipe(handle: string, id: string, updates: SnipeUpdate): Promise<void> {
+  await updateItem(SNIPES_PK, SNIPE_SK(handle, id), updates);
+}
+
+/**
+ * Update a snipe only if it's still in the `expected` state. Returns false when
+ * another tick got there first.
+ */
+export async function updateSnipeIf(
+  handle: string,
+  id: string,
+  expected: Partial<Pick<ReservationSnipe, 'status' | 'leaseUntil'>>,
+  updates: SnipeUpdate,
+): Promise<boolean> {
+  return updateItemIf(SNIPES_PK, SNIPE_SK(handle, id), updates, expected);
+}
+
+/**
+ * Cancel one of a user's scheduled snipes. Returns false if there's nothing to cancel.
+ */
+export async function cancelSnipe(handle: string, id: string): Promise<boolean> {
+  const snipes = await listSnipes(handle);
+  if (!snipes.some(s => s.id === id && s.status === 'scheduled')) return false;
+  // The sniper may claim it in the meantime
+  if (!(await updateSnipeIf(handle, id, { status: 'scheduled' }, { status: 'cancelled' }))) return false;
+  console.log(`[snipes] Cancelled snipe ${id} for ${redactPhone(handle)}`);
+  return true;
+}
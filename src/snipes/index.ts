@@ -0,0 +1,4 @@
+export type { ReservationSnipe, NewReservationSnipe, SnipeAttempt, SnipeAttemptOutcome, SnipeStatus } from './types.js';
+export { createSnipe, listSnipes, listDueSnipes, listAbandonedSnipes, updateSnipe, updateSnipeIf, cancelSnipe } from './db.js';
+export { runSnipe, runDueSnipes, describeMiss, SNIPE_LOOKAHEAD_MS } from './runner.js';
+export type { SnipeRunOptions, SnipeRunResult } from './runner.js';
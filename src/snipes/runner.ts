@@ -0,0 +1,231 @@
+/**
+ * Reservation-release sniper.
+ *
+ * Wakes a few seconds before a venue drops inventory, then runs a tight,
+ * bounded find → book loop until it lands a table in the user's window or the
+ * release window closes. Every pass is recorded on the snipe so misses can be
+ * explained after the fact.
+ */
+
+import type { ReservationSnipe, SnipeAttempt } from './types.js';
+import { listDueSnipes, listAbandonedSnipes, updateSnipe, updateSnipeIf } from './db.js';
+import { findSlots, bookSlot, filterSlots, describeTerms, ResyAuthError, ResyFeeConsentError } from '../bookings/index.js';
+import type { ResyBookingConfirmation, ResyTimeSlot } from '../bookings/index.js';
+import { loadUserContext } from '../auth/index.js';
+import { recordLedgerEntry, bookingEntry } from '../ledger/index.js';
+import { sendMessage } from '../linq/client.js';
+import { addMessage } from '../state/conversation.js';
+import { formatTime } from '../utils/time.js';
+import { redactPhone } from '../utils/redact.js';
+
+const LEAD_MS = 3_000;            // start polling this long before release
+const RELEASE_WINDOW_MS = 60_000; // keep trying this long after release
+const RETRY_INTERVAL_MS = 500;
+const MAX_ATTEMPTS = 60;
+const MAX_STORED_ATTEMPTS = 30;   // keep the record small — first + last passes tell the story
+const LEASE_GRACE_MS = 60_000;    // a claim lasts to the end of the release window plus this
+
+// The scheduler fires every minute; pick up anything releasing before the next tick
+export const SNIPE_LOOKAHEAD_MS = 70_000;
+
+export interface SnipeRunOptions {
+  leadMs?: number;
+  releaseWindowMs?: number;
+  retryIntervalMs?: number;
+  maxAttempts?: number;
+}
+
+export interface SnipeRunResult {
+  confirmation: ResyBookingConfirmation | null;
+  attempts: SnipeAttempt[];
+}
+
+const slotKey = (slot: ResyTimeSlot) => `${slot.time}|${slot.type}`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, Math.max(0, ms)));
+
+/**
+ * Run the find → book loop for one snipe. Does not touch storage.
+ */
+export async function runSnipe(snipe: ReservationSnipe, authToken: string, options: SnipeRunOptions = {}): Promise<SnipeRunResult> {
+  const leadMs = options.leadMs ?? LEAD_MS;
+  const releaseWindowMs = options.releaseWindowMs ?? RELEASE_WINDOW_MS;
+  const retryIntervalMs = options.retryIntervalMs ?? RETRY_INTERVAL_MS;
+  const maxAttempts = options.maxAttempts ?? MAX_ATTEMPTS;
+
+  const releaseAt = new Date(snipe.releaseAt).getTime();
+  const deadline = releaseAt + releaseWindowMs;
+  await sleep(releaseAt - leadMs - Date.now());
+
+  const attempts: SnipeAttempt[] = [];
+  // Slots whose fees are over the user's limits, with their terms. Skipped on
+  // later passes so a cheaper slot in the window still gets a chance.
+  const overFees = new Map<string, string>();
+  while (attempts.length < maxAttempts && Date.now() <= deadline) {
+    const at = new Date().toISOString();
+    try {
+      const slots = await findSlots(authToken, snipe.venueId, snipe.date, snipe.partySize);
+      const matches = filterSlots(slots, { timeWindow: snipe.timeWindow, seatingType: snipe.seatingType });
+      const candidates = matches.filter(slot => !overFees.has(slotKey(slot)));
+
+      if (slots.length === 0) {
+        attempts.push({ at, outcome: 'no_slots', slotsSeen: 0 });
+      } else if (matches.length === 0) {
+        attempts.push({ at, outcome: 'no_match', slotsSeen: slots.length });
+      } else if (candidates.length === 0) {
+        attempts.push({ at, outcome: 'fee_blocked', slotsSeen: slots.length, detail: overFees.get(slotKey(matches[0])) });
+      } else {
+        for (const slot of candidates) {
+          try {
+            const confirmation = await bookSlot(authToken, slot, { maxFees: snipe.maxFees });
+            attempts.push({ at, outcome: 'booked', slotsSeen: slots.length, detail: slot.time });
+            console.log(`[snipes] Snipe ${snipe.id} booked ${slot.time} on attempt ${attempts.length}`);
+            return { confirmation, attempts };
+          } catch (error) {
+            if (error instanceof ResyAuthError) throw error;
+            if (error instanceof ResyFeeConsentError) {
+              overFees.set(slotKey(slot), describeTerms(error.terms));
+              attempts.push({ at, outcome: 'fee_blocked', slotsSeen: slots.length, detail: describeTerms(error.terms) });
+              continue;
+            }
+            // Most likely taken — find again rather than book from a stale list
+            const msg = error instanceof Error ? error.message : 'Unknown error';
+            attempts.push({ at, outcome: 'book_failed', slotsSeen: slots.length, detail: `${slot.time}: ${msg}` });
+            break;
+          }
+        }
+      }
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Unknown error';
+      attempts.push({ at, outcome: 'error', slotsSeen: 0, detail: msg });
+      // An expired session won't fix itself mid-loop
+      if (error instanceof ResyAuthError) break;
+    }
+
+    const last = attempts[attempts.length - 1];
+    console.log(`[snipes] Snipe ${snipe.id} attempt ${attempts.length}: ${last.outcome}${last.detail ? ` (${last.detail})` : ''}`);
+    await sleep(retryIntervalMs);
+  }
+
+  return { confirmation: null, attempts };
+}
+
+/**
+ * Explain a miss in one short phrase, based on the best outcome we saw.
+ */
+export function describeMiss(attempts: SnipeAttempt[]): string {
+  const outcomes = new Set(attempts.map(a => a.outcome));
+  const feeBlocked = attempts.find(a => a.outcome === 'fee_blocked');
+  if (feeBlocked) return `a table opened but it comes with more in fees than you agreed to (${feeBlocked.detail}), so i didnt book it`;
+  if (outcomes.has('book_failed')) return 'tables in your window showed up but got taken before i could lock one in';
+  if (outcomes.has('no_match')) return 'tables dropped but none in your time window';
+  if (outcomes.has('no_slots')) return 'nothing was released for that date while i was checking';
+  if (attempts.length === 0) return 'i didnt get a chance to check before the release window closed';
+  return 'resy kept erroring out during the release';
+}
+
+function trimAttempts(attempts: SnipeAttempt[]): SnipeAttempt[] {
+  if (attempts.length <= MAX_STORED_ATTEMPTS) return attempts;
+  const half = MAX_STORED_ATTEMPTS / 2;
+  return [...attempts.slice(0, half), ...attempts.slice(-half)];
+}
+
+async function notify(chatId: string, text: string): Promise<void> {
+  await sendMessage(chatId, text);
+  await addMessage(chatId, 'assistant', text);
+}
+
+async function executeSnipe(snipe: ReservationSnipe, options: SnipeRunOptions): Promise<void> {
+  const venue = snipe.venueName || 'the restaurant';
+  const userCtx = await loadUserContext(snipe.handle);
+  if (!userCtx) {
+    await updateSnipe(snipe.handle, snipe.id, { status: 'missed', attempts: [{ at: new Date().toISOString(), outcome: 'error', slotsSeen: 0, detail: 'No Resy credentials' }] });
+    await notify(snipe.chatId, `couldnt try for ${venue} — your resy account isnt connected anymore. text me to reconnect`);
+    return;
+  }
+
+  let result: SnipeRunResult;
+  try {
+    result = await runSnipe(snipe, userCtx.bookingsCredentials.resyAuthToken, options);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : 'Unknown error';
+    result = { confirmation: null, attempts: [{ at: new Date().toISOString(), outcome: 'error', slotsSeen: 0, detail: msg }] };
+  }
+
+  const attempts = trimAttempts(result.attempts);
+  if (result.confirmation) {
+    const bookedTime = result.attempts[result.attempts.length - 1].detail;
+    await updateSnipe(snipe.handle, snipe.id, {
+      status: 'booked',
+      attempts,
+      bookedTime,
+      resyToken: result.confirmation.resy_token,
+    });
+    await recordLedgerEntry(bookingEntry(
+      { handle: snipe.handle, chatId: snipe.chatId, source: 'snipe', sourceId: snipe.id },
+      { ...result.confirmation, provider: 'resy', reservation_token: result.confirmation.resy_token },
+      { venueId: snipe.venueId },
+    ));
+    const when = bookedTime ? ` at ${formatTime(bookedTime)}` : '';
+    await notify(snipe.chatId, `got it! snagged ${result.confirmation.venue_name} on ${snipe.date}${when} for ${result.confirmation.party_size}`);
+    await sendMessage(snipe.chatId, result.confirmation.venue_url);
+  } else {
+    await updateSnipe(snipe.handle, snipe.id, { status: 'missed', attempts });
+    await notify(snipe.chatId, `no luck on ${venue} for ${snipe.date} — ${describeMiss(result.attempts)}. want me to set up a watch in case something opens?`);
+  }
+  console.log(`[snipes] Snipe ${snipe.id} for ${redactPhone(snipe.handle)} finished: ${result.confirmation ? 'booked' : 'missed'} after ${result.attempts.length} attempts`);
+}
+
+/**
+ * Mark snipes whose run never finished (Lambda timeout or crash) as missed and
+ * tell the user. Only one tick wins each.
+ */
+async function failAbandonedSnipes(now: Date): Promise<void> {
+  for (const snipe of await listAbandonedSnipes(now)) {
+    try {
+      const attempts = [...snipe.attempts, { at: now.toISOString(), outcome: 'error' as const, slotsSeen: 0, detail: 'Run stopped before finishing' }];
+      const expected = { status: 'running' as const, ...(snipe.leaseUntil && { leaseUntil: snipe.leaseUntil }) };
+      if (!(await updateSnipeIf(snipe.handle, snipe.id, expected, { status: 'missed', attempts }))) continue;
+      console.warn(`[snipes] Snipe ${snipe.id} for ${redactPhone(snipe.handle)} was abandoned mid-run — marked missed`);
+      await notify(snipe.chatId, `sorry — something went wrong on my end while i was trying for ${snipe.venueName || 'the restaurant'} on ${snipe.date}. check your resy reservations in case it went through, or i can set up a watch in case something opens`);
+    } catch (error) {
+      console.error(`[snipes] Failed to close out abandoned snipe ${snipe.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Run every snipe releasing before the next scheduler tick. Snipes run
+ * concurrently, each sleeping until its own release time.
+ */
+export async function runDueSnipes(now: Date = new Date(), options: SnipeRunOptions = {}): Promise<number> {
+  await failAbandonedSnipes(now);
+
+  const due = await listDueSnipes(new Date(now.getTime() + SNIPE_LOOKAHEAD_MS));
+  if (due.length === 0) return 0;
+
+  const releaseWindowMs = options.releaseWindowMs ?? RELEASE_WINDOW_MS;
+  const runnable: ReservationSnipe[] = [];
+  for (const snipe of due) {
+    if (new Date(snipe.releaseAt).getTime() + releaseWindowMs < now.getTime()) {
+      // The scheduler never got to this one in time
+      if (await updateSnipeIf(snipe.handle, snipe.id, { status: 'scheduled' }, { status: 'missed' })) {
+        await notify(snipe.chatId, `sorry — i missed the release for ${snipe.venueName || 'the restaurant'} on ${snipe.date}. ${describeMiss([])}`);
+      }
+      continue;
+    }
+    // Claim it before sleeping. The conditional write keeps overlapping ticks
+    // from both running it; the lease lets a later tick spot a run that died.
+    const leaseUntil = new Date(new Date(snipe.releaseAt).getTime() + releaseWindowMs + LEASE_GRACE_MS).toISOString();
+    if (!(await updateSnipeIf(snipe.handle, snipe.id, { status: 'scheduled' }, { status: 'running', leaseUntil }))) {
+      console.log(`[snipes] Snipe ${snipe.id} was claimed or cancelled elsewhere — skipping`);
+      continue;
+    }
+    runnable.push({ ...snipe, status: 'running', leaseUntil });
+  }
+
+  await Promise.all(runnable.map(snipe =>
+    executeSnipe(snipe, options).catch(err => console.error(`[snipes] Snipe ${snipe.id} crashed:`, err))
+  ));
+  return runnable.length;
+}
@@ -0,0 +1,40 @@
+import type { TimeWindow } from '../utils/time.js';
+import type { FeeLimits } from '../bookings/index.js';
+
+export type SnipeStatus = 'scheduled' | 'running' | 'booked' | 'missed' | 'cancelled';
+
+export type SnipeAttemptOutcome = 'no_slots' | 'no_match' | 'booked' | 'book_failed' | 'fee_blocked' | 'error';
+
+/** One pass of the retry loop — kept on the snipe so a miss can be explained. */
+export interface SnipeAttempt {
+  at: string;            // ISO timestamp
+  outcome: SnipeAttemptOutcome;
+  slotsSeen: number;
+  detail?: string;       // error message or the time we tried to book
+}
+
+/**
+ * A scheduled attempt to book a table the moment a venue releases inventory
+ * (e.g. 10:00am, 30 days out).
+ */
+export interface ReservationSnipe {
+  id: string;
+  handle: string;
+  chatId: string;
+  venueId: number;
+  venueName?: string;
+  date: string;          // reservation date, YYYY-MM-DD
+  partySize: number;
+  timeWindow: TimeWindow;
+  seatingType?: string;
+  releaseAt: string;     // ISO instant the venue drops inventory
+  maxFees?: FeeLimits;   // fees the user agreed to up front; slots over them are skipped
+  status: SnipeStatus;
+  leaseUntil?: string;   // ISO — while running, the tick that claimed it owns it until then
+  createdAt: string;
+  attempts: SnipeAttempt[];
+  bookedTime?: string;   // HH:MM of the slot we got
+  resyToken?: string;
+}
+
+export type NewReservationSnipe = Omit<ReservationSnipe, 'id' | 'status' | 'leaseUntil' | 'createdAt' | 'attempts' | 'bookedTime' | 'resyToken'>;
@@ -1,10 +1,20 @@
 // Conversation and user profile storage backed by DynamoDB.
-// Conversations expire after 24 hours (via DynamoDB TTL). User profiles persist.
-
-import { getItem, putItem, deleteItem } from '../db/dynamodb.js';
-
-const CONVERSATION_TTL_S = 24 * 60 * 60; // 24 hours
-const MAX_MESSAGES = 50;
+// Conversations expire after CONVERSATION_TTL_HOURS of quiet (via DynamoDB TTL).
+// Older turns are folded into a running summary instead of falling off the end.
+// User profiles persist.
+
+import { getItem, putItem, putItemIf, deleteItem, refreshTtl } from '../db/dynamodb.js';
+import type { ResolvedLocation } from '../geo/index.js';
+import type { NoteCategory } from '../bookings/index.js';
+
+/** How long a quiet conversation (and its summary) is kept. */
+export const CONVERSATION_TTL_S = (Number(process.env.CONVERSATION_TTL_HOURS) || 24) * 60 * 60;
+// Hard cap on verbatim messages — only reached when summarizing fails
+const MAX_MESSAGES = Number(process.env.CONVERSATION_MAX_MESSAGES) || 50;
+// Fold older turns into the summary once there are more than this many...
+const SUMMARIZE_AFTER = Number(process.env.CONVERSATION_SUMMARIZE_AFTER) || 30;
+// ...keeping this many of the most recent verbatim
+const KEEP_RECENT = Number(process.env.CONVERSATION_KEEP_RECENT) || 16;
 
 export interface StoredMessage {
   role: 'user' | 'assistant';
@@ -14,13 +24,26 @@ export interface StoredMessage {
 
 interface ConversationRecord {
   messages: StoredMessage[];
+  summary?: string;        // running summary of turns no longer in messages
+  summarizedCount?: number; // how many messages the summary covers
   lastActive: number;
 }
 
+export interface Conversation {
+  messages: StoredMessage[];
+  summary: string | null;
+}
+
+/** Folds older messages into the running summary; previous is null the first time. */
+export type ConversationSummarizer = (previous: string | null, messages: StoredMessage[]) => Promise<string>;
+
 export interface UserProfile {
   handle: string;
   name: string | null;
   facts: string[];
+  homeLocation?: ResolvedLocation; // defaults search and slot geo
+  noteCategories?: NoteCategory[]; // what may pre-fill booking notes; DEFAULT_NOTE_CATEGORIES when unset
+  openTableOptIn?: boolean; // agreed to OpenTable booking in their name and phone number
   firstSeen: number;
   lastSeen: number;
 }
@@ -33,6 +56,12 @@ export async function getConversation(chatId: string): Promise<StoredMessage[]>
   return record.messages ?? [];
 }
 
+/** Recent messages plus the summary of everything before them. */
+export async function getConversationWithSummary(chatId: string): Promise<Conversation> {
+  const record = await getItem<ConversationRecord>(`CONV#${chatId}`, 'CONV');
+  return { messages: record?.messages ?? [], summary: record?.summary ?? null };
+}
+
 export async function addMessage(chatId: string, role: 'user' | 'assistant', content: string, handle?: string): Promise<void> {
   const record = await getItem<ConversationRecord>(`CONV#${chatId}`, 'CONV');
   const messages = record?.messages ?? [];
@@ -40,11 +69,48 @@ export async function addMessage(chatId: string, role: 'user' | 'assistant', con
   if (handle) msg.handle = handle;
   messages.push(msg);
   const trimmed = messages.slice(-MAX_MESSAGES);
+  if (trimmed.length < messages.length) {
+    console.warn(`[state] Dropped ${messages.length - trimmed.length} unsummarized message(s) from ${chatId}`);
+  }
+
+  await Promise.all([
+    putItem(`CONV#${chatId}`, 'CONV', {
+      messages: trimmed,
+      ...(record?.summary && { summary: record.summary, summarizedCount: record.summarizedCount }),
+      lastActive: Date.now(),
+    }, CONVERSATION_TTL_S),
+    // Working memory is only rewritten when a tool turns something up; keep it
+    // alive as long as the conversation it belongs to
+    refreshTtl(`CONV#${chatId}`, 'MEMORY', CONVERSATION_TTL_S),
+  ]);
+}
 
-  await putItem(`CONV#${chatId}`, 'CONV', {
-    messages: trimmed,
-    lastActive: Date.now(),
-  }, CONVERSATION_TTL_S);
+/**
+ * Once a conversation runs past SUMMARIZE_AFTER messages, fold all but the
+ * last KEEP_RECENT into the running summary. Returns whether it compacted.
+ */
+export async function compactConversation(chatId: string, summarize: ConversationSummarizer): Promise<boolean> {
+  const record = await getItem<ConversationRecord>(`CONV#${chatId}`, 'CONV');
+  if (!record || record.messages.length <= Math.max(SUMMARIZE_AFTER, KEEP_RECENT)) return false;
+
+  const older = record.messages.slice(0, -KEEP_RECENT);
+  const summary = await summarize(record.summary ?? null, older);
+
+  // Every addMessage moves lastActive, so it versions the record: if anything
+  // arrived (or /clear ran) while summarizing, leave it for the next turn
+  const summarizedCount = (record.summarizedCount ?? 0) + older.length;
+  const saved = await putItemIf(`CONV#${chatId}`, 'CONV', {
+    messages: record.messages.slice(older.length),
+    summary,
+    summarizedCount,
+    lastActive: record.lastActive,
+  }, { lastActive: record.lastActive }, CONVERSATION_TTL_S);
+  if (!saved) {
+    console.warn(`[state] Conversation ${chatId} changed while summarizing, skipping`);
+    return false;
+  }
+  console.log(`[state] Summarized ${older.length} message(s) in ${chatId} (${summarizedCount} total)`);
+  return true;
 }
 
 export async function clearConversation(chatId: string): Promise<void> {
@@ -65,13 +131,22 @@ export async function getUserProfile(handle: string): Promise<UserProfile | null
   return record ?? null;
 }
 
-export async function updateUserProfile(handle: string, updates: { name?: string; facts?: string[] }): Promise<void> {
+export async function updateUserProfile(
+  handle: string,
+  updates: { name?: string; facts?: string[]; homeLocation?: ResolvedLocation; noteCategories?: NoteCategory[]; openTableOptIn?: boolean },
+): Promise<void> {
   const existing = await getUserProfile(handle);
   const now = Math.floor(Date.now() / 1000);
+  const homeLocation = updates.homeLocation ?? existing?.homeLocation;
+  const noteCategories = updates.noteCategories ?? existing?.noteCategories;
+  const openTableOptIn = updates.openTableOptIn ?? existing?.openTableOptIn;
   const profile: UserProfile = {
     handle,
     name: updates.name ?? existing?.name ?? null,
     facts: updates.facts ?? existing?.facts ?? [],
+    ...(homeLocation && { homeLocation }),
+    ...(noteCategories && { noteCategories }),
+    ...(openTableOptIn && { openTableOptIn }),
     firstSeen: existing?.firstSeen ?? now,
     lastSeen: now,
   };
@@ -95,6 +170,21 @@ export async function setUserName(handle: string, name: string): Promise<boolean
   return true;
 }
 
+export async function setHomeLocation(handle: string, location: ResolvedLocation): Promise<void> {
+  await updateUserProfile(handle, { homeLocation: location });
+  console.log(`[state] Set home location for ${handle}: ${location.name}`);
+}
+
+export async function setNoteCategories(handle: string, categories: NoteCategory[]): Promise<void> {
+  await updateUserProfile(handle, { noteCategories: categories });
+  console.log(`[state] Set booking note sharing for ${handle}: ${categories.join(', ') || 'none'}`);
+}
+
+export async function setOpenTableOptIn(handle: string, optIn: boolean): Promise<void> {
+  await updateUserProfile(handle, { openTableOptIn: optIn });
+  console.log(`[state] ${optIn ? 'Enabled' : 'Disabled'} OpenTable booking for ${handle}`);
+}
+
 export async function clearUserProfile(handle: string): Promise<boolean> {
   await deleteItem(`USERPROFILE#${handle}`, 'USERPROFILE');
   console.log(`[state] Cleared profile for ${handle}`);
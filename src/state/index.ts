@@ -1 +1,2 @@
 export * from './conversation.js';
+export * from './memory.js';
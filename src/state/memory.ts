@@ -0,0 +1,176 @@
+// Per-chat working memory: the venues, slots and reservations tool calls
+// turned up, kept as structured data so follow-ups ("cancel that one", "book
+// the 8pm") resolve without another lookup. Lives next to the conversation
+// and expires with it.
+
+import { getItem, putItem, deleteItem } from '../db/dynamodb.js';
+import type { ProviderId } from '../providers/types.js';
+import { CONVERSATION_TTL_S } from './conversation.js';
+
+const MAX_VENUES = 12;
+const MAX_SLOT_GROUPS = 8;
+const MAX_TIMES_PER_GROUP = 12;
+const MAX_RESERVATIONS = 10;
+const MAX_PENDING = 5;
+
+export interface RememberedVenue {
+  provider: ProviderId;
+  venueId: number;
+  name: string;
+  neighborhood?: string;
+}
+
+/** Open times seen for one venue, day and party size. */
+export interface RememberedSlots {
+  provider: ProviderId;
+  venueId: number;
+  venueName?: string;
+  date: string;
+  partySize: number;
+  times: string[]; // "19:30 Dining Room"
+  seenAt: number;
+}
+
+export interface RememberedReservation {
+  provider: ProviderId;
+  reservationToken: string;
+  venueId?: number;
+  venueName: string;
+  date: string;
+  time: string;
+  partySize: number;
+  status: 'held' | 'cancelled';
+  madeHere: boolean; // booked by the agent in this chat, vs. seen in a reservations list
+}
+
+export interface RememberedPending {
+  id: string;
+  kind: 'book' | 'modify';
+  provider: ProviderId;
+  venueId: number;
+  venueName?: string;
+  date: string;
+  time: string;
+  partySize: number;
+  seatingType: string;
+  expiresAt: string;
+}
+
+export interface WorkingMemory {
+  venues: RememberedVenue[];              // newest first
+  slots: RememberedSlots[];               // newest first
+  reservations: RememberedReservation[];  // newest first
+  pending: RememberedPending[];           // newest first
+  updatedAt: number;
+}
+
+export function emptyWorkingMemory(): WorkingMemory {
+  return { venues: [], slots: [], reservations: [], pending: [], updatedAt: 0 };
+}
+
+// Newest first, one entry per key, capped
+function upsert<T>(list: T[], items: T[], key: (item: T) => string, max: number): T[] {
+  const keys = new Set(items.map(key));
+  return [...items, ...list.filter(item => !keys.has(key(item)))].slice(0, max);
+}
+
+function touch(memory: WorkingMemory): void {
+  memory.updatedAt = Date.now();
+}
+
+export function rememberVenues(
+  memory: WorkingMemory,
+  venues: Array<{ provider: ProviderId; venue_id: number; name: string; location?: { neighborhood?: string } }>,
+): void {
+  if (venues.length === 0) return;
+  const remembered = venues.map(v => ({
+    provider: v.provider,
+    venueId: v.venue_id,
+    name: v.name,
+    ...(v.location?.neighborhood && { neighborhood: v.location.neighborhood }),
+  }));
+  memory.venues = upsert(memory.venues, remembered.slice(0, MAX_VENUES), v => `${v.provider}|${v.venueId}`, MAX_VENUES);
+  touch(memory);
+}
+
+export function rememberSlots(memory: WorkingMemory, group: Omit<RememberedSlots, 'seenAt'>): void {
+  const remembered = { ...group, times: group.times.slice(0, MAX_TIMES_PER_GROUP), seenAt: Date.now() };
+  memory.slots = upsert(memory.slots, [remembered], s => `${s.provider}|${s.venueId}|${s.date}|${s.partySize}`, MAX_SLOT_GROUPS);
+  touch(memory);
+}
+
+export function rememberPending(memory: WorkingMemory, pending: RememberedPending): void {
+  memory.pending = upsert(memory.pending, [pending], p => p.id, MAX_PENDING);
+  touch(memory);
+}
+
+export function rememberReservation(memory: WorkingMemory, reservation: RememberedReservation): void {
+  const existing = memory.reservations.find(r => r.provider === reservation.provider && r.reservationToken === reservation.reservationToken);
+  // A later reservations listing shouldn't forget that the agent made it
+  const remembered = { ...reservation, madeHere: reservation.madeHere || !!existing?.madeHere };
+  memory.reservations = upsert(memory.reservations, [remembered], r => `${r.provider}|${r.reservationToken}`, MAX_RESERVATIONS);
+  touch(memory);
+}
+
+export function rememberCancellation(memory: WorkingMemory, provider: ProviderId, reservationToken: string): void {
+  const reservation = memory.reservations.find(r => r.provider === provider && r.reservationToken === reservationToken);
+  if (!reservation) return;
+  reservation.status = 'cancelled';
+  touch(memory);
+}
+
+/** Drop a pending booking once it's been confirmed (or has failed). */
+export function forgetPending(memory: WorkingMemory, pendingId: string): void {
+  const before = memory.pending.length;
+  memory.pending = memory.pending.filter(p => p.id !== pendingId);
+  if (memory.pending.length !== before) touch(memory);
+}
+
+/**
+ * Memory as prompt text, or null when there's nothing in it. Expired pending
+ * bookings are left out.
+ */
+export function describeWorkingMemory(memory: WorkingMemory, now = Date.now()): string | null {
+  const sections: string[] = [];
+  const nameOf = (provider: ProviderId, venueId: number, name?: string) =>
+    name || memory.venues.find(v => v.provider === provider && v.venueId === venueId)?.name || `venue ${venueId}`;
+
+  if (memory.reservations.length > 0) {
+    sections.push('Reservations:\n' + memory.reservations.map(r =>
+      `- ${r.venueName}, ${r.date} ${r.time}, party of ${r.partySize} — ${r.provider}, reservation_token ${r.reservationToken}` +
+      (r.status === 'cancelled' ? ' (CANCELLED)' : r.madeHere ? ' (you booked this)' : '')).join('\n'));
+  }
+
+  const pending = memory.pending.filter(p => Date.parse(p.expiresAt) > now);
+  if (pending.length > 0) {
+    sections.push('Awaiting the users confirmation:\n' + pending.map(p =>
+      `- pending_booking_id ${p.id}: ${p.kind === 'modify' ? 'move to ' : ''}${nameOf(p.provider, p.venueId, p.venueName)}, ${p.date} ${p.time} ${p.seatingType}, party of ${p.partySize} (${p.provider})`).join('\n'));
+  }
+
+  if (memory.venues.length > 0) {
+    sections.push('Venues shown:\n' + memory.venues.map(v =>
+      `- ${v.name} — ${v.provider} venue_id ${v.venueId}${v.neighborhood ? `, ${v.neighborhood}` : ''}`).join('\n'));
+  }
+
+  if (memory.slots.length > 0) {
+    sections.push('Open times shown (may have changed since):\n' + memory.slots.map(s =>
+      `- ${nameOf(s.provider, s.venueId, s.venueName)} (${s.provider} venue_id ${s.venueId}) ${s.date}, party of ${s.partySize}: ${s.times.length > 0 ? s.times.join(', ') : 'nothing open'}`).join('\n'));
+  }
+
+  return sections.length > 0 ? sections.join('\n\n') : null;
+}
+
+// ── Storage ─────────────────────────────────────────────────────────────────
+
+export async function getWorkingMemory(chatId: string): Promise<WorkingMemory> {
+  const record = await getItem<WorkingMemory>(`CONV#${chatId}`, 'MEMORY');
+  return record ? { ...emptyWorkingMemory(), ...record } : emptyWorkingMemory();
+}
+
+export async function saveWorkingMemory(chatId: string, memory: WorkingMemory): Promise<void> {
+  await putItem(`CONV#${chatId}`, 'MEMORY', memory as unknown as Record<string, unknown>, CONVERSATION_TTL_S);
+}
+
+export async function clearWorkingMemory(chatId: string): Promise<void> {
+  await deleteItem(`CONV#${chatId}`, 'MEMORY');
+}
@@ -0,0 +1,84 @@
+/**
+ * Speech-to-text backends, chosen by TRANSCRIPTION_BACKEND:
+ * - whisper: a local whisper.cpp server (`whisper-server --convert`) at WHISPER_URL
+ * - openai:  any OpenAI-compatible /audio/transcriptions endpoint (OpenAI, Groq, faster-whisper-server)
+ */
+
+import type { AudioClip, TranscriptionBackend } from './types.js';
+
+// The processor Lambda has 60s for the whole turn: download, this, then Claude
+const REQUEST_TIMEOUT_MS = 25_000;
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/m4a': 'm4a',
+  'audio/aac': 'aac',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/amr': 'amr',
+  'audio/x-caf': 'caf',
+};
+
+// Engines sniff the format from the file name, so give the upload a sensible one
+function audioFile(clip: AudioClip): [Blob, string] {
+  const ext = EXTENSIONS[clip.mimeType.split(';')[0].trim().toLowerCase()] ?? 'audio';
+  return [new Blob([new Uint8Array(clip.data)], { type: clip.mimeType }), `voice-note.${ext}`];
+}
+
+async function postTranscription(backend: string, url: string, form: FormData, headers: Record<string, string> = {}): Promise<string> {
+  const res = await fetch(url, { method: 'POST', body: form, headers, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!res.ok) {
+    throw new Error(`${backend} transcription failed: ${res.status} ${await res.text()}`);
+  }
+  const data = await res.json() as { text?: string };
+  return (data.text ?? '').trim();
+}
+
+/** whisper.cpp's bundled HTTP server. */
+export function createWhisperBackend(baseUrl: string): TranscriptionBackend {
+  return {
+    name: 'whisper',
+    transcribe(clip) {
+      const form = new FormData();
+      form.append('file', ...audioFile(clip));
+      form.append('response_format', 'json');
+      return postTranscription('whisper', `${baseUrl.replace(/\/$/, '')}/inference`, form);
+    },
+  };
+}
+
+/** OpenAI's /audio/transcriptions, or anything that speaks it. */
+export function createOpenAIBackend(apiKey: string, baseUrl = 'https://api.openai.com/v1', model = 'whisper-1'): TranscriptionBackend {
+  return {
+    name: 'openai',
+    transcribe(clip) {
+      const form = new FormData();
+      form.append('file', ...audioFile(clip));
+      form.append('model', model);
+      return postTranscription('openai', `${baseUrl.replace(/\/$/, '')}/audio/transcriptions`, form, { authorization: `Bearer ${apiKey}` });
+    },
+  };
+}
+
+/**
+ * The configured backend, or null when voice notes are off. Read per call so
+ * a deploy can switch engines with an env change alone.
+ */
+export function getTranscriptionBackend(env: NodeJS.ProcessEnv = process.env): TranscriptionBackend | null {
+  switch (env.TRANSCRIPTION_BACKEND) {
+    case 'whisper':
+      return createWhisperBackend(env.WHISPER_URL || 'http://localhost:8080');
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        console.warn('[transcription] TRANSCRIPTION_BACKEND=openai but OPENAI_API_KEY is not set');
+        return null;
+      }
+      return createOpenAIBackend(env.OPENAI_API_KEY, env.OPENAI_BASE_URL || undefined, env.TRANSCRIPTION_MODEL || undefined);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,23 @@
+import type { TranscriptionFailure } from './types.js';
+
+const USER_MESSAGES: Record<TranscriptionFailure, string> = {
+  unavailable: 'i cant listen to voice notes yet, mind typing that out?',
+  too_large: 'that voice note is too long for me to listen to, mind typing it or sending a shorter one?',
+  download_failed: 'i couldnt load that voice note, mind sending it again or typing it?',
+  empty: 'i couldnt hear anything in that voice note, mind trying again or typing it?',
+  backend_failed: 'i couldnt make out that voice note, mind typing it instead?',
+};
+
+/**
+ * Why a voice note couldn't be turned into text. `message` is for logs;
+ * `userMessage` is what gets texted back.
+ */
+export class TranscriptionError extends Error {
+  public readonly userMessage: string;
+
+  constructor(public readonly reason: TranscriptionFailure, message: string) {
+    super(message);
+    this.name = 'TranscriptionError';
+    this.userMessage = USER_MESSAGES[reason];
+  }
+}
@@ -0,0 +1,4 @@
+export type { AudioClip, TranscriptionBackend, TranscriptionFailure } from './types.js';
+export { TranscriptionError } from './errors.js';
+export { createWhisperBackend, createOpenAIBackend, getTranscriptionBackend } from './backends.js';
+export { transcribeAudio, MAX_AUDIO_BYTES } from './transcribe.js';
@@ -0,0 +1,59 @@
+import { TranscriptionError } from './errors.js';
+import { getTranscriptionBackend } from './backends.js';
+import type { AudioClip, TranscriptionBackend } from './types.js';
+
+// OpenAI's upload cap; a minute of iMessage voice memo is well under 1 MB
+export const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+const DOWNLOAD_TIMEOUT_MS = 10_000;
+
+async function downloadAudio(url: string, mimeType: string): Promise<AudioClip> {
+  let res: Response;
+  try {
+    res = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  } catch (error) {
+    throw new TranscriptionError('download_failed', `Audio download failed: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!res.ok) {
+    throw new TranscriptionError('download_failed', `Audio download failed: ${res.status}`);
+  }
+  if (Number(res.headers.get('content-length') ?? 0) > MAX_AUDIO_BYTES) {
+    throw new TranscriptionError('too_large', `Audio is ${res.headers.get('content-length')} bytes`);
+  }
+  const data = Buffer.from(await res.arrayBuffer());
+  if (data.length > MAX_AUDIO_BYTES) {
+    throw new TranscriptionError('too_large', `Audio is ${data.length} bytes`);
+  }
+  return { data, mimeType: res.headers.get('content-type')?.startsWith('audio/') ? res.headers.get('content-type')! : mimeType };
+}
+
+/**
+ * Download and transcribe voice notes, in order, into one transcript.
+ * Throws TranscriptionError — callers text its userMessage back.
+ */
+export async function transcribeAudio(
+  audio: Array<{ url: string; mimeType: string }>,
+  backend: TranscriptionBackend | null = getTranscriptionBackend(),
+): Promise<string> {
+  if (!backend) {
+    throw new TranscriptionError('unavailable', 'No transcription backend configured (TRANSCRIPTION_BACKEND)');
+  }
+
+  const transcripts: string[] = [];
+  for (const { url, mimeType } of audio) {
+    const clip = await downloadAudio(url, mimeType);
+    const start = Date.now();
+    let text: string;
+    try {
+      text = await backend.transcribe(clip);
+    } catch (error) {
+      throw new TranscriptionError('backend_failed', error instanceof Error ? error.message : String(error));
+    }
+    console.log(`[transcription] ${backend.name} transcribed ${clip.data.length} bytes of ${clip.mimeType} in ${Date.now() - start}ms`);
+    if (text) transcripts.push(text);
+  }
+
+  if (transcripts.length === 0) {
+    throw new TranscriptionError('empty', 'Transcript was empty');
+  }
+  return transcripts.join(' ');
+}
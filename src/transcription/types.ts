@@ -0,0 +1,13 @@
+/** A downloaded voice note, ready to send to a speech-to-text engine. */
+export interface AudioClip {
+  data: Buffer;
+  mimeType: string;  // e.g. "audio/x-m4a"
+}
+
+/** A speech-to-text engine. Returns the spoken text, trimmed; '' for silence. */
+export interface TranscriptionBackend {
+  readonly name: string;
+  transcribe(clip: AudioClip): Promise<string>;
+}
+
+export type TranscriptionFailure = 'unavailable' | 'too_large' | 'download_failed' | 'empty' | 'backend_failed';
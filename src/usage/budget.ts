@@ -0,0 +1,40 @@
+import type { BudgetLevel, BudgetStatus } from './types.js';
+import { listUsage, totalUsage } from './db.js';
+import { redactPhone } from '../utils/redact.js';
+
+// Optional per-user daily spend cap in USD (UTC days). Past DEGRADE_AT of it
+// chat replies drop to the smaller model; once it's spent they stop until tomorrow.
+const DAILY_BUDGET_USD = Number(process.env.USER_DAILY_BUDGET_USD) || 0;
+const DEGRADE_AT = Number(process.env.USER_BUDGET_DEGRADE_AT) || 0.8;
+
+/** The level a day's spend puts a user at. Always 'ok' without a budget. */
+export function budgetLevel(spentUsd: number): BudgetLevel {
+  if (!DAILY_BUDGET_USD) return 'ok';
+  return spentUsd >= DAILY_BUDGET_USD ? 'exhausted'
+    : spentUsd >= DAILY_BUDGET_USD * DEGRADE_AT ? 'degraded'
+    : 'ok';
+}
+
+/**
+ * Where a user stands against today's budget. Always 'ok' without a budget.
+ * A failed lookup is logged and treated as 'ok' — the budget guards cost,
+ * it shouldn't take the agent down with the table.
+ */
+export async function checkBudget(handle: string): Promise<BudgetStatus> {
+  if (!DAILY_BUDGET_USD) return { level: 'ok', spentUsd: 0, budgetUsd: null };
+
+  let spentUsd: number;
+  try {
+    const today = new Date().toISOString().slice(0, 10);
+    spentUsd = totalUsage(await listUsage(handle, today)).costUsd;
+  } catch (error) {
+    console.error(`[usage] Budget lookup failed for ${redactPhone(handle)}:`, error instanceof Error ? error.message : error);
+    return { level: 'ok', spentUsd: 0, budgetUsd: DAILY_BUDGET_USD };
+  }
+
+  const level = budgetLevel(spentUsd);
+  if (level !== 'ok') {
+    console.log(`[usage] ${redactPhone(handle)} has spent $${spentUsd.toFixed(4)} of $${DAILY_BUDGET_USD} today (${level})`);
+  }
+  return { level, spentUsd, budgetUsd: DAILY_BUDGET_USD };
+}
@@ -0,0 +1,88 @@
+import crypto from 'node:crypto';
+import type Anthropic from '@anthropic-ai/sdk';
+import type { TokenCounts, UsageOrigin, UsagePurpose, UsageRecord, UsageTotals } from './types.js';
+import { estimateCost } from './pricing.js';
+import { putItem, queryByPk } from '../db/dynamodb.js';
+import { redactPhone } from '../utils/redact.js';
+
+// Under the sender's partition (the chat's when there is none), SK sorted by
+// time so a date prefix query returns one day. Kept long enough for monthly
+// reporting, then expired.
+const USAGE_TTL_S = 90 * 24 * 60 * 60;
+const USAGE_PK = (origin: UsageOrigin) => origin.handle ? `USER#${origin.handle}` : `CHAT#${origin.chatId}`;
+const USAGE_SK = (createdAt: string, id: string) => `USAGE#${createdAt}#${id}`;
+
+export function tokenCounts(usage: Anthropic.Usage): TokenCounts {
+  return {
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cacheWriteTokens: usage.cache_creation_input_tokens ?? 0,
+    cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+  };
+}
+
+/**
+ * Record one call's tokens and estimated cost. Accounting never fails the
+ * reply it measures: a failed write is logged and returns null.
+ */
+export async function recordUsage(
+  origin: UsageOrigin,
+  purpose: UsagePurpose,
+  model: string,
+  usage: Anthropic.Usage,
+): Promise<UsageRecord | null> {
+  const tokens = tokenCounts(usage);
+  const record: UsageRecord = {
+    chatId: origin.chatId,
+    ...(origin.handle && { handle: origin.handle }),
+    ...tokens,
+    id: crypto.randomBytes(4).toString('hex'),
+    model,
+    purpose,
+    costUsd: estimateCost(model, tokens),
+    createdAt: new Date().toISOString(),
+  };
+  try {
+    await putItem(USAGE_PK(record), USAGE_SK(record.createdAt, record.id), record as unknown as Record<string, unknown>, USAGE_TTL_S);
+  } catch (error) {
+    console.error(`[usage] Failed to record ${purpose} call:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+  console.log(`[usage] ${purpose} ${model} ${tokens.inputTokens}in/${tokens.outputTokens}out $${record.costUsd.toFixed(4)} for ${record.handle ? redactPhone(record.handle) : `chat ${record.chatId}`}`);
+  return record;
+}
+
+/**
+ * A user's usage, oldest first. `day` (YYYY-MM-DD, UTC) limits it to one day.
+ */
+export async function listUsage(handle: string, day?: string): Promise<UsageRecord[]> {
+  return queryByPk<UsageRecord>(`USER#${handle}`, day ? `USAGE#${day}` : 'USAGE#');
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cacheWriteTokens: 0, cacheReadTokens: 0, costUsd: 0 };
+}
+
+export function totalUsage(records: UsageRecord[]): UsageTotals {
+  const totals = emptyTotals();
+  for (const record of records) {
+    totals.calls++;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.cacheWriteTokens += record.cacheWriteTokens;
+    totals.cacheReadTokens += record.cacheReadTokens;
+    totals.costUsd += record.costUsd;
+  }
+  return totals;
+}
+
+/** Totals grouped by a field (handle, chatId, model, purpose), most expensive first. */
+export function usageBy(records: UsageRecord[], key: (record: UsageRecord) => string | undefined): Array<{ key: string } & UsageTotals> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const k = key(record);
+    if (!k) continue;
+    groups.set(k, [...(groups.get(k) ?? []), record]);
+  }
+  return [...groups].map(([k, group]) => ({ key: k, ...totalUsage(group) })).sort((a, b) => b.costUsd - a.costUsd);
+}
@@ -0,0 +1,4 @@
+export type { UsagePurpose, UsageOrigin, TokenCounts, UsageRecord, UsageTotals, BudgetLevel, BudgetStatus } from './types.js';
+export { recordUsage, listUsage, tokenCounts, totalUsage, usageBy } from './db.js';
+export { estimateCost } from './pricing.js';
+export { checkBudget, budgetLevel } from './budget.js';
@@ -0,0 +1,32 @@
+import type { TokenCounts } from './types.js';
+
+/** USD per million tokens. */
+interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+// List prices. Update alongside any model change in claude/client.ts.
+const PRICES: Record<string, ModelPrice> = {
+  'claude-sonnet-4-20250514': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+};
+
+// Unknown models are priced like the most expensive known one, so a missing
+// entry overstates spend rather than letting it slip past the budget
+const FALLBACK_PRICE = PRICES['claude-sonnet-4-20250514'];
+
+/** Estimated cost of one call in USD. */
+export function estimateCost(model: string, tokens: TokenCounts): number {
+  const price = PRICES[model];
+  if (!price) console.warn(`[usage] No price for ${model}, using Sonnet rates`);
+  const p = price ?? FALLBACK_PRICE;
+  return (
+    tokens.inputTokens * p.input
+    + tokens.outputTokens * p.output
+    + tokens.cacheWriteTokens * p.cacheWrite
+    + tokens.cacheReadTokens * p.cacheRead
+  ) / 1_000_000;
+}
@@ -0,0 +1,39 @@
+/** What a Claude call was for. */
+export type UsagePurpose = 'chat' | 'group_triage' | 'effect_text' | 'summary';
+
+/** Who a call was made for. Calls without a known sender are kept per chat. */
+export interface UsageOrigin {
+  chatId: string;
+  handle?: string;
+}
+
+/** Token counts as the API reports them, cache reads and writes split out. */
+export interface TokenCounts {
+  inputTokens: number;
+  outputTokens: number;
+  cacheWriteTokens: number;
+  cacheReadTokens: number;
+}
+
+/** One Claude API call. */
+export interface UsageRecord extends UsageOrigin, TokenCounts {
+  id: string;
+  model: string;
+  purpose: UsagePurpose;
+  costUsd: number;             // estimated from list prices, see pricing.ts
+  createdAt: string;
+}
+
+export interface UsageTotals extends TokenCounts {
+  calls: number;
+  costUsd: number;
+}
+
+/** Where a user stands against the daily budget. */
+export type BudgetLevel = 'ok' | 'degraded' | 'exhausted';
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  spentUsd: number;
+  budgetUsd: number | null;    // null when no budget is configured
+}
@@ -0,0 +1,101 @@
+/**
+ * Time-of-day helpers for slot matching. Times are "HH:MM" 24h strings.
+ */
+
+export interface TimeWindow {
+  start: string; // HH:MM, inclusive
+  end: string;   // HH:MM, inclusive
+}
+
+export function timeToMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + (m || 0);
+}
+
+/**
+ * True if `time` falls inside the window. A missing window matches everything.
+ */
+export function isWithinWindow(time: string, window?: TimeWindow): boolean {
+  if (!window) return true;
+  const t = timeToMinutes(time);
+  return t >= timeToMinutes(window.start) && t <= timeToMinutes(window.end);
+}
+
+/**
+ * Format "19:30" as "7:30pm" for outbound texts.
+ */
+export function formatTime(time: string): string {
+  const total = timeToMinutes(time);
+  const h = Math.floor(total / 60);
+  const m = total % 60;
+  const suffix = h >= 12 ? 'pm' : 'am';
+  const h12 = h % 12 === 0 ? 12 : h % 12;
+  return m === 0 ? `${h12}${suffix}` : `${h12}:${m.toString().padStart(2, '0')}${suffix}`;
+}
+
+/**
+ * Add whole days to a YYYY-MM-DD date string (negative to go back).
+ */
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Offset of `timeZone` from UTC at the given instant, in milliseconds. */
+function timeZoneOffsetMs(epochMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(new Date(epochMs));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(epochMs / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock date + time in `timeZone` (IANA name) to an absolute instant.
+ * e.g. zonedTimeToUtc('2025-06-01', '10:00', 'America/New_York') → 2025-06-01T14:00:00Z
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+  const [y, mo, d] = date.split('-').map(Number);
+  const [h, mi] = time.split(':').map(Number);
+  const wallClock = Date.UTC(y, mo - 1, d, h, mi || 0);
+  const offset = timeZoneOffsetMs(wallClock, timeZone);
+  let epoch = wallClock - offset;
+  // Near a DST switch the offset at the guess and at the answer can differ
+  const corrected = timeZoneOffsetMs(epoch, timeZone);
+  if (corrected !== offset) epoch = wallClock - corrected;
+  return new Date(epoch);
+}
+
+/** Format an offset in milliseconds as "+HH:MM" / "-HH:MM". */
+export function formatUtcOffset(offsetMs: number): string {
+  const sign = offsetMs < 0 ? '-' : '+';
+  const minutes = Math.round(Math.abs(offsetMs) / 60_000);
+  return `${sign}${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * UTC offset of a wall-clock date + time in `timeZone`, e.g. "-07:00" for
+ * 7pm in Los Angeles in June. Undefined if the zone isn't recognized.
+ */
+export function utcOffsetAt(date: string, time: string, timeZone: string): string | undefined {
+  try {
+    const instant = zonedTimeToUtc(date, time, timeZone);
+    return formatUtcOffset(timeZoneOffsetMs(instant.getTime(), timeZone));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Wall-clock date and time of an instant in `timeZone`.
+ */
+export function toZonedWallClock(instant: Date, timeZone: string): { date: string; time: string } {
+  const local = new Date(instant.getTime() + timeZoneOffsetMs(instant.getTime(), timeZone));
+  const iso = local.toISOString();
+  return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+}
@@ -0,0 +1,57 @@
+import crypto from 'node:crypto';
+import type { AvailabilityWatch, NewAvailabilityWatch } from './types.js';
+import { putItem, queryByPk, updateItem } from '../db/dynamodb.js';
+import { redactPhone } from '../utils/redact.js';
+
+// All watches share one partition so the poller can read them with a single query.
+// SK embeds the handle so a user's watches can be listed by prefix.
+const WATCHES_PK = 'WATCHES';
+const WATCH_SK = (handle: string, id: string) => `WATCH#${handle}#${id}`;
+
+// Keep finished watches around for a day after the target date, then let TTL reap them
+const WATCH_GRACE_S = 24 * 60 * 60;
+
+function ttlForDate(date: string): number {
+  const target = new Date(`${date}T23:59:59Z`).getTime();
+  return Math.max(60, Math.floor((target - Date.now()) / 1000) + WATCH_GRACE_S);
+}
+
+export async function createWatch(data: NewAvailabilityWatch): Promise<AvailabilityWatch> {
+  const watch: AvailabilityWatch = {
+    ...data,
+    id: crypto.randomBytes(4).toString('hex'),
+    status: 'active',
+    createdAt: new Date().toISOString(),
+  };
+  await putItem(WATCHES_PK, WATCH_SK(watch.handle, watch.id), watch as unknown as Record<string, unknown>, ttlForDate(watch.date));
+  console.log(`[watches] Created watch ${watch.id} for ${redactPhone(watch.handle)}: venue ${watch.venueId} on ${watch.date}`);
+  return watch;
+}
+
+/**
+ * List watches, optionally for a single user. Only active watches unless `includeInactive`.
+ */
+export async function listWatches(handle?: string, includeInactive = false): Promise<AvailabilityWatch[]> {
+  const prefix = handle ? `WATCH#${handle}#` : 'WATCH#';
+  const watches = await queryByPk<AvailabilityWatch>(WATCHES_PK, prefix);
+  return includeInactive ? watches : watches.filter(w => w.status === 'active');
+}
+
+export async function updateWatch(
+  handle: string,
+  id: string,
+  updates: Partial<Pick<AvailabilityWatch, 'status' | 'lastCheckedAt'>>,
+): Promise<void> {
+  await updateItem(WATCHES_PK, WATCH_SK(handle, id), updates);
+}
+
+/**
+ * Cancel one of a user's watches. Returns false if the user has no such active watch.
+ */
+export async function cancelWatch(handle: string, id: string): Promise<boolean> {
+  const watches = await listWatches(handle);
+  if (!watches.some(w => w.id === id)) return false;
+  await updateWatch(handle, id, { status: 'cancelled' });
+  console.log(`[watches] Cancelled watch ${id} for ${redactPhone(handle)}`);
+  return true;
+}
@@ -0,0 +1,4 @@
+export type { AvailabilityWatch, NewAvailabilityWatch, WatchStatus } from './types.js';
+export { createWatch, listWatches, updateWatch, cancelWatch } from './db.js';
+export { pollWatches, matchingSlots } from './poller.js';
+export type { PollSummary } from './poller.js';
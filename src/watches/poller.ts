@@ -0,0 +1,126 @@
+/**
+ * Availability watch poller.
+ *
+ * Re-runs findSlots for every active watch and, when a slot inside the watch's
+ * window appears, texts the user (or books it for them if they asked for that).
+ * Invoked on a schedule by the watcher Lambda.
+ */
+
+import type { AvailabilityWatch } from './types.js';
+import { listWatches, updateWatch } from './db.js';
+import { findSlots, bookSlot, filterSlots, ResyAuthError, ResySlotTakenError, ResyFeeConsentError } from '../bookings/index.js';
+import type { ResyTimeSlot } from '../bookings/index.js';
+import { loadUserContext } from '../auth/index.js';
+import { recordLedgerEntry, bookingEntry } from '../ledger/index.js';
+import { sendMessage } from '../linq/client.js';
+import { addMessage } from '../state/conversation.js';
+import { formatTime, toZonedWallClock } from '../utils/time.js';
+import { redactPhone } from '../utils/redact.js';
+
+const DEFAULT_TIMEZONE = 'America/New_York';
+// Matches tried in turn when auto-booking, in case the first is taken meanwhile
+const MAX_AUTO_BOOK_ATTEMPTS = 3;
+
+export interface PollSummary {
+  checked: number;
+  matched: number;
+  expired: number;
+}
+
+export function matchingSlots(watch: AvailabilityWatch, slots: ResyTimeSlot[]): ResyTimeSlot[] {
+  return filterSlots(slots, { timeWindow: watch.timeWindow, seatingType: watch.seatingType });
+}
+
+async function notify(chatId: string, text: string): Promise<void> {
+  await sendMessage(chatId, text);
+  // Keep the conversation aware of what we told them out-of-band
+  await addMessage(chatId, 'assistant', text);
+}
+
+async function checkWatch(watch: AvailabilityWatch, now: Date): Promise<'matched' | 'expired' | 'none'> {
+  // The watch's date is the venue's, so it lasts until midnight there
+  const today = toZonedWallClock(now, watch.timezone || DEFAULT_TIMEZONE).date;
+  if (watch.date < today) {
+    await updateWatch(watch.handle, watch.id, { status: 'expired' });
+    return 'expired';
+  }
+
+  const userCtx = await loadUserContext(watch.handle);
+  if (!userCtx) {
+    console.log(`[watches] Skipping watch ${watch.id} — ${redactPhone(watch.handle)} has no Resy credentials`);
+    return 'none';
+  }
+  const authToken = userCtx.bookingsCredentials.resyAuthToken;
+
+  const slots = await findSlots(authToken, watch.venueId, watch.date, watch.partySize);
+  const matches = matchingSlots(watch, slots);
+  const timezone = !watch.timezone ? slots.find(s => s.timezone)?.timezone : undefined;
+  await updateWatch(watch.handle, watch.id, { lastCheckedAt: now.toISOString(), ...(timezone && { timezone }) });
+  if (matches.length === 0) return 'none';
+
+  const venue = watch.venueName || 'the restaurant';
+  console.log(`[watches] Watch ${watch.id} matched ${matches.length} slot(s) at venue ${watch.venueId}`);
+
+  if (watch.autoBook) {
+    // The matched slots are seconds old and already in the watch's window and
+    // seating, so book them as found rather than re-searching by time
+    for (const match of matches.slice(0, MAX_AUTO_BOOK_ATTEMPTS)) {
+      let confirmation;
+      try {
+        confirmation = await bookSlot(authToken, match, { maxFees: watch.maxFees });
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[watches] Auto-book of ${match.time} ${match.type} failed for watch ${watch.id}:`, msg);
+        if (!(error instanceof ResySlotTakenError || error instanceof ResyFeeConsentError)) break;
+        continue;
+      }
+
+      // The table is theirs now — record it even if telling them fails below
+      await updateWatch(watch.handle, watch.id, { status: 'booked' });
+      await recordLedgerEntry(bookingEntry(
+        { handle: watch.handle, chatId: watch.chatId, source: 'watch', sourceId: watch.id },
+        { ...confirmation, provider: 'resy', reservation_token: confirmation.resy_token },
+        { venueId: watch.venueId },
+      ));
+      try {
+        await notify(watch.chatId, `good news — a table opened up at ${confirmation.venue_name} and i grabbed it: ${watch.date} at ${formatTime(match.time)} for ${confirmation.party_size}`);
+        await sendMessage(watch.chatId, confirmation.venue_url);
+      } catch (error) {
+        console.error(`[watches] Booked watch ${watch.id} but failed to tell ${redactPhone(watch.handle)}:`, error);
+      }
+      return 'matched';
+    }
+    // Fall through to a plain alert so they can still jump on it
+  }
+
+  const times = matches.slice(0, 4).map(s => formatTime(s.time)).join(', ');
+  await updateWatch(watch.handle, watch.id, { status: 'notified' });
+  await notify(watch.chatId, `heads up — ${venue} just opened up on ${watch.date} for ${watch.partySize}: ${times}. want me to book one?`);
+  return 'matched';
+}
+
+/**
+ * Check every active watch once. Failures on one watch never stop the others.
+ */
+export async function pollWatches(now: Date = new Date()): Promise<PollSummary> {
+  const watches = await listWatches();
+  const summary: PollSummary = { checked: 0, matched: 0, expired: 0 };
+
+  for (const watch of watches) {
+    try {
+      const outcome = await checkWatch(watch, now);
+      summary.checked++;
+      if (outcome === 'matched') summary.matched++;
+      if (outcome === 'expired') summary.expired++;
+    } catch (error) {
+      if (error instanceof ResyAuthError) {
+        console.warn(`[watches] Resy session expired for ${redactPhone(watch.handle)} — skipping watch ${watch.id}`);
+      } else {
+        console.error(`[watches] Error checking watch ${watch.id}:`, error);
+      }
+    }
+  }
+
+  console.log(`[watches] Poll done: ${summary.checked} checked, ${summary.matched} matched, ${summary.expired} expired`);
+  return summary;
+}
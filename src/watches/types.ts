@@ -0,0 +1,27 @@
+import type { TimeWindow } from '../utils/time.js';
+import type { FeeLimits } from '../bookings/index.js';
+
+export type WatchStatus = 'active' | 'notified' | 'booked' | 'cancelled' | 'expired';
+
+/**
+ * A standing request to be told (or auto-booked) when a matching slot opens up.
+ */
+export interface AvailabilityWatch {
+  id: string;
+  handle: string;        // phone number of the user who asked
+  chatId: string;        // where to send the alert
+  venueId: number;
+  venueName?: string;
+  date: string;          // YYYY-MM-DD
+  partySize: number;
+  timeWindow: TimeWindow;
+  seatingType?: string;  // e.g. "Dining Room" — any type if unset
+  timezone?: string;     // venue IANA zone; learned from Resy's slots when not given
+  autoBook: boolean;
+  maxFees?: FeeLimits;   // fees the user agreed to up front; auto-book skips slots over them
+  status: WatchStatus;
+  createdAt: string;
+  lastCheckedAt?: string;
+}
+
+export type NewAvailabilityWatch = Omit<AvailabilityWatch, 'id' | 'status' | 'createdAt' | 'lastCheckedAt'>;